@@ -0,0 +1,129 @@
+import type { AppScreen, UserSettings, Word, WordStat } from './index.tsx';
+import type { ChallengeEvent } from './dailyChallenges';
+
+// --- Achievements ---
+// Long-term goals that stay unlocked once reached. Some are read straight from the learning data (words studied,
+// streak, mastered units); the rest need totals the data doesn't keep, such as characters typed or games beaten, so
+// those are counted from the same learning events that drive the daily challenges and saved with the user.
+
+export type AchievementId = 'first100Words' | 'streak7Days' | 'masterUnit' | 'typed1000Chars' | 'perfectQuiz' | 'beatEveryGame';
+
+export interface AchievementState {
+    unlocked: Partial<Record<AchievementId, string>>; // Id → ISO time it was unlocked
+    typedCharacters: number; // Correctly typed characters in typing practice, the ones WPM is computed from
+    perfectQuizzes: number;
+    gamesBeaten: AppScreen[];
+}
+
+export const EMPTY_ACHIEVEMENT_STATE: AchievementState = { unlocked: {}, typedCharacters: 0, perfectQuizzes: 0, gamesBeaten: [] };
+
+// Everything else an achievement may be measured against
+export interface AchievementSnapshot {
+    words: Word[];
+    wordStats: Record<string | number, WordStat>;
+    settings: Pick<UserSettings, 'currentStreak' | 'bestStreak'>;
+    games: AppScreen[]; // Every playable game
+}
+
+export interface AchievementProgress {
+    current: number;
+    target: number;
+    detail?: string; // e.g. which unit is closest to being mastered
+}
+
+interface AchievementDefinition {
+    name: string;
+    description: string;
+    icon: string;
+    getProgress: (state: AchievementState, snapshot: AchievementSnapshot) => AchievementProgress;
+}
+
+const MIN_PERFECT_QUIZ_QUESTIONS = 5;
+
+// The unit with the largest share of mastered words; a fully mastered unit wins over a bigger, nearly mastered one
+const getClosestUnitProgress = ({ words, wordStats }: AchievementSnapshot): AchievementProgress => {
+    const units = new Map<string, { mastered: number; total: number }>();
+    words.forEach(word => {
+        if (!word.unit) return;
+        const unit = units.get(String(word.unit)) ?? { mastered: 0, total: 0 };
+        unit.total++;
+        if (wordStats[word.id]?.isMastered) unit.mastered++;
+        units.set(String(word.unit), unit);
+    });
+    let closest: AchievementProgress = { current: 0, target: 1 };
+    units.forEach(({ mastered, total }, unit) => {
+        if (mastered / total > closest.current / closest.target) closest = { current: mastered, target: total, detail: `Unit ${unit}` };
+    });
+    return closest;
+};
+
+export const ACHIEVEMENT_DEFINITIONS: Record<AchievementId, AchievementDefinition> = {
+    first100Words: {
+        name: '첫 100단어',
+        description: '단어 100개 학습하기',
+        icon: '📚',
+        getProgress: (_state, { words, wordStats }) => ({ current: words.filter(word => wordStats[word.id]?.lastReviewed).length, target: 100 }),
+    },
+    streak7Days: {
+        name: '일주일 개근',
+        description: '7일 연속 학습하기',
+        icon: '🔥',
+        getProgress: (_state, { settings }) => ({ current: Math.max(settings.currentStreak ?? 0, settings.bestStreak ?? 0), target: 7 }),
+    },
+    masterUnit: {
+        name: '단원 정복',
+        description: '한 단원의 모든 단어 마스터하기',
+        icon: '🏰',
+        getProgress: (_state, snapshot) => getClosestUnitProgress(snapshot),
+    },
+    typed1000Chars: {
+        name: '타자 장인',
+        description: '타자 연습에서 1,000자 정확히 입력하기',
+        icon: '⌨️',
+        getProgress: state => ({ current: state.typedCharacters, target: 1000 }),
+    },
+    perfectQuiz: {
+        name: '만점왕',
+        description: `${MIN_PERFECT_QUIZ_QUESTIONS}문제 이상 퀴즈에서 만점 받기`,
+        icon: '💯',
+        getProgress: state => ({ current: state.perfectQuizzes, target: 1 }),
+    },
+    beatEveryGame: {
+        name: '게임 마스터',
+        description: '모든 게임을 정답이 오답보다 많게 끝내기',
+        icon: '🎮',
+        getProgress: (state, { games }) => ({ current: games.filter(game => state.gamesBeaten.includes(game)).length, target: games.length }),
+    },
+};
+
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENT_DEFINITIONS) as AchievementId[];
+
+// Older saves may lack fields added later
+export const getAchievementState = (state: AchievementState | undefined): AchievementState => ({ ...EMPTY_ACHIEVEMENT_STATE, ...state });
+
+// Returns the same state object if the event counts towards nothing
+export const applyAchievementEvent = (state: AchievementState, event: ChallengeEvent): AchievementState => {
+    if (event.type === 'quizCompleted' && event.total >= MIN_PERFECT_QUIZ_QUESTIONS && event.correct === event.total) {
+        return { ...state, perfectQuizzes: state.perfectQuizzes + 1 };
+    }
+    if (event.type !== 'gamePlayed') return state;
+
+    const isNewWin = event.correct > event.incorrect && !state.gamesBeaten.includes(event.game);
+    if (!isNewWin && !event.typedCharacters) return state;
+    return {
+        ...state,
+        typedCharacters: state.typedCharacters + (event.typedCharacters ?? 0),
+        gamesBeaten: isNewWin ? [...state.gamesBeaten, event.game] : state.gamesBeaten,
+    };
+};
+
+export const isAchievementReached = (progress: AchievementProgress) => progress.target > 0 && progress.current >= progress.target;
+
+// Achievements reached but not yet recorded as unlocked
+export const findNewAchievements = (state: AchievementState, snapshot: AchievementSnapshot): AchievementId[] =>
+    ACHIEVEMENT_IDS.filter(id => !state.unlocked[id] && isAchievementReached(ACHIEVEMENT_DEFINITIONS[id].getProgress(state, snapshot)));
+
+export const markAchievementsUnlocked = (state: AchievementState, ids: AchievementId[], unlockedAt: string): AchievementState => ({
+    ...state,
+    unlocked: { ...state.unlocked, ...Object.fromEntries(ids.filter(id => !state.unlocked[id]).map(id => [id, unlockedAt])) },
+});
@@ -0,0 +1,99 @@
+// --- AI response cache ---
+// Word details and images generated by the AI are kept per term, so asking again for the same word doesn't spend
+// another request. An entry is keyed by feature, model, prompt version and term: switching providers or changing a
+// prompt simply stops matching old entries, which then age out. Entries expire after a per-feature TTL, and once the
+// cache grows past its size limits the least recently used ones are dropped first.
+
+export type AICacheFeature = 'wordDetails' | 'image';
+
+export interface AICacheKeyParts {
+    feature: AICacheFeature;
+    term: string;
+    model: string;
+    promptVersion: number;
+}
+
+export interface AICacheEntry extends AICacheKeyParts {
+    key: string;
+    value: unknown; // The parsed response; a Blob for images
+    size: number; // Approximate bytes, for the size limit
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+// Everything but the value, for listing the cache without reading every image
+export type AICacheEntryInfo = Omit<AICacheEntry, 'value'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AI_CACHE_TTL_MS: Record<AICacheFeature, number> = {
+    wordDetails: 30 * DAY_MS,
+    image: 90 * DAY_MS,
+};
+
+export const AI_CACHE_MAX_ENTRIES = 500;
+export const AI_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
+export const AI_CACHE_FEATURE_LABELS: Record<AICacheFeature, string> = {
+    wordDetails: '단어 정보',
+    image: '이미지',
+};
+
+export const normalizeCacheTerm = (term: string) => term.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const buildAICacheKey = ({ feature, term, model, promptVersion }: AICacheKeyParts) =>
+    `${feature}|${model}|v${promptVersion}|${normalizeCacheTerm(term)}`;
+
+// Strings count twice for UTF-16; close enough to keep the cache within bounds
+export const estimateCacheValueSize = (value: unknown): number =>
+    value instanceof Blob ? value.size : JSON.stringify(value ?? null).length * 2;
+
+export const createAICacheEntry = (parts: AICacheKeyParts, value: unknown, now: number = Date.now()): AICacheEntry => ({
+    ...parts,
+    term: normalizeCacheTerm(parts.term),
+    key: buildAICacheKey(parts),
+    value,
+    size: estimateCacheValueSize(value),
+    createdAt: now,
+    lastUsedAt: now,
+});
+
+export const isAICacheEntryExpired = (entry: Pick<AICacheEntry, 'feature' | 'createdAt'>, now: number = Date.now()) =>
+    now - entry.createdAt > (AI_CACHE_TTL_MS[entry.feature] ?? 0);
+
+// Keys to delete: every expired entry, then the least recently used until both limits are met
+export const pickAICacheEvictions = (entries: AICacheEntryInfo[], now: number = Date.now()): string[] => {
+    const evicted = entries.filter(entry => isAICacheEntryExpired(entry, now)).map(entry => entry.key);
+    const kept = entries.filter(entry => !isAICacheEntryExpired(entry, now)).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+    let totalSize = kept.reduce((sum, entry) => sum + entry.size, 0);
+    let count = kept.length;
+    for (const entry of kept) {
+        if (count <= AI_CACHE_MAX_ENTRIES && totalSize <= AI_CACHE_MAX_BYTES) break;
+        evicted.push(entry.key);
+        totalSize -= entry.size;
+        count--;
+    }
+    return evicted;
+};
+
+export interface AICacheSummary {
+    count: number;
+    size: number;
+    byFeature: Record<AICacheFeature, { count: number; size: number }>;
+}
+
+export const summarizeAICache = (entries: AICacheEntryInfo[]): AICacheSummary => {
+    const byFeature: AICacheSummary['byFeature'] = { wordDetails: { count: 0, size: 0 }, image: { count: 0, size: 0 } };
+    entries.forEach(entry => {
+        const feature = byFeature[entry.feature];
+        if (!feature) return;
+        feature.count++;
+        feature.size += entry.size;
+    });
+    return { count: entries.length, size: entries.reduce((sum, entry) => sum + entry.size, 0), byFeature };
+};
+
+export const formatCacheSize = (bytes: number) => {
+    if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+    return bytes > 0 ? `${Math.max(1, Math.round(bytes / 1024))}KB` : '0KB';
+};
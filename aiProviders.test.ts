@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAIProvider } from './aiProviders';
+import type { Word } from './index.tsx';
+
+const apple: Word = { id: 1, term: 'apple', meaning: '사과', partOfSpeech: '명사', exampleSentence: 'I eat an apple every morning.', gradeLevel: 'middle1' };
+
+// The fake provider waits a little to look like a network call; fake timers skip the wait
+const settle = async <T,>(promise: Promise<T>) => {
+    await vi.runAllTimersAsync();
+    return promise;
+};
+
+describe('fake AI provider', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('is created without a key', () => {
+        const provider = createAIProvider({ provider: 'fake' });
+        expect(provider).toMatchObject({ name: 'fake', supportsImages: true });
+    });
+
+    it('answers word details from its fixtures', async () => {
+        const provider = createAIProvider({ provider: 'fake' })!;
+        const details = await settle(provider.generateWordDetails(' Apple '));
+        expect(details).toMatchObject({ term: 'apple', meaning: '사과', partOfSpeech: '명사' });
+        expect(details.exampleSentence).toContain('apple');
+    });
+
+    it('fills in every word detail for terms without a fixture', async () => {
+        const provider = createAIProvider({ provider: 'fake' })!;
+        const details = await settle(provider.generateWordDetails('kiwi'));
+        expect(details.term).toBe('kiwi');
+        for (const field of ['pronunciation', 'partOfSpeech', 'meaning', 'exampleSentence', 'exampleSentenceMeaning'] as const) {
+            expect(details[field]).toBeTruthy();
+        }
+    });
+
+    it('gives a new example for each one already seen', async () => {
+        const provider = createAIProvider({ provider: 'fake' })!;
+        const first = await settle(provider.generateDifferentExample(apple, 'middle1', [apple.exampleSentence]));
+        const second = await settle(provider.generateDifferentExample(apple, 'middle1', [apple.exampleSentence, first.newExampleSentence!]));
+        expect(first.newExampleSentence).toContain('apple');
+        expect(first.newExampleSentenceMeaning).toBeTruthy();
+        expect(second.newExampleSentence).not.toBe(first.newExampleSentence);
+    });
+
+    it('returns a natural example with a pronunciation', async () => {
+        const provider = createAIProvider({ provider: 'fake' })!;
+        const example = await settle(provider.generateNaturalExample(apple, 'middle1'));
+        expect(example.exampleSentence).toContain('apple');
+        expect(example).toMatchObject({ pronunciation: '/apple/' });
+    });
+});
@@ -0,0 +1,364 @@
+import { GoogleGenAI } from '@google/genai';
+import type { Word } from './index.tsx';
+
+// --- AI providers ---
+// Every AI feature goes through an AIProvider, picked once at startup, instead of calling Gemini directly. The Gemini
+// and OpenAI-compatible providers send the same prompts and differ only in how a request reaches the model; the fake
+// provider answers from fixtures without any network, so every AI screen can be used during development without a
+// key. Providers only fetch and parse: retries, quota handling and checking for missing fields stay with the callers.
+
+export type AIProviderName = 'gemini' | 'openai' | 'fake';
+
+export const AI_PROVIDER_NAMES: AIProviderName[] = ['gemini', 'openai', 'fake'];
+
+export interface AIExampleSentence {
+    newExampleSentence: string;
+    newExampleSentenceMeaning: string;
+}
+
+export interface AINaturalExample {
+    exampleSentence: string;
+    exampleSentenceMeaning: string;
+    pronunciation: string;
+}
+
+export interface AIImage {
+    base64: string;
+    mimeType: string;
+}
+
+export interface AIChatSession {
+    // Yields the reply in pieces as they arrive; providers that can't stream yield it whole
+    sendMessageStream: (message: string, signal?: AbortSignal) => AsyncIterable<string>;
+}
+
+// Results are whatever the model returned, so any field may be missing. The signal cancels the request where the
+// transport allows it; callers must not rely on it to stop a request already sent
+export interface AIProvider {
+    name: AIProviderName;
+    label: string; // Shown in the UI and logs, e.g. "Gemini (gemini-2.5-flash-preview-04-17)"
+    models: { text: string; image: string | null }; // Part of the AI cache key, see aiCache.ts
+    supportsImages: boolean;
+    generateWordDetails: (term: string, signal?: AbortSignal) => Promise<Partial<Word>>;
+    generateDifferentExample: (word: Word, grade: string, seenSentences: string[], signal?: AbortSignal) => Promise<Partial<AIExampleSentence>>;
+    generateNaturalExample: (word: Word, grade: string, signal?: AbortSignal) => Promise<Partial<AINaturalExample>>;
+    generateSummary: (text: string, signal?: AbortSignal) => Promise<string>;
+    generateImage: (term: string, signal?: AbortSignal) => Promise<AIImage | null>;
+    createChat: (systemInstruction: string) => AIChatSession;
+}
+
+export interface AIProviderConfig {
+    provider?: string; // One of AI_PROVIDER_NAMES; when unset, Gemini is used if it has a key
+    geminiApiKey?: string;
+    openaiBaseUrl?: string; // e.g. http://localhost:11434/v1
+    openaiApiKey?: string;
+    openaiModel?: string;
+    openaiImageModel?: string; // Images are turned off for the OpenAI-compatible provider unless this is set
+}
+
+// Thrown for non-2xx HTTP responses; `status` lets the callers' error parsing tell rate limits from other failures
+export class AIProviderHttpError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'AIProviderHttpError';
+        this.status = status;
+    }
+}
+
+// --- Prompts ---
+// Shared by the providers that talk to a real model. Bump a version when its prompt changes in a way that should
+// stop cached answers from being reused
+
+export const AI_PROMPT_VERSIONS = {
+    wordDetails: 1,
+    image: 1,
+} as const;
+
+const GEMINI_TEXT_MODEL = 'gemini-2.5-flash-preview-04-17';
+const GEMINI_IMAGE_MODEL = 'imagen-3.0-generate-002';
+
+const buildWordDetailsPrompt = (term: string) => `Provide details for the English word "${term}". Your response MUST be a JSON object with the following fields: "pronunciation" (phonetic, optional), "partOfSpeech" (e.g., noun, verb, adjective, in Korean e.g., 명사, 동사), "meaning" (Korean meaning), "exampleSentence" (simple English example), "exampleSentenceMeaning" (Korean translation of example). Ensure exampleSentence is appropriate for language learners. If "${term}" seems like a typo or not a common English word, try to correct it if obvious and return details for the corrected term, including the corrected "term" in the JSON. If correction is not obvious or it's not a word, return null for all fields.
+
+Example JSON:
+{
+  "term": "person",
+  "pronunciation": "/ˈpɜːrsən/",
+  "partOfSpeech": "명사",
+  "meaning": "사람",
+  "exampleSentence": "This is a person.",
+  "exampleSentenceMeaning": "이것은 사람입니다."
+}`;
+
+const buildDifferentExamplePrompt = (word: Word, grade: string, seenSentences: string[]) => `You are an English vocabulary tutor for Korean students.
+The user is learning the word: "${word.term}" (Part of speech: ${word.partOfSpeech}, Korean meaning: ${word.meaning}).
+The user's current grade level is: ${grade}.
+The user has already seen these examples:
+${seenSentences.map(sentence => `- "${sentence}"`).join('\n')}
+
+Generate ONE NEW, DIFFERENT, and SIMPLE English example sentence for the word "${word.term}" that is appropriate for a ${grade} Korean student.
+The new example sentence should clearly illustrate the meaning of "${word.term}".
+Your response MUST be a JSON object with the following fields:
+"newExampleSentence": "The new English example sentence.",
+"newExampleSentenceMeaning": "The Korean translation of the new example sentence."
+
+Example JSON response:
+{
+  "newExampleSentence": "She showed great courage when she helped the lost child.",
+  "newExampleSentenceMeaning": "그녀는 길 잃은 아이를 도왔을 때 대단한 용기를 보여주었다."
+}`;
+
+const buildNaturalExamplePrompt = (word: Word, grade: string) => `You are an English vocabulary tutor for Korean students.
+Write ONE natural, simple English example sentence for the word "${word.term}" as a ${word.partOfSpeech} meaning "${word.meaning}", appropriate for a ${grade} Korean student.
+The sentence must use "${word.term}" in exactly that sense and part of speech, and read like real English rather than a template such as "This is a ${word.term}." or "I want to ${word.term}.".
+Your response MUST be a JSON object with the following fields:
+"exampleSentence": "The English example sentence.",
+"exampleSentenceMeaning": "The Korean translation of the example sentence.",
+"pronunciation": "The IPA pronunciation of the word, e.g. /kaɪnd/"`;
+
+const buildSummaryPrompt = (text: string) => `Your response MUST be a JSON object with a "summary" field. Please provide a brief summary of the following text in Korean (around 2-3 sentences), focusing on the main topics or themes. Text: """${text.substring(0, 30000)}"""`;
+
+const buildImagePrompt = (term: string) => `A clear, simple, educational, dictionary illustration style image representing the English word: "${term}". Focus on a single, easily recognizable subject related to the word's most common meaning. Vibrant and kid-friendly.`;
+
+// Models sometimes wrap JSON in a Markdown code fence even when asked not to
+const parseJsonResponse = <T>(text: string): T => {
+    let jsonStr = text.trim();
+    const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+    const match = jsonStr.match(fenceRegex);
+    if (match && match[2]) {
+        jsonStr = match[2].trim();
+    }
+    return JSON.parse(jsonStr) as T;
+};
+
+type JsonCompletion = (prompt: string, temperature: number, signal?: AbortSignal) => Promise<string>;
+
+// The text features of a provider that only needs to turn a prompt into a JSON string
+const createPromptedFeatures = (completeJson: JsonCompletion): Pick<AIProvider, 'generateWordDetails' | 'generateDifferentExample' | 'generateNaturalExample' | 'generateSummary'> => ({
+    generateWordDetails: async (term, signal) => parseJsonResponse<Partial<Word>>(await completeJson(buildWordDetailsPrompt(term), 0.5, signal)) ?? {},
+    generateDifferentExample: async (word, grade, seenSentences, signal) =>
+        parseJsonResponse<Partial<AIExampleSentence>>(await completeJson(buildDifferentExamplePrompt(word, grade, seenSentences), 0.7, signal)) ?? {},
+    generateNaturalExample: async (word, grade, signal) =>
+        parseJsonResponse<Partial<AINaturalExample>>(await completeJson(buildNaturalExamplePrompt(word, grade), 0.6, signal)) ?? {},
+    generateSummary: async (text, signal) => parseJsonResponse<{ summary?: string } | null>(await completeJson(buildSummaryPrompt(text), 0.6, signal))?.summary ?? '',
+});
+
+// --- Gemini ---
+
+const createGeminiProvider = (apiKey: string): AIProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        name: 'gemini',
+        label: `Gemini (${GEMINI_TEXT_MODEL})`,
+        models: { text: GEMINI_TEXT_MODEL, image: GEMINI_IMAGE_MODEL },
+        supportsImages: true,
+        ...createPromptedFeatures(async (prompt, temperature, signal) => {
+            const response = await ai.models.generateContent({
+                model: GEMINI_TEXT_MODEL,
+                contents: prompt,
+                config: { responseMimeType: 'application/json', temperature, abortSignal: signal },
+            });
+            return response.text ?? '';
+        }),
+        generateImage: async (term, signal) => {
+            const response = await ai.models.generateImages({
+                model: GEMINI_IMAGE_MODEL,
+                prompt: buildImagePrompt(term),
+                config: { numberOfImages: 1, outputMimeType: 'image/jpeg', abortSignal: signal },
+            });
+            const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+            return imageBytes ? { base64: imageBytes, mimeType: 'image/jpeg' } : null;
+        },
+        createChat: systemInstruction => {
+            const chat = ai.chats.create({ model: GEMINI_TEXT_MODEL, config: { systemInstruction } });
+            return {
+                // A per-message config would replace the chat's system instruction, so cancelling only stops reading
+                sendMessageStream: async function* (message, signal) {
+                    const stream = await chat.sendMessageStream({ message });
+                    for await (const chunk of stream) {
+                        if (signal?.aborted) return;
+                        yield chunk.text ?? '';
+                    }
+                },
+            };
+        },
+    };
+};
+
+// --- OpenAI-compatible HTTP ---
+// Any server with the /chat/completions endpoint, e.g. a local model server; chat replies arrive whole
+
+interface OpenAIChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+// Only the fields read below; servers differ in what else they send, and any of these may be missing
+interface OpenAIChatCompletionResponse {
+    choices?: { message?: { content?: string | null } }[];
+}
+
+interface OpenAIImageResponse {
+    data?: { b64_json?: string }[];
+}
+
+interface OpenAIErrorResponse {
+    error?: { message?: string };
+}
+
+const createOpenAICompatibleProvider = (config: AIProviderConfig): AIProvider => {
+    const baseUrl = (config.openaiBaseUrl || 'http://localhost:11434/v1').replace(/\/+$/, '');
+    const model = config.openaiModel || 'llama3.1';
+
+    const postJson = async <T,>(path: string, body: object, signal?: AbortSignal): Promise<T | null> => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            signal,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.openaiApiKey ? { Authorization: `Bearer ${config.openaiApiKey}` } : {}),
+            },
+            body: JSON.stringify(body),
+        });
+        const data: (T & OpenAIErrorResponse) | null = await response.json().catch(() => null);
+        if (!response.ok) {
+            throw new AIProviderHttpError(response.status, data?.error?.message || `${response.status} ${response.statusText}`);
+        }
+        return data;
+    };
+
+    const complete = async (messages: OpenAIChatMessage[], options: { temperature?: number; json?: boolean; signal?: AbortSignal } = {}): Promise<string> => {
+        const data = await postJson<OpenAIChatCompletionResponse>('/chat/completions', {
+            model,
+            messages,
+            temperature: options.temperature,
+            ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+        }, options.signal);
+        return data?.choices?.[0]?.message?.content ?? '';
+    };
+
+    return {
+        name: 'openai',
+        label: `OpenAI 호환 (${model})`,
+        models: { text: model, image: config.openaiImageModel || null },
+        supportsImages: !!config.openaiImageModel,
+        ...createPromptedFeatures((prompt, temperature, signal) => complete([{ role: 'user', content: prompt }], { temperature, json: true, signal })),
+        generateImage: async (term, signal) => {
+            if (!config.openaiImageModel) return null;
+            const data = await postJson<OpenAIImageResponse>('/images/generations', {
+                model: config.openaiImageModel,
+                prompt: buildImagePrompt(term),
+                n: 1,
+                response_format: 'b64_json',
+            }, signal);
+            const base64 = data?.data?.[0]?.b64_json;
+            return base64 ? { base64, mimeType: 'image/png' } : null;
+        },
+        createChat: systemInstruction => {
+            const history: OpenAIChatMessage[] = [{ role: 'system', content: systemInstruction }];
+            return {
+                sendMessageStream: async function* (message, signal) {
+                    const reply = await complete([...history, { role: 'user', content: message }], { signal });
+                    // Only kept once the reply arrived, so a failed message can simply be sent again
+                    history.push({ role: 'user', content: message }, { role: 'assistant', content: reply });
+                    yield reply;
+                },
+            };
+        },
+    };
+};
+
+// --- Fake (offline) ---
+// Same input, same answer: details come from a few fixtures or a template, and each new example is numbered by how
+// many the caller has already seen, so "다른 예문 보기" always gets one it hasn't shown yet
+
+const FAKE_LATENCY_MS = 300;
+
+const FAKE_WORD_FIXTURES: Record<string, Partial<Word>> = {
+    apple: { term: 'apple', pronunciation: '/ˈæpəl/', partOfSpeech: '명사', meaning: '사과', exampleSentence: 'I eat an apple every morning.', exampleSentenceMeaning: '나는 매일 아침 사과를 하나 먹는다.' },
+    run: { term: 'run', pronunciation: '/rʌn/', partOfSpeech: '동사', meaning: '달리다', exampleSentence: 'We run in the park after school.', exampleSentenceMeaning: '우리는 방과 후에 공원에서 달린다.' },
+    happy: { term: 'happy', pronunciation: '/ˈhæpi/', partOfSpeech: '형용사', meaning: '행복한', exampleSentence: 'She looks happy today.', exampleSentenceMeaning: '그녀는 오늘 행복해 보인다.' },
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toBase64 = (text: string) => {
+    let binary = '';
+    new TextEncoder().encode(text).forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+};
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const createFakeProvider = (): AIProvider => ({
+    name: 'fake',
+    label: '오프라인 테스트용',
+    models: { text: 'fake', image: 'fake' },
+    supportsImages: true,
+    generateWordDetails: async term => {
+        await wait(FAKE_LATENCY_MS);
+        const key = term.trim().toLowerCase();
+        return FAKE_WORD_FIXTURES[key] ?? {
+            term: key,
+            pronunciation: `/${key}/`,
+            partOfSpeech: '명사',
+            meaning: `${key}의 뜻 (테스트)`,
+            exampleSentence: `This sentence uses the word ${key}.`,
+            exampleSentenceMeaning: `이 문장은 ${key}라는 단어를 사용한다.`,
+        };
+    },
+    generateDifferentExample: async (word, _grade, seenSentences) => {
+        await wait(FAKE_LATENCY_MS);
+        const number = seenSentences.length + 1;
+        return {
+            newExampleSentence: `Example ${number}: I learned the word ${word.term} today.`,
+            newExampleSentenceMeaning: `예문 ${number}: 나는 오늘 ${word.term}라는 단어를 배웠다.`,
+        };
+    },
+    generateNaturalExample: async word => {
+        await wait(FAKE_LATENCY_MS);
+        return {
+            exampleSentence: `My teacher used the word ${word.term} in class.`,
+            exampleSentenceMeaning: `선생님께서 수업 시간에 ${word.term}라는 단어를 쓰셨다.`,
+            pronunciation: word.pronunciation || `/${word.term}/`,
+        };
+    },
+    generateSummary: async text => {
+        await wait(FAKE_LATENCY_MS);
+        const wordCount = text.split(/\s+/).filter(Boolean).length;
+        return `(테스트 요약) 단어 ${wordCount}개로 된 글입니다. 첫 부분: "${text.trim().substring(0, 60)}"`;
+    },
+    generateImage: async term => {
+        await wait(FAKE_LATENCY_MS);
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="512" height="512" fill="#cffafe"/><text x="256" y="256" font-family="sans-serif" font-size="56" text-anchor="middle" dominant-baseline="middle" fill="#0e7490">${escapeXml(term)}</text></svg>`;
+        return { base64: toBase64(svg), mimeType: 'image/svg+xml' };
+    },
+    createChat: () => ({
+        sendMessageStream: async function* (message) {
+            const reply = `(테스트 응답) "${message}"에 대한 답변입니다. 오프라인 모드에서는 받은 메시지를 그대로 돌려줘요. 😊`;
+            for (const piece of reply.split(/(?<= )/)) {
+                await wait(FAKE_LATENCY_MS / 10);
+                yield piece;
+            }
+        },
+    }),
+});
+
+// Null means AI features are turned off
+export const createAIProvider = (config: AIProviderConfig): AIProvider | null => {
+    const requested = config.provider?.trim().toLowerCase();
+    if (requested && !AI_PROVIDER_NAMES.includes(requested as AIProviderName)) {
+        console.warn(`Unknown AI provider '${config.provider}'. Expected one of: ${AI_PROVIDER_NAMES.join(', ')}.`);
+    }
+    switch (requested || 'gemini') {
+        case 'fake':
+            return createFakeProvider();
+        case 'openai':
+            return createOpenAICompatibleProvider(config);
+        case 'gemini':
+            return config.geminiApiKey ? createGeminiProvider(config.geminiApiKey) : null;
+        default:
+            return null;
+    }
+};
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIJobAbortedError, createAIRequestQueue } from './aiRequestQueue';
+
+const createQueue = () => createAIRequestQueue({ maxConcurrent: 1, requestsPerMinute: 100, classifyError: () => 'other' });
+
+describe('createAIRequestQueue', () => {
+    it('runs jobs one at a time up to the concurrency limit', async () => {
+        const queue = createQueue();
+        const order: string[] = [];
+        const job = (label: string) => queue.enqueue({
+            label,
+            run: async () => {
+                order.push(`start ${label}`);
+                await Promise.resolve();
+                order.push(`end ${label}`);
+                return label;
+            },
+        });
+        await expect(Promise.all([job('a'), job('b')])).resolves.toEqual(['a', 'b']);
+        expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+        expect(queue.getJobs()).toEqual([]);
+    });
+
+    it('releases the slot when run() throws synchronously', async () => {
+        const queue = createQueue();
+        const failing = queue.enqueue<string>({
+            label: 'throws',
+            run: () => { throw new Error('boom'); },
+        });
+        const next = queue.enqueue({ label: 'next', run: async () => 'done' });
+        await expect(failing).rejects.toThrow('boom');
+        await expect(next).resolves.toBe('done');
+        expect(queue.getJobs()).toEqual([]);
+    });
+});
+
+// Resolves or rejects from the test, so a job can be held in the running state
+const deferred = <T,>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+    return { promise, resolve, reject };
+};
+
+describe('createAIRequestQueue with timers', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it('retries with the delay doubled each time', async () => {
+        const queue = createQueue();
+        const startedAt: number[] = [];
+        const result = queue.enqueue({
+            label: 'flaky',
+            retries: 2,
+            initialRetryDelayMs: 1000,
+            run: async () => {
+                startedAt.push(Date.now());
+                if (startedAt.length < 3) throw new Error('try again');
+                return 'ok';
+            },
+        });
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(startedAt).toEqual([0]);
+        expect(queue.getJobs()[0]).toMatchObject({ status: 'waitingToRetry', attempt: 2, retryAt: 1000, lastError: 'try again' });
+        await vi.advanceTimersByTimeAsync(1);
+        expect(startedAt).toEqual([0, 1000]);
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(startedAt).toEqual([0, 1000, 3000]);
+        await expect(result).resolves.toBe('ok');
+    });
+
+    it('rejects with the last error once the retries run out', async () => {
+        const queue = createQueue();
+        let attempts = 0;
+        const result = queue.enqueue({ label: 'broken', retries: 1, initialRetryDelayMs: 1000, run: async () => { throw new Error(`fail ${++attempts}`); } });
+        const assertion = expect(result).rejects.toThrow('fail 2');
+        await vi.advanceTimersByTimeAsync(1000);
+        await assertion;
+        expect(queue.getJobs()).toEqual([]);
+    });
+
+    it.each([
+        [0, 500],
+        [0.999, 1499],
+    ])('spreads retries after a rate limit between half and one and a half times the delay (random %s)', async (random, expectedDelay) => {
+        vi.spyOn(Math, 'random').mockReturnValue(random);
+        const queue = createAIRequestQueue({ maxConcurrent: 1, requestsPerMinute: 100, classifyError: () => 'rateLimited' });
+        let attempts = 0;
+        const result = queue.enqueue({
+            label: 'limited',
+            retries: 1,
+            initialRetryDelayMs: 1000,
+            run: async () => {
+                if (++attempts === 1) throw new Error('429');
+                return Date.now();
+            },
+        });
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(queue.getJobs()[0].retryAt).toBe(expectedDelay);
+        await vi.advanceTimersByTimeAsync(expectedDelay - 1);
+        expect(attempts).toBe(1);
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toBe(expectedDelay);
+    });
+
+    it('holds jobs past the per-minute limit until the window has passed', async () => {
+        const queue = createAIRequestQueue({ maxConcurrent: 5, requestsPerMinute: 2, classifyError: () => 'other' });
+        const startedAt: number[] = [];
+        const results = ['a', 'b', 'c'].map(label => queue.enqueue({ label, run: async () => { startedAt.push(Date.now()); return label; } }));
+
+        await vi.advanceTimersByTimeAsync(59_999);
+        expect(startedAt).toEqual([0, 0]);
+        expect(queue.getJobs()).toMatchObject([{ label: 'c', status: 'queued' }]);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(startedAt).toEqual([0, 0, 60_000]);
+        await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+    });
+
+    it('drops a queued job when its signal fires', async () => {
+        const queue = createQueue();
+        const first = deferred<string>();
+        const controller = new AbortController();
+        const queuedRun = vi.fn(async () => 'never');
+        const running = queue.enqueue({ label: 'running', run: () => first.promise });
+        const queued = queue.enqueue({ label: 'queued', signal: controller.signal, run: queuedRun });
+
+        controller.abort();
+        await expect(queued).rejects.toBeInstanceOf(AIJobAbortedError);
+        expect(queue.getJobs()).toMatchObject([{ label: 'running' }]);
+
+        first.resolve('done');
+        await expect(running).resolves.toBe('done');
+        expect(queuedRun).not.toHaveBeenCalled();
+    });
+
+    it('gives the slot back when a running job is aborted', async () => {
+        const queue = createQueue();
+        const controller = new AbortController();
+        let runSignal: AbortSignal | undefined;
+        const running = queue.enqueue({ label: 'slow', signal: controller.signal, run: signal => { runSignal = signal; return new Promise<string>(() => {}); } });
+        const next = queue.enqueue({ label: 'next', run: async () => 'next done' });
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(queue.getJobs()).toMatchObject([{ label: 'slow', status: 'running' }, { label: 'next', status: 'queued' }]);
+
+        controller.abort();
+        await expect(running).rejects.toBeInstanceOf(AIJobAbortedError);
+        expect(runSignal?.aborted).toBe(true);
+        await expect(next).resolves.toBe('next done');
+        expect(queue.getJobs()).toEqual([]);
+    });
+
+    it('rejects every waiting job once the quota is exhausted', async () => {
+        const quotaError = new Error('quota exceeded');
+        const queue = createAIRequestQueue({ maxConcurrent: 1, requestsPerMinute: 100, classifyError: error => error === quotaError ? 'quotaExhausted' : 'other' });
+        const laterRuns = vi.fn(async () => 'never');
+        const failing = queue.enqueue({ label: 'first', retries: 2, run: async () => { throw quotaError; } });
+        const waiting = [queue.enqueue({ label: 'second', run: laterRuns }), queue.enqueue({ label: 'third', retries: 1, run: laterRuns })];
+
+        await expect(failing).rejects.toBe(quotaError);
+        await Promise.all(waiting.map(promise => expect(promise).rejects.toBe(quotaError)));
+        expect(laterRuns).not.toHaveBeenCalled();
+        expect(queue.getJobs()).toEqual([]);
+    });
+});
@@ -0,0 +1,217 @@
+// --- AI request queue ---
+// Every AI request runs as a job in one shared queue, so features started at the same time take turns instead of
+// each hammering the API on its own. The queue caps how many requests run at once and how many start per minute,
+// retries failed jobs with exponential backoff (jittered after a rate limit, so retries don't arrive together), and
+// drops a job as soon as its AbortSignal fires, whether it is waiting or already running. Listeners get the list of
+// active jobs whenever one changes state, which is what the activity indicator shows.
+
+export type AIErrorKind = 'quotaExhausted' | 'rateLimited' | 'other';
+
+export type AIJobStatus = 'queued' | 'running' | 'waitingToRetry';
+
+export interface AIJobProgress {
+    id: number;
+    label: string;
+    status: AIJobStatus;
+    attempt: number; // 1-based; the attempt running, or the next one while waiting
+    maxAttempts: number;
+    retryAt?: number; // While waiting to retry
+    lastError?: string;
+}
+
+export interface AIJobRequest<T> {
+    label: string;
+    run: (signal: AbortSignal) => Promise<T>;
+    retries?: number; // Defaults to none
+    initialRetryDelayMs?: number; // Doubled on each further retry
+    signal?: AbortSignal;
+}
+
+export interface AIRequestQueueOptions {
+    maxConcurrent: number;
+    requestsPerMinute: number;
+    classifyError: (error: unknown) => AIErrorKind;
+}
+
+export interface AIRequestQueue {
+    // Settles with the job's result, or rejects with its last error (AIJobAbortedError if it was cancelled)
+    enqueue: <T>(request: AIJobRequest<T>) => Promise<T>;
+    getJobs: () => AIJobProgress[]; // The same array until something changes, as useSyncExternalStore expects
+    subscribe: (listener: () => void) => () => void;
+}
+
+export class AIJobAbortedError extends Error {
+    constructor(label: string) {
+        super(`AI request cancelled: ${label}`);
+        this.name = 'AIJobAbortedError';
+    }
+}
+
+// Thrown from a job's run() when the model answered but left out something required; it is retried like any failure
+export class AIIncompleteResponseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AIIncompleteResponseError';
+    }
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+const DEFAULT_RETRY_DELAY_MS = 5000;
+
+interface QueuedJob {
+    progress: AIJobProgress;
+    request: AIJobRequest<unknown>;
+    notBefore: number;
+    controller: AbortController; // Aborts the attempt in flight
+    resolve: (value: unknown) => void;
+    reject: (error: unknown) => void;
+    detachAbort: () => void;
+}
+
+const getRetryDelayMs = (initialDelayMs: number, failedAttempt: number, kind: AIErrorKind, random: () => number = Math.random): number => {
+    const delay = initialDelayMs * Math.pow(2, failedAttempt - 1);
+    // Half fixed, half random: still backs off, but jobs rate limited together spread out
+    return kind === 'rateLimited' ? Math.round(delay / 2 + random() * delay) : delay;
+};
+
+export const createAIRequestQueue = ({ maxConcurrent, requestsPerMinute, classifyError }: AIRequestQueueOptions): AIRequestQueue => {
+    let jobs: QueuedJob[] = [];
+    let snapshot: AIJobProgress[] = [];
+    let runningCount = 0;
+    let recentStarts: number[] = [];
+    let nextId = 1;
+    let wakeTimeoutId: ReturnType<typeof setTimeout> | null = null;
+    const listeners = new Set<() => void>();
+
+    const notify = () => {
+        snapshot = jobs.map(job => job.progress);
+        listeners.forEach(listener => listener());
+    };
+
+    const updateProgress = (job: QueuedJob, changes: Partial<AIJobProgress>) => {
+        job.progress = { ...job.progress, ...changes };
+    };
+
+    // Takes the job off the queue; the caller settles its promise
+    const removeJob = (job: QueuedJob) => {
+        if (!jobs.includes(job)) return false;
+        if (job.progress.status === 'running') runningCount--;
+        jobs = jobs.filter(entry => entry !== job);
+        job.detachAbort();
+        return true;
+    };
+
+    const scheduleWake = (at: number) => {
+        if (wakeTimeoutId) clearTimeout(wakeTimeoutId);
+        wakeTimeoutId = setTimeout(() => {
+            wakeTimeoutId = null;
+            pump();
+        }, Math.max(0, at - Date.now()));
+    };
+
+    const pump = () => {
+        const now = Date.now();
+        recentStarts = recentStarts.filter(time => now - time < RATE_WINDOW_MS);
+        while (runningCount < maxConcurrent) {
+            const job = jobs.find(entry => entry.progress.status !== 'running' && entry.notBefore <= now);
+            if (!job) break;
+            if (recentStarts.length >= requestsPerMinute) {
+                scheduleWake(recentStarts[0] + RATE_WINDOW_MS);
+                notify();
+                return;
+            }
+            recentStarts.push(now);
+            startJob(job);
+        }
+        const waiting = jobs.filter(entry => entry.progress.status !== 'running').map(entry => entry.notBefore);
+        if (waiting.length > 0 && runningCount < maxConcurrent) scheduleWake(Math.min(...waiting));
+        notify();
+    };
+
+    const startJob = (job: QueuedJob) => {
+        runningCount++;
+        job.controller = new AbortController();
+        updateProgress(job, { status: 'running', retryAt: undefined });
+        const { controller } = job;
+        // Through the executor so a run() that throws instead of rejecting still goes through failure handling and
+        // gives its slot back
+        new Promise<unknown>(resolve => resolve(job.request.run(controller.signal))).then(
+            value => {
+                if (controller.signal.aborted || !removeJob(job)) return;
+                job.resolve(value);
+                pump();
+            },
+            error => {
+                if (controller.signal.aborted || !jobs.includes(job)) return;
+                handleFailure(job, error);
+                pump();
+            },
+        );
+    };
+
+    const handleFailure = (job: QueuedJob, error: unknown) => {
+        const kind = classifyError(error);
+        const { attempt, maxAttempts } = job.progress;
+        if (kind === 'quotaExhausted') {
+            // Everything still waiting would hit the same wall, so it fails now rather than one by one
+            jobs.filter(entry => entry === job || entry.progress.status !== 'running').forEach(entry => {
+                removeJob(entry);
+                entry.reject(error);
+            });
+            return;
+        }
+        if (attempt >= maxAttempts) {
+            removeJob(job);
+            job.reject(error);
+            return;
+        }
+        runningCount--;
+        const delay = getRetryDelayMs(job.request.initialRetryDelayMs ?? DEFAULT_RETRY_DELAY_MS, attempt, kind);
+        console.warn(`AI request '${job.progress.label}' failed (attempt ${attempt}/${maxAttempts}, ${kind}). Retrying in ${Math.round(delay / 1000)}s.`, error);
+        job.notBefore = Date.now() + delay;
+        updateProgress(job, {
+            status: 'waitingToRetry',
+            attempt: attempt + 1,
+            retryAt: job.notBefore,
+            lastError: error instanceof Error ? error.message : String(error),
+        });
+    };
+
+    const enqueue = <T>(request: AIJobRequest<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+        if (request.signal?.aborted) {
+            reject(new AIJobAbortedError(request.label));
+            return;
+        }
+        const job: QueuedJob = {
+            progress: { id: nextId++, label: request.label, status: 'queued', attempt: 1, maxAttempts: (request.retries ?? 0) + 1 },
+            request: request as AIJobRequest<unknown>,
+            notBefore: 0,
+            controller: new AbortController(),
+            resolve: resolve as (value: unknown) => void,
+            reject,
+            detachAbort: () => {},
+        };
+        if (request.signal) {
+            const signal = request.signal;
+            const handleAbort = () => {
+                job.controller.abort();
+                if (!removeJob(job)) return;
+                reject(new AIJobAbortedError(request.label));
+                pump();
+            };
+            signal.addEventListener('abort', handleAbort);
+            job.detachAbort = () => signal.removeEventListener('abort', handleAbort);
+        }
+        jobs = [...jobs, job];
+        pump();
+    });
+
+    return {
+        enqueue,
+        getJobs: () => snapshot,
+        subscribe: listener => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+    };
+};
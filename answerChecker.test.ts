@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { checkAgainst, checkMeaningAnswer, checkSpellingAnswer, getMeaningTolerance, getSpellingTolerance, normalizeMeaning } from './answerChecker';
+
+describe('normalizeMeaning', () => {
+    it('reduces adnominal and dictionary forms to the same stem', () => {
+        expect(normalizeMeaning('친절한 ')).toBe('친절하');
+        expect(normalizeMeaning('친절하다')).toBe('친절하');
+        expect(normalizeMeaning('자유로운')).toBe(normalizeMeaning('자유롭다'));
+    });
+
+    it('strips particles from every word but the last', () => {
+        expect(normalizeMeaning('책을 읽다')).toBe(normalizeMeaning('책 읽다'));
+        expect(normalizeMeaning('학교에서 공부하다')).toBe(normalizeMeaning('학교 공부하다'));
+        expect(normalizeMeaning('~을 읽다')).toBe(normalizeMeaning('읽다'));
+    });
+
+    it('keeps the particle-like ending of the last word', () => {
+        expect(normalizeMeaning('고양이')).toBe('고양이');
+    });
+
+    it('leaves at least two syllables when removing an ending', () => {
+        expect(normalizeMeaning('가다')).toBe('가다');
+        expect(normalizeMeaning('한')).toBe('한');
+        expect(normalizeMeaning('하다')).toBe('하다');
+        expect(normalizeMeaning('먹다')).not.toBe(normalizeMeaning('먹'));
+    });
+
+    it('ignores notes in parentheses and punctuation', () => {
+        expect(normalizeMeaning('사과(과일)')).toBe('사과');
+        expect(normalizeMeaning('사과.')).toBe('사과');
+    });
+});
+
+describe('getSpellingTolerance', () => {
+    it('allows no typos in strict mode', () => {
+        [4, 5, 8, 12].forEach(length => expect(getSpellingTolerance(length, 'strict')).toBe(0));
+    });
+
+    it('allows one typo from five letters in normal mode', () => {
+        expect(getSpellingTolerance(4, 'normal')).toBe(0);
+        expect(getSpellingTolerance(5, 'normal')).toBe(1);
+        expect(getSpellingTolerance(8, 'normal')).toBe(1);
+    });
+
+    it('allows one typo from four letters and two from eight in lenient mode', () => {
+        expect(getSpellingTolerance(3, 'lenient')).toBe(0);
+        expect(getSpellingTolerance(4, 'lenient')).toBe(1);
+        expect(getSpellingTolerance(5, 'lenient')).toBe(1);
+        expect(getSpellingTolerance(7, 'lenient')).toBe(1);
+        expect(getSpellingTolerance(8, 'lenient')).toBe(2);
+    });
+});
+
+describe('getMeaningTolerance', () => {
+    it('only tolerates a different letter in lenient mode, from four letters', () => {
+        expect(getMeaningTolerance(3, 'lenient')).toBe(0);
+        expect(getMeaningTolerance(4, 'lenient')).toBe(1);
+        expect(getMeaningTolerance(8, 'lenient')).toBe(1);
+        [4, 5, 8].forEach(length => {
+            expect(getMeaningTolerance(length, 'normal')).toBe(0);
+            expect(getMeaningTolerance(length, 'strict')).toBe(0);
+        });
+    });
+});
+
+describe('checkAgainst', () => {
+    const identity = (text: string) => text.trim();
+    const generous = () => 10;
+
+    it('marks an empty answer wrong however tolerant the check is', () => {
+        expect(checkAgainst('', ['apple'], identity, generous)).toEqual({ verdict: 'incorrect', expected: 'apple' });
+        expect(checkAgainst('   ', ['apple'], identity, generous)).toEqual({ verdict: 'incorrect', expected: 'apple' });
+    });
+
+    it('marks any answer wrong when nothing is expected', () => {
+        expect(checkAgainst('apple', [], identity, generous)).toEqual({ verdict: 'incorrect', expected: '' });
+    });
+
+    it('reports the closest expected answer', () => {
+        expect(checkAgainst('aple', ['banana', 'apple'], identity, () => 1)).toEqual({ verdict: 'almost', expected: 'apple' });
+    });
+});
+
+describe('checkSpellingAnswer', () => {
+    it('ignores case, spacing and apostrophe style', () => {
+        expect(checkSpellingAnswer('  Don’t ', "don't").verdict).toBe('correct');
+    });
+
+    it('treats a typo by strictness and word length', () => {
+        expect(checkSpellingAnswer('beautifull', 'beautiful', 'normal').verdict).toBe('almost');
+        expect(checkSpellingAnswer('beautifull', 'beautiful', 'strict').verdict).toBe('incorrect');
+        expect(checkSpellingAnswer('cst', 'cat', 'normal').verdict).toBe('incorrect');
+    });
+});
+
+describe('checkMeaningAnswer', () => {
+    it('accepts any listed meaning after normalization', () => {
+        expect(checkMeaningAnswer('친절한', ['다정하다', '친절하다'])).toEqual({ verdict: 'correct', expected: '친절하다' });
+    });
+
+    it('only ignores spacing in strict mode', () => {
+        expect(checkMeaningAnswer('친절 하다', ['친절하다'], 'strict').verdict).toBe('correct');
+        expect(checkMeaningAnswer('친절한', ['친절하다'], 'strict').verdict).toBe('incorrect');
+    });
+});
@@ -0,0 +1,111 @@
+// --- Typed answer checking ---
+// Typed answers are compared after normalization instead of character by character, so "친절한 " is accepted for
+// "친절하다" and a single typo in a long English word is flagged as "almost" rather than simply wrong. How forgiving
+// the check is comes from the strictness chosen in the settings.
+
+export type AnswerStrictness = 'strict' | 'normal' | 'lenient';
+
+// 'almost' answers are accepted, but the screen shows the exact answer and scores them lower than 'correct'
+export type AnswerVerdict = 'correct' | 'almost' | 'incorrect';
+
+export interface AnswerCheckResult {
+    verdict: AnswerVerdict;
+    expected: string; // The accepted answer closest to what was typed, to show as feedback
+}
+
+export const DEFAULT_ANSWER_STRICTNESS: AnswerStrictness = 'normal';
+
+export const ANSWER_STRICTNESS_OPTIONS: { value: AnswerStrictness; label: string; description: string }[] = [
+    { value: 'strict', label: '엄격', description: '띄어쓰기와 대소문자 외에는 정확히 일치해야 정답' },
+    { value: 'normal', label: '보통', description: '조사·어미 차이는 정답, 긴 영어 단어의 오타 1개는 "거의 정답"' },
+    { value: 'lenient', label: '너그럽게', description: '영어 오타 2개, 한글 뜻의 글자 1개 차이까지 "거의 정답"' },
+];
+
+export const levenshteinDistance = (a: string, b: string): number => {
+    if (a === b) return 0;
+    if (a.length === 0) return b.length;
+    if (b.length === 0) return a.length;
+    let previousRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const currentRow = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+            currentRow[j] = Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + substitutionCost);
+        }
+        previousRow = currentRow;
+    }
+    return previousRow[b.length];
+};
+
+// --- Normalization ---
+const collapseSpaces = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+const normalizeSpelling = (text: string) => collapseSpaces(text.toLowerCase().replace(/[’‘`]/g, "'"));
+
+// Particles dropped from the end of every word but the last, e.g. "책을 읽다" → "책 읽다"
+const KOREAN_PARTICLES = ['으로', '에서', '에게', '을', '를', '이', '가', '은', '는', '에', '의', '로', '와', '과', '도'];
+
+// Dictionary-form and adnominal endings reduced to a shared stem, e.g. "친절한" and "친절하다" both become "친절하".
+// Ordered so longer endings are tried first.
+const KOREAN_ENDINGS: [string, string][] = [
+    ['스러운', '스럽'],
+    ['스럽다', '스럽'],
+    ['로운', '롭'],
+    ['롭다', '롭'],
+    ['적인', '적'],
+    ['하는', '하'],
+    ['한', '하'],
+    ['다', ''],
+];
+
+export const normalizeMeaning = (text: string): string => {
+    const words = collapseSpaces(text.replace(/\([^)]*\)/g, ' ').replace(/[~.,!?·]/g, ' ')).split(' ').filter(Boolean);
+    const stripped = words
+        .map((word, index) => {
+            if (index === words.length - 1) return word;
+            if (KOREAN_PARTICLES.includes(word)) return ''; // A lone particle left over from "~을"
+            const particle = KOREAN_PARTICLES.find(p => word.length > p.length && word.endsWith(p));
+            return particle ? word.slice(0, -particle.length) : word;
+        })
+        .join('');
+    const ending = KOREAN_ENDINGS.find(([suffix]) => stripped.length > suffix.length + 1 && stripped.endsWith(suffix)); // Keep at least two syllables
+    return ending ? stripped.slice(0, -ending[0].length) + ending[1] : stripped;
+};
+
+// Edits tolerated before an answer counts as wrong; short words get none, since one letter changes the word
+export const getSpellingTolerance = (length: number, strictness: AnswerStrictness) => {
+    if (strictness === 'strict') return 0;
+    if (strictness === 'normal') return length >= 5 ? 1 : 0;
+    return length >= 8 ? 2 : length >= 4 ? 1 : 0;
+};
+
+export const getMeaningTolerance = (length: number, strictness: AnswerStrictness) =>
+    strictness === 'lenient' && length >= 4 ? 1 : 0;
+
+export const checkAgainst = (
+    answer: string,
+    expectedAnswers: string[],
+    normalize: (text: string) => string,
+    getTolerance: (length: number) => number,
+): AnswerCheckResult => {
+    const normalizedAnswer = normalize(answer);
+    let closest: { expected: string; distance: number } | null = null;
+    for (const expected of expectedAnswers) {
+        const distance = levenshteinDistance(normalizedAnswer, normalize(expected));
+        if (!closest || distance < closest.distance) closest = { expected, distance };
+    }
+    if (!closest || normalizedAnswer === '') return { verdict: 'incorrect', expected: closest?.expected ?? '' };
+    if (closest.distance === 0) return { verdict: 'correct', expected: closest.expected };
+    const tolerance = getTolerance(normalize(closest.expected).length);
+    return { verdict: closest.distance <= tolerance ? 'almost' : 'incorrect', expected: closest.expected };
+};
+
+// English spellings: case, spacing and apostrophe style never matter; typos are tolerated by strictness
+export const checkSpellingAnswer = (answer: string, term: string, strictness: AnswerStrictness = DEFAULT_ANSWER_STRICTNESS): AnswerCheckResult =>
+    checkAgainst(answer, [term], normalizeSpelling, length => getSpellingTolerance(length, strictness));
+
+// Korean meanings, given as the '/'-separated list stored on the word. Strict mode only ignores spacing.
+export const checkMeaningAnswer = (answer: string, meanings: string[], strictness: AnswerStrictness = DEFAULT_ANSWER_STRICTNESS): AnswerCheckResult => {
+    const normalize = strictness === 'strict' ? (text: string) => collapseSpaces(text).replace(/ /g, '') : normalizeMeaning;
+    return checkAgainst(answer, meanings, normalize, length => getMeaningTolerance(length, strictness));
+};
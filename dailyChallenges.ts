@@ -0,0 +1,203 @@
+import type { AppScreen, UserSettings } from './index.tsx';
+
+// --- Daily challenges ---
+// Every day has the daily-goal challenge plus a few drawn from a rotating pool, and the wrong-answer review challenge
+// whenever there are missed words to review. The draw is seeded by the date, so
+// the list stays the same across reloads and is only stored once something counts towards it. Progress comes from
+// events the screens already report (words learned, quizzes and games finished), and each completed challenge pays
+// its XP once: `rewarded` is saved with the challenge, so a reload or a repeated event can't pay it again.
+
+export type ChallengeEvent =
+    | { type: 'wordLearned'; wordId: string | number }
+    | { type: 'quizCompleted'; correct: number; total: number; answerMode: 'choice' | 'input'; mode: 'all' | 'due' | 'incorrect' }
+    | { type: 'gamePlayed'; game: AppScreen; correct: number; incorrect: number; typedCharacters?: number };
+
+export type ChallengeKind =
+    | 'dailyGoal'
+    | 'completeQuiz'
+    | 'completeQuizzes'
+    | 'perfectQuiz'
+    | 'typedQuizAccuracy'
+    | 'reviewDue'
+    | 'reviewIncorrect'
+    | 'playGame'
+    | 'playDifferentGames';
+
+export interface DailyChallenge {
+    kind: ChallengeKind;
+    target: number;
+    progress: number;
+    seenKeys?: string[]; // For challenges that count distinct things, e.g. different words or games
+    rewarded: boolean;
+}
+
+export interface DailyChallengeState {
+    date: string; // YYYY-MM-DD
+    challenges: DailyChallenge[];
+}
+
+type ChallengeSettings = Pick<UserSettings, 'dailyGoal' | 'dailyChallengeCount'>;
+
+interface ChallengeDefinition {
+    reward: number;
+    describe: (target: number) => string;
+    getTarget?: (settings: ChallengeSettings) => number; // Defaults to 1
+    group?: string; // At most one challenge per group is drawn on the same day
+    // Progress after the event, or null if the event doesn't count towards the challenge
+    advance: (challenge: DailyChallenge, event: ChallengeEvent) => Pick<DailyChallenge, 'progress' | 'seenKeys'> | null;
+}
+
+const countEvents = (counts: (event: ChallengeEvent) => boolean): ChallengeDefinition['advance'] =>
+    (challenge, event) => counts(event) ? { progress: challenge.progress + 1 } : null;
+
+const countDistinct = (getKey: (event: ChallengeEvent) => string | null): ChallengeDefinition['advance'] =>
+    (challenge, event) => {
+        const key = getKey(event);
+        const seenKeys = challenge.seenKeys ?? [];
+        if (key === null || seenKeys.includes(key)) return null;
+        return { progress: seenKeys.length + 1, seenKeys: [...seenKeys, key] };
+    };
+
+const MIN_QUESTIONS_FOR_SCORE_CHALLENGES = 5;
+const TYPED_QUIZ_TARGET_ACCURACY = 0.9;
+
+const isScoredQuiz = (event: ChallengeEvent): event is Extract<ChallengeEvent, { type: 'quizCompleted' }> =>
+    event.type === 'quizCompleted' && event.total >= MIN_QUESTIONS_FOR_SCORE_CHALLENGES;
+
+export const CHALLENGE_DEFINITIONS: Record<ChallengeKind, ChallengeDefinition> = {
+    dailyGoal: {
+        reward: 20,
+        describe: target => `오늘 단어 ${target}개 학습`,
+        getTarget: settings => settings.dailyGoal,
+        advance: countDistinct(event => event.type === 'wordLearned' ? String(event.wordId) : null),
+    },
+    completeQuiz: {
+        reward: 15,
+        describe: () => '퀴즈 1회 완료',
+        group: 'quizCount',
+        advance: countEvents(event => event.type === 'quizCompleted'),
+    },
+    completeQuizzes: {
+        reward: 30,
+        describe: target => `퀴즈 ${target}회 완료`,
+        getTarget: () => 3,
+        group: 'quizCount',
+        advance: countEvents(event => event.type === 'quizCompleted'),
+    },
+    perfectQuiz: {
+        reward: 30,
+        describe: () => `퀴즈 만점 받기 (${MIN_QUESTIONS_FOR_SCORE_CHALLENGES}문제 이상)`,
+        group: 'quizScore',
+        advance: countEvents(event => isScoredQuiz(event) && event.correct === event.total),
+    },
+    typedQuizAccuracy: {
+        reward: 30,
+        describe: () => `주관식 퀴즈 정답률 ${TYPED_QUIZ_TARGET_ACCURACY * 100}% 이상 (${MIN_QUESTIONS_FOR_SCORE_CHALLENGES}문제 이상)`,
+        group: 'quizScore',
+        advance: countEvents(event => isScoredQuiz(event) && event.answerMode === 'input' && event.correct / event.total >= TYPED_QUIZ_TARGET_ACCURACY),
+    },
+    reviewDue: {
+        reward: 15,
+        describe: () => '오늘 복습할 단어 퀴즈 완료',
+        advance: countEvents(event => event.type === 'quizCompleted' && event.mode === 'due'),
+    },
+    reviewIncorrect: {
+        reward: 10,
+        describe: () => '오답 단어 복습하기',
+        advance: countEvents(event => event.type === 'quizCompleted' && event.mode === 'incorrect'),
+    },
+    playGame: {
+        reward: 25,
+        describe: () => '게임 모드 1회 플레이',
+        group: 'games',
+        advance: countEvents(event => event.type === 'gamePlayed'),
+    },
+    playDifferentGames: {
+        reward: 35,
+        describe: target => `서로 다른 게임 ${target}종류 플레이`,
+        getTarget: () => 2,
+        group: 'games',
+        advance: countDistinct(event => event.type === 'gamePlayed' ? event.game : null),
+    },
+};
+
+// Drawn from in date-seeded order; the daily goal is always included on top, and the wrong-answer review is added on
+// days with missed words (see getTodaysChallenges)
+const ROTATING_CHALLENGES: ChallengeKind[] = [
+    'completeQuiz', 'completeQuizzes', 'perfectQuiz', 'typedQuizAccuracy', 'reviewDue', 'playGame', 'playDifferentGames',
+];
+
+// Total challenges per day, daily goal included and wrong-answer review not counted
+export const DAILY_CHALLENGE_COUNT_OPTIONS = [2, 3, 4, 5];
+export const DEFAULT_DAILY_CHALLENGE_COUNT = 4;
+
+// mulberry32 seeded by a string hash of the date, so every device draws the same challenges on the same day
+const createSeededRandom = (seedText: string) => {
+    let seed = 0;
+    for (let i = 0; i < seedText.length; i++) seed = (Math.imul(31, seed) + seedText.charCodeAt(i)) | 0;
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const createChallenge = (kind: ChallengeKind, settings: ChallengeSettings): DailyChallenge => ({
+    kind,
+    target: Math.max(1, CHALLENGE_DEFINITIONS[kind].getTarget?.(settings) ?? 1),
+    progress: 0,
+    rewarded: false,
+});
+
+export const createDailyChallenges = (date: string, settings: ChallengeSettings): DailyChallengeState => {
+    const random = createSeededRandom(date);
+    const pool = [...ROTATING_CHALLENGES];
+    for (let i = pool.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+
+    const rotatingCount = (settings.dailyChallengeCount ?? DEFAULT_DAILY_CHALLENGE_COUNT) - 1;
+    const usedGroups = new Set<string>();
+    const picked: ChallengeKind[] = [];
+    for (const kind of pool) {
+        if (picked.length >= rotatingCount) break;
+        const { group } = CHALLENGE_DEFINITIONS[kind];
+        if (group && usedGroups.has(group)) continue;
+        if (group) usedGroups.add(group);
+        picked.push(kind);
+    }
+    return { date, challenges: ['dailyGoal' as const, ...picked].map(kind => createChallenge(kind, settings)) };
+};
+
+// Yesterday's saved challenges are replaced by today's draw. `hasIncorrectWords` adds the wrong-answer review challenge
+// if the day doesn't have it yet, so missing a word mid-day still gives the review something to complete
+export const getTodaysChallenges = (state: DailyChallengeState | undefined, today: string, settings: ChallengeSettings, hasIncorrectWords = false): DailyChallengeState => {
+    const todays = state?.date === today && Array.isArray(state.challenges) ? state : createDailyChallenges(today, settings);
+    if (!hasIncorrectWords || todays.challenges.some(challenge => challenge.kind === 'reviewIncorrect')) return todays;
+    return { ...todays, challenges: [...todays.challenges, createChallenge('reviewIncorrect', settings)] };
+};
+
+export const isChallengeComplete = (challenge: DailyChallenge) => challenge.progress >= challenge.target;
+
+// Returns the same state object if the event changed nothing
+export const applyChallengeEvent = (state: DailyChallengeState, event: ChallengeEvent): DailyChallengeState => {
+    let changed = false;
+    const challenges = state.challenges.map(challenge => {
+        if (isChallengeComplete(challenge)) return challenge;
+        const advanced = CHALLENGE_DEFINITIONS[challenge.kind].advance(challenge, event);
+        if (!advanced) return challenge;
+        changed = true;
+        return { ...challenge, ...advanced };
+    });
+    return changed ? { ...state, challenges } : state;
+};
+
+export const getUnrewardedChallenges = (state: DailyChallengeState): DailyChallenge[] =>
+    state.challenges.filter(challenge => isChallengeComplete(challenge) && !challenge.rewarded);
+
+export const markChallengesRewarded = (state: DailyChallengeState, kinds: ChallengeKind[]): DailyChallengeState => ({
+    ...state,
+    challenges: state.challenges.map(challenge => kinds.includes(challenge.kind) && isChallengeComplete(challenge) ? { ...challenge, rewarded: true } : challenge),
+});
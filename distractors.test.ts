@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildConfusionIndex, pickDistractors } from './distractors';
+import type { ReviewLogEntry, Word } from './index.tsx';
+
+const word = (id: number, term: string, meaning: string, extra: Partial<Word> = {}): Word => ({
+    id,
+    term,
+    meaning,
+    partOfSpeech: 'adj.',
+    exampleSentence: '',
+    gradeLevel: 'middle1',
+    ...extra,
+});
+
+const confusion = (wordId: number, confusedWithId: number): ReviewLogEntry => ({
+    wordId,
+    confusedWithId,
+    source: 'quiz',
+    isCorrect: false,
+    responseTimeMs: 1000,
+    timestamp: 0,
+    sessionId: 's1',
+});
+
+const happy = word(1, 'happy', '행복한/기쁜');
+
+describe('pickDistractors', () => {
+    beforeEach(() => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('leaves out words whose meanings overlap the answer', () => {
+        const candidates = [
+            word(2, 'glad', '기쁜'),
+            word(3, 'joyful', '즐거운 / 행복한'),
+            word(4, 'sad', '슬픈'),
+            word(5, 'angry', '화난'),
+        ];
+        expect(pickDistractors(happy, candidates, { answerWith: 'meaning' })).toEqual(['슬픈', '화난']);
+        expect(pickDistractors(happy, candidates, { answerWith: 'term' })).toEqual(['sad', 'angry']);
+    });
+
+    it('leaves out the answer itself and other entries of the same term', () => {
+        const candidates = [happy, word(6, 'Happy', '운이 좋은'), word(4, 'sad', '슬픈')];
+        expect(pickDistractors(happy, candidates, { answerWith: 'term' })).toEqual(['sad']);
+    });
+
+    it('returns fewer options instead of placeholders when too few words qualify', () => {
+        const candidates = [word(4, 'sad', '슬픈'), word(7, 'blank', ''), word(8, 'unhappy', '슬픈')];
+        expect(pickDistractors(happy, candidates, { answerWith: 'meaning', count: 3 })).toEqual(['슬픈']);
+        expect(pickDistractors(happy, [], { answerWith: 'meaning' })).toEqual([]);
+    });
+
+    it('puts past confusions first but caps them at count - 1', () => {
+        const candidates = [
+            word(10, 'sad', '슬픈'),
+            word(11, 'angry', '화난'),
+            word(12, 'tired', '피곤한'),
+            word(13, 'brave', '용감한'),
+            word(14, 'calm', '차분한'),
+        ];
+        const confusions = buildConfusionIndex([confusion(1, 12), confusion(13, 1), confusion(1, 14), confusion(2, 10)]);
+
+        const result = pickDistractors(happy, candidates, { answerWith: 'term', count: 3, confusions });
+
+        expect(result).toHaveLength(3);
+        expect(result.filter(text => ['tired', 'brave', 'calm'].includes(text))).toHaveLength(2);
+        expect(result[2]).toMatch(/^(sad|angry)$/);
+    });
+
+    it('falls back to extra confused words when nothing else is left', () => {
+        const candidates = [word(12, 'tired', '피곤한'), word(13, 'brave', '용감한')];
+        const confusions = buildConfusionIndex([confusion(1, 12), confusion(1, 13)]);
+        const result = pickDistractors(happy, candidates, { answerWith: 'term', count: 2, confusions });
+        expect([...result].sort()).toEqual(['brave', 'tired']);
+    });
+
+    it('prefers words with the same part of speech and unit', () => {
+        const answer = word(1, 'happy', '행복한', { unit: 3 });
+        const candidates = [
+            word(20, 'run', '달리다', { partOfSpeech: 'v.', unit: 1 }),
+            word(21, 'sad', '슬픈', { unit: 1 }),
+            word(22, 'angry', '화난', { unit: 3 }),
+        ];
+        expect(pickDistractors(answer, candidates, { answerWith: 'term', count: 2 })).toEqual(['angry', 'sad']);
+    });
+});
@@ -0,0 +1,108 @@
+import type { Word, ReviewLogEntry } from './index.tsx';
+
+// --- Multiple-choice distractors ---
+// Wrong options are picked so they are plausible but never also correct: words sharing the part of speech and unit
+// of the answer come first, and any word with an overlapping meaning is left out. Words the user has mixed up with
+// the answer before are preferred when an error history is given. If too few words qualify, the question simply
+// gets fewer options rather than made-up ones.
+
+export type ChoiceField = 'meaning' | 'term';
+
+type WordKey = string;
+
+// Word id → ids of words it has been mixed up with (in either direction) → how many times
+export type ConfusionIndex = Map<WordKey, Map<WordKey, number>>;
+
+export interface DistractorOptions {
+    answerWith: ChoiceField;
+    count?: number; // Wrong options wanted; defaults to 3
+    confusions?: ConfusionIndex;
+}
+
+const DEFAULT_DISTRACTOR_COUNT = 3;
+
+const toKey = (id: string | number): WordKey => String(id);
+
+// Fisher-Yates; index.tsx has its own, but this module must not import from the app entry at runtime
+const shuffleArray = <T,>(array: T[]): T[] => {
+    const shuffled = [...array];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+};
+
+const splitMeanings = (word: Word) => word.meaning.split('/').map(m => m.trim()).filter(Boolean);
+
+export const getChoiceText = (word: Word, answerWith: ChoiceField) =>
+    answerWith === 'term' ? word.term.trim() : splitMeanings(word)[0] ?? word.meaning.trim();
+
+const normalizeChoice = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+
+// A word whose meanings overlap the answer's would be a second correct option, whichever way the question is asked
+const isAlsoCorrect = (candidate: Word, correctWord: Word) => {
+    if (normalizeChoice(candidate.term) === normalizeChoice(correctWord.term)) return true;
+    const correctMeanings = new Set(splitMeanings(correctWord).map(normalizeChoice));
+    return splitMeanings(candidate).some(meaning => correctMeanings.has(normalizeChoice(meaning)));
+};
+
+export const buildConfusionIndex = (reviewLog: ReviewLogEntry[]): ConfusionIndex => {
+    const index: ConfusionIndex = new Map();
+    const add = (from: WordKey, to: WordKey) => {
+        const counts = index.get(from) ?? new Map<WordKey, number>();
+        counts.set(to, (counts.get(to) ?? 0) + 1);
+        index.set(from, counts);
+    };
+    reviewLog.forEach(entry => {
+        if (entry.confusedWithId === undefined) return;
+        add(toKey(entry.wordId), toKey(entry.confusedWithId));
+        add(toKey(entry.confusedWithId), toKey(entry.wordId));
+    });
+    return index;
+};
+
+// Returns up to `count` wrong option texts, most plausible first
+export const pickDistractors = (correctWord: Word, candidates: Word[], { answerWith, count = DEFAULT_DISTRACTOR_COUNT, confusions }: DistractorOptions): string[] => {
+    const correctText = normalizeChoice(getChoiceText(correctWord, answerWith));
+    const confusedCounts = confusions?.get(toKey(correctWord.id));
+    const scored = shuffleArray(candidates)
+        .filter(word => toKey(word.id) !== toKey(correctWord.id) && !isAlsoCorrect(word, correctWord))
+        .map(word => ({
+            word,
+            isConfused: (confusedCounts?.get(toKey(word.id)) ?? 0) > 0,
+            score: (word.partOfSpeech === correctWord.partOfSpeech ? 2 : 0)
+                + (word.unit !== undefined && String(word.unit) === String(correctWord.unit) ? 1 : 0),
+        }))
+        .sort((a, b) => b.score - a.score); // Stable, so ties stay in shuffled order
+
+    // Past confusions go first, but leave room for at least one other word so the question doesn't become rote
+    const maxConfused = Math.max(1, count - 1);
+    const ordered = [
+        ...scored.filter(entry => entry.isConfused).slice(0, maxConfused),
+        ...scored.filter(entry => !entry.isConfused),
+        ...scored.filter(entry => entry.isConfused).slice(maxConfused),
+    ];
+
+    const seen = new Set([correctText]);
+    const distractors: string[] = [];
+    for (const { word } of ordered) {
+        const text = getChoiceText(word, answerWith);
+        const key = normalizeChoice(text);
+        if (!text || seen.has(key)) continue;
+        seen.add(key);
+        distractors.push(text);
+        if (distractors.length >= count) break;
+    }
+    return distractors;
+};
+
+// The answer plus its distractors, shuffled
+export const buildChoiceOptions = (correctWord: Word, candidates: Word[], options: DistractorOptions): string[] =>
+    shuffleArray([getChoiceText(correctWord, options.answerWith), ...pickDistractors(correctWord, candidates, options)]);
+
+// The word a chosen wrong option came from, so the mix-up can be logged
+export const findWordForChoice = (choice: string, correctWord: Word, candidates: Word[], answerWith: ChoiceField): Word | undefined => {
+    const key = normalizeChoice(choice);
+    return candidates.find(word => toKey(word.id) !== toKey(correctWord.id) && normalizeChoice(getChoiceText(word, answerWith)) === key);
+};
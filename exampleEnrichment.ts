@@ -0,0 +1,61 @@
+import type { Word } from './index.tsx';
+
+// --- Built-in example enrichment ---
+// Most built-in words come with a placeholder sentence ("This is a kind."). The enrichment job asks the AI for a
+// natural example one word at a time and keeps each answer as a suggestion; nothing changes until the user approves
+// it, and an approved suggestion is saved as an ordinary word override. The job's progress is saved, so it carries
+// on where it stopped after a reload.
+
+export interface EnrichmentSuggestion {
+    wordId: string | number;
+    term: string;
+    previousExampleSentence: string;
+    exampleSentence: string;
+    exampleSentenceMeaning: string;
+    pronunciation: string; // Only applied if the word has none yet
+    createdAt: number;
+}
+
+export interface ExampleEnrichmentJob {
+    isRunning: boolean; // Kept while the app is closed, so the job restarts on the next load
+    processedIds: string[]; // Words with a suggestion made, whether it was approved, rejected or is still pending
+    failedIds: string[]; // Skipped until the job is started again
+    pending: EnrichmentSuggestion[];
+}
+
+export const EMPTY_ENRICHMENT_JOB: ExampleEnrichmentJob = { isRunning: false, processedIds: [], failedIds: [], pending: [] };
+
+export const ENRICHMENT_REQUEST_DELAY_MS = 6000; // Between requests, well under the free tier's per-minute limit
+export const ENRICHMENT_RETRY_DELAY_MS = 60 * 1000; // After a rate limit, or while the quota cooldown is active
+export const MAX_PENDING_SUGGESTIONS = 30; // The job pauses until the user has reviewed some
+
+const toKey = (id: string | number) => String(id);
+
+// Older saves may lack fields added later
+export const getEnrichmentJob = (job: ExampleEnrichmentJob | null | undefined): ExampleEnrichmentJob => ({ ...EMPTY_ENRICHMENT_JOB, ...job });
+
+// Words still waiting for a suggestion, in dataset order
+export const getRemainingEnrichmentWords = (candidates: Word[], job: ExampleEnrichmentJob): Word[] => {
+    const done = new Set([...job.processedIds, ...job.failedIds]);
+    return candidates.filter(word => !done.has(toKey(word.id)));
+};
+
+export const addEnrichmentSuggestion = (job: ExampleEnrichmentJob, suggestion: EnrichmentSuggestion): ExampleEnrichmentJob => ({
+    ...job,
+    processedIds: [...job.processedIds, toKey(suggestion.wordId)],
+    pending: [...job.pending.filter(entry => toKey(entry.wordId) !== toKey(suggestion.wordId)), suggestion],
+});
+
+export const addEnrichmentFailure = (job: ExampleEnrichmentJob, wordId: string | number): ExampleEnrichmentJob => ({
+    ...job,
+    failedIds: [...job.failedIds, toKey(wordId)],
+});
+
+// Approving and rejecting both just take suggestions off the queue; applying an approved one is up to the caller
+export const removeEnrichmentSuggestions = (job: ExampleEnrichmentJob, wordIds: (string | number)[]): ExampleEnrichmentJob => {
+    const keys = new Set(wordIds.map(toKey));
+    return { ...job, pending: job.pending.filter(entry => !keys.has(toKey(entry.wordId))) };
+};
+
+// Starting again retries the words that failed last time
+export const startEnrichmentJob = (job: ExampleEnrichmentJob): ExampleEnrichmentJob => ({ ...job, isRunning: true, failedIds: [] });
@@ -0,0 +1,24 @@
+// --- Generated example sentences ---
+// "다른 예문 보기" asks the AI for another example only when every example already generated for the word has been
+// shown in the current view, so looking at the same card again replays saved examples instead of spending quota.
+// Each word keeps its most recent examples; one of them can be pinned as the word's own example sentence.
+
+export interface GeneratedExample {
+    sentence: string;
+    meaning: string; // Korean translation
+    createdAt: number;
+}
+
+export const MAX_EXAMPLES_PER_WORD = 10;
+
+const normalizeSentence = (sentence: string) => sentence.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const isSameSentence = (a: string, b: string) => normalizeSentence(a) === normalizeSentence(b);
+
+// Newest first; an example already in the history moves to the front instead of being stored twice
+export const addExampleToHistory = (history: GeneratedExample[], example: GeneratedExample): GeneratedExample[] =>
+    [example, ...history.filter(entry => !isSameSentence(entry.sentence, example.sentence))].slice(0, MAX_EXAMPLES_PER_WORD);
+
+// The newest saved example not shown yet, or undefined when a new one has to be generated
+export const pickUnseenExample = (history: GeneratedExample[], seenSentences: string[]): GeneratedExample | undefined =>
+    history.find(entry => !seenSentences.some(seen => isSameSentence(seen, entry.sentence)));
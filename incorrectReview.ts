@@ -0,0 +1,61 @@
+import type { ReviewLogEntry, Word, WordStat } from './index.tsx';
+import type { QuestionCount } from './wordFilters';
+
+// --- Wrong-answer review ---
+// Review sessions are drawn from words with quiz misses. Words missed more often, and more recently, are more likely
+// to be picked, but every missed word keeps some chance. Correct answers given in review mode pay misses back: every
+// CORRECT_ANSWERS_PER_MISS-th correct answer in a row removes one, so a word leaves the list once it has been
+// answered reliably rather than after one lucky guess.
+
+export const CORRECT_ANSWERS_PER_MISS = 2;
+
+const RECENCY_HALF_LIFE_DAYS = 7;
+const MIN_RECENCY_FACTOR = 0.25; // Weight kept by mistakes long ago, or made before the review log existed
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getIncorrectWords = (words: Word[], wordStats: Record<string | number, WordStat>): Word[] =>
+    words.filter(word => (wordStats[word.id]?.quizIncorrectCount ?? 0) > 0);
+
+const getLastMistakeTimes = (reviewLog: ReviewLogEntry[]): Map<string, number> => {
+    const lastMistakes = new Map<string, number>();
+    reviewLog.forEach(entry => {
+        if (entry.isCorrect) return;
+        const key = String(entry.wordId);
+        lastMistakes.set(key, Math.max(lastMistakes.get(key) ?? 0, entry.timestamp));
+    });
+    return lastMistakes;
+};
+
+export const getIncorrectReviewWeight = (incorrectCount: number, lastMistakeAt: number | undefined, now: number): number => {
+    if (incorrectCount <= 0) return 0;
+    if (lastMistakeAt === undefined) return incorrectCount * MIN_RECENCY_FACTOR;
+    const ageDays = Math.max(0, now - lastMistakeAt) / DAY_MS;
+    return incorrectCount * (MIN_RECENCY_FACTOR + (1 - MIN_RECENCY_FACTOR) * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS));
+};
+
+// Weighted sampling without replacement: each word draws random^(1/weight) and the highest draws are asked, so
+// heavier words tend to come first without the order being fixed
+export const pickIncorrectReviewWords = (
+    words: Word[],
+    wordStats: Record<string | number, WordStat>,
+    reviewLog: ReviewLogEntry[],
+    count: QuestionCount,
+    now: number = Date.now(),
+): Word[] => {
+    const lastMistakes = getLastMistakeTimes(reviewLog);
+    const drawn = getIncorrectWords(words, wordStats).map(word => {
+        const weight = getIncorrectReviewWeight(wordStats[word.id].quizIncorrectCount, lastMistakes.get(String(word.id)), now);
+        return { word, key: Math.pow(Math.random(), 1 / weight) };
+    });
+    drawn.sort((a, b) => b.key - a.key);
+    const picked = drawn.map(({ word }) => word);
+    return count === 'all' ? picked : picked.slice(0, count);
+};
+
+// Extra stat changes for a correct answer in review mode; a wrong answer is counted like in any quiz
+export const getIncorrectReviewStatUpdate = (stat: WordStat | undefined, isCorrect: boolean): Partial<WordStat> => {
+    if (!isCorrect || !stat) return {};
+    const streak = (stat.incorrectReviewStreak ?? 0) + 1;
+    if (streak < CORRECT_ANSWERS_PER_MISS) return { incorrectReviewStreak: streak };
+    return { quizIncorrectCount: Math.max(0, stat.quizIncorrectCount - 1), incorrectReviewStreak: 0 };
+};
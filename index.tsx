@@ -1,8 +1,22 @@
 
-import React, { useState, useEffect, useCallback, useRef, useMemo, createContext, useContext, useReducer } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo, createContext, useContext, useReducer, useSyncExternalStore } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, GenerateContentResponse, Chat } from "@google/genai";
-import { sampleWords } from './src/data/sampleWords'; // Corrected path
+import { sampleWords, isTemplateExample } from './src/data/sampleWords'; // Corrected path
+import { loadProfileRegistry, saveProfileRegistry, createProfile, hashPin, isValidPin, verifyProfilePin, getProfileStorage, type Profile, type ProfileRegistry } from './profiles';
+import { QUIZ_TYPES, buildRouteHash, parseRouteHash, type AppRoute, type NavigateArgs, type NavigateFn, type RouteParamsMap, type QuizType } from './router';
+import { checkMeaningAnswer, checkSpellingAnswer, DEFAULT_ANSWER_STRICTNESS, ANSWER_STRICTNESS_OPTIONS, type AnswerStrictness, type AnswerVerdict } from './answerChecker';
+import { buildChoiceOptions, buildConfusionIndex, findWordForChoice } from './distractors';
+import { ACHIEVEMENT_DEFINITIONS, ACHIEVEMENT_IDS, applyAchievementEvent, findNewAchievements, getAchievementState, markAchievementsUnlocked, type AchievementId, type AchievementSnapshot, type AchievementState } from './achievements';
+import { applyChallengeEvent, getTodaysChallenges, getUnrewardedChallenges, isChallengeComplete, markChallengesRewarded, CHALLENGE_DEFINITIONS, DAILY_CHALLENGE_COUNT_OPTIONS, DEFAULT_DAILY_CHALLENGE_COUNT, type ChallengeEvent, type ChallengeKind, type DailyChallengeState } from './dailyChallenges';
+import { CORRECT_ANSWERS_PER_MISS, getIncorrectReviewStatUpdate, getIncorrectWords, pickIncorrectReviewWords } from './incorrectReview';
+import { applyWordFilters, countActiveWordFilters, getPartOfSpeechOptions, getSelectedUnit, getUnitOptions, limitQuestionCount, DEFAULT_WORD_FILTERS, QUESTION_COUNT_OPTIONS, QUESTION_TIME_LIMIT_OPTIONS, type QuestionCount, type WordFilters } from './wordFilters';
+import { loadSessionSnapshot, loadSessionSnapshots, saveSessionSnapshot, clearSessionSnapshot, resolveSessionWords, type ResumableScreen, type SessionSnapshotMap, type SavedSessionEntry } from './sessions';
+import { loadAppData, loadAppDataFromLocalStorage, deleteProfileData, saveCustomWords, saveWordStats, saveUserSettings, saveReviewLog, saveWordOverrides, saveDatasetUpdate, saveWordImage, loadWordImage, loadWordImageIds, loadExampleHistory, saveExampleHistory, loadExampleEnrichmentJob, saveExampleEnrichmentJob, setUpgradeBlockedHandler, loadAICacheValue, saveAICacheEntry, loadAICacheEntries, deleteAICacheEntries, clearAICache, clearAppData, base64ToBlob, type AppDataLoadResult } from './wordRepository';
+import { addExampleToHistory, isSameSentence, pickUnseenExample, type GeneratedExample } from './exampleSentences';
+import { addEnrichmentFailure, addEnrichmentSuggestion, getEnrichmentJob, getRemainingEnrichmentWords, removeEnrichmentSuggestions, startEnrichmentJob, EMPTY_ENRICHMENT_JOB, ENRICHMENT_REQUEST_DELAY_MS, ENRICHMENT_RETRY_DELAY_MS, MAX_PENDING_SUGGESTIONS, type ExampleEnrichmentJob } from './exampleEnrichment';
+import { createAIProvider, AI_PROMPT_VERSIONS, type AIChatSession, type AIExampleSentence } from './aiProviders';
+import { createAIRequestQueue, AIIncompleteResponseError, AIJobAbortedError, type AIJobProgress } from './aiRequestQueue';
+import { buildAICacheKey, createAICacheEntry, formatCacheSize, isAICacheEntryExpired, summarizeAICache, AI_CACHE_FEATURE_LABELS, AI_CACHE_MAX_BYTES, AI_CACHE_TTL_MS, type AICacheEntryInfo, type AICacheFeature, type AICacheKeyParts } from './aiCache';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -94,14 +108,29 @@ const Toast: React.FC<ToastProps> = React.memo(({ message, type, onClose }) => {
 
 
 // --- Global Loading Indicator ---
-const GlobalSpinner: React.FC<{ isLoading: boolean }> = ({ isLoading }) => {
-    if (!isLoading) return null;
+const getAIJobStatusText = ({ status, attempt, maxAttempts }: AIJobProgress): string => {
+    if (status === 'queued') return '대기 중';
+    if (status === 'waitingToRetry') return `재시도 대기 (${attempt}/${maxAttempts})`;
+    return attempt > 1 ? `요청 중 (${attempt}/${maxAttempts})` : '요청 중';
+};
+
+// Spinner with one line per AI request in the shared queue, so concurrent requests don't hide each other
+const AIActivityIndicator: React.FC = () => {
+    const jobs = useAIJobs();
+    if (jobs.length === 0) return null;
     return (
-        <div className="fixed top-4 right-4 z-[200] p-2 bg-slate-200/80 dark:bg-slate-700/80 rounded-full shadow-lg" aria-label="Loading content" role="status">
-            <svg className="animate-spin h-6 w-6 text-cyan-600 dark:text-cyan-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <div className="fixed top-4 right-4 z-[200] flex items-start gap-2 p-2 bg-slate-200/80 dark:bg-slate-700/80 rounded-xl shadow-lg max-w-xs" aria-label="AI 요청 진행 중" role="status">
+            <svg className="animate-spin h-6 w-6 flex-shrink-0 text-cyan-600 dark:text-cyan-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
+            <ul className="text-xs text-slate-700 dark:text-slate-200 space-y-0.5">
+                {jobs.map(job => (
+                    <li key={job.id} className="truncate" title={job.lastError}>
+                        {job.label} · <span className={job.status === 'waitingToRetry' ? 'text-amber-600 dark:text-amber-400' : 'text-slate-500 dark:text-slate-400'}>{getAIJobStatusText(job)}</span>
+                    </li>
+                ))}
+            </ul>
         </div>
     );
 };
@@ -119,15 +148,20 @@ export interface UserSettings {
     xp: number;
     level: number;
     lastQuizDate?: string;
-    lastQuizScore?: number;
     lastLearnedDate?: string;
     lastGameDate?: string; // Added to track game plays
     currentStreak?: number;
     bestStreak?: number;
+    streakFreezes?: number; // Owned freezes, consumed automatically for missed days
+    frozenDates?: string[]; // Days kept in the streak by a freeze, ascending
+    answerStrictness?: AnswerStrictness; // How forgiving typed answers are checked; unset means DEFAULT_ANSWER_STRICTNESS
+    dailyChallenges?: DailyChallengeState; // Stored once something counts towards the day's challenges
+    dailyChallengeCount?: number; // Challenges per day, daily goal included; unset means DEFAULT_DAILY_CHALLENGE_COUNT
+    achievements?: AchievementState; // Unlocked badges and the totals they are counted from, see achievements.ts
 }
 
 
-type AppScreen = 'loginSetup' | 'dashboard' | 'learnWords' | 'quiz' | 'allWords' | 'stats' | 'manageWords' | 'tutorChat' | 'gameSelection' | 'wordMatchGame' | 'typingPracticeGame' | 'speedQuizGame' | 'wordShooterGame' | 'wordBombGame' | 'wordZombieDefense' | 'timedWordLinkGame' | 'gameResult';
+export type AppScreen = 'loginSetup' | 'dashboard' | 'learnWords' | 'quiz' | 'allWords' | 'stats' | 'manageWords' | 'tutorChat' | 'gameSelection' | 'wordMatchGame' | 'typingPracticeGame' | 'speedQuizGame' | 'wordShooterGame' | 'wordBombGame' | 'wordZombieDefense' | 'timedWordLinkGame' | 'gameResult';
 
 export interface Word { 
     id: number | string; 
@@ -142,11 +176,86 @@ export interface Word {
     unit?: string | number; // Optional field for unit/lesson
 }
 
-export interface WordStat { 
+export interface WordStat {
     id: number | string;
     isMastered: boolean;
-    lastReviewed: string | null; 
+    lastReviewed: string | null;
     quizIncorrectCount: number;
+    // Spaced-repetition (SM-2) scheduling state
+    easeFactor: number;
+    interval: number; // days until the next review
+    repetitions: number; // consecutive successful reviews
+    dueDate: string | null; // YYYY-MM-DD, null if the word was never scheduled
+    lapses: number; // times the word was forgotten after being learned
+    quizTypeStats?: Partial<Record<QuizType, QuizTypeStat>>; // Missing for words not quizzed since quiz types were added
+    incorrectReviewStreak?: number; // Correct wrong-answer review answers in a row, see incorrectReview.ts
+}
+
+export interface QuizTypeStat {
+    correct: number;
+    incorrect: number;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// One answer given by the user, appended to the persisted review log
+export interface ReviewLogEntry {
+    wordId: number | string;
+    source: AppScreen; // Screen or game that produced the answer
+    isCorrect: boolean;
+    responseTimeMs: number | null; // null when the screen can't measure it (e.g. drag-to-link)
+    timestamp: number;
+    sessionId: string; // Groups answers from one quiz/game/learning run
+    confusedWithId?: number | string; // Word whose option was picked instead, for wrong multiple-choice answers
+}
+
+export interface ReviewContext {
+    source: AppScreen;
+    sessionId: string;
+    responseTimeMs: number | null;
+    confusedWithId?: number | string;
+}
+
+// Downloadable snapshot of everything the user has created or learned
+export interface LearningDataBackup {
+    format: 'sgw-learning-data';
+    version: number;
+    exportedAt: string; // ISO timestamp
+    userSettings: UserSettings;
+    customWords: Word[];
+    wordStats: Record<string | number, WordStat>;
+    reviewLog: ReviewLogEntry[];
+    wordOverrides: Record<string | number, WordOverride>; // Edits to built-in words (added in version 2)
+}
+
+export type BackupImportMode = 'merge' | 'replace';
+
+// Fields of a built-in word the user may change; stored per word id and applied over the bundled dataset
+export type OverridableWordField = 'meaning' | 'partOfSpeech' | 'pronunciation' | 'exampleSentence' | 'exampleSentenceMeaning' | 'unit';
+export type WordOverride = Partial<Pick<Word, OverridableWordField>>;
+
+export type DatasetWordSnapshot = Pick<Word, 'term' | 'gradeLevel'> & Partial<Pick<Word, OverridableWordField>>;
+
+// Built-in words as the user last saw them, kept so the next session can tell what a dataset update changed
+export interface DatasetSnapshot {
+    hash: string;
+    words: Record<string, DatasetWordSnapshot>;
+}
+
+export interface DatasetWordChange {
+    id: number | string;
+    term: string;
+    fields: { field: keyof DatasetWordSnapshot; before: string; after: string }[];
+    hasOverride: boolean; // The user's own edit still takes precedence over the new value
+}
+
+export interface DatasetChanges {
+    fromHash: string;
+    toHash: string;
+    detectedAt: string; // ISO timestamp
+    added: { id: number | string; term: string }[];
+    removed: { id: number | string; term: string }[];
+    changed: DatasetWordChange[];
 }
 
 // --- Helper Functions ---
@@ -231,60 +340,683 @@ const speak = async (text: string, lang = 'en-US', rate?: number) => {
 };
 
 
-const getTodayDateString = () => new Date().toISOString().split('T')[0];
+// Dates are keyed in the device's local timezone so the day rolls over at local midnight, not 00:00 UTC.
+const formatLocalDateString = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const getTodayDateString = () => formatLocalDateString(new Date());
+
+// --- Spaced Repetition Scheduler (SM-2) ---
+const SRS_DEFAULT_EASE = 2.5;
+const SRS_MIN_EASE = 1.3;
+const SRS_MASTERED_INTERVAL_DAYS = 21; // Words scheduled this far out count as mastered
 
 const getDefaultWordStat = (wordId: string | number): WordStat => ({
     id: wordId,
     isMastered: false,
     lastReviewed: null,
     quizIncorrectCount: 0,
+    easeFactor: SRS_DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    dueDate: null,
+    lapses: 0,
 });
 
+const REVIEW_GRADE_QUALITY: Record<ReviewGrade, number> = {
+    again: 1,
+    hard: 3,
+    good: 4,
+    easy: 5,
+};
+
+const addDaysToDateString = (dateString: string, days: number): string => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+};
+
+const scheduleReview = (stat: WordStat, grade: ReviewGrade, today: string): WordStat => {
+    const quality = REVIEW_GRADE_QUALITY[grade];
+    let { easeFactor, interval, repetitions, lapses } = stat;
+
+    if (quality < 3) {
+        if (repetitions > 0) lapses += 1;
+        repetitions = 0;
+        interval = 1;
+    } else {
+        repetitions += 1;
+        if (repetitions === 1) {
+            interval = 1;
+        } else if (repetitions === 2) {
+            interval = 6;
+        } else {
+            interval = Math.round(interval * easeFactor);
+        }
+        if (grade === 'easy') interval = Math.max(interval, 4);
+    }
+
+    easeFactor = Math.max(SRS_MIN_EASE, easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+    return {
+        ...stat,
+        easeFactor: Math.round(easeFactor * 100) / 100,
+        interval,
+        repetitions,
+        lapses,
+        dueDate: addDaysToDateString(today, interval),
+        isMastered: interval >= SRS_MASTERED_INTERVAL_DAYS,
+    };
+};
+
+const isWordDue = (stat: WordStat | undefined, today: string) => !!stat?.dueDate && stat.dueDate <= today;
+
+// Words whose review date has arrived, most overdue first.
+const getDueWords = (words: Word[], wordStats: Record<string | number, WordStat>, today: string): Word[] => {
+    return words
+        .filter(word => isWordDue(wordStats[word.id], today))
+        .sort((a, b) => (wordStats[a.id].dueDate || '').localeCompare(wordStats[b.id].dueDate || ''));
+};
+
+
+// --- Streak Engine ---
+const STREAK_FREEZE_COST_XP = 50;
+const MAX_STREAK_FREEZES = 2;
+
+const getDaysBetweenDateStrings = (from: string, to: string): number => {
+    const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+    const [toYear, toMonth, toDay] = to.split('-').map(Number);
+    return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / 86400000);
+};
+
+// Last day the streak is covered for, either by activity or by a consumed freeze.
+const getStreakCoveredUntil = (settings: UserSettings): string | undefined => {
+    const lastFrozenDate = settings.frozenDates?.[settings.frozenDates.length - 1];
+    if (!settings.lastLearnedDate) return lastFrozenDate;
+    if (!lastFrozenDate) return settings.lastLearnedDate;
+    return lastFrozenDate > settings.lastLearnedDate ? lastFrozenDate : settings.lastLearnedDate;
+};
+
+// Brings the streak up to date for `today`: missed days are covered by freezes if enough are owned, otherwise the streak resets.
+const settleStreak = (settings: UserSettings, today: string): UserSettings => {
+    const coveredUntil = getStreakCoveredUntil(settings);
+    if (!coveredUntil || !settings.currentStreak) return settings;
+
+    const missedDays = getDaysBetweenDateStrings(coveredUntil, today) - 1;
+    if (missedDays <= 0) return settings;
+
+    const availableFreezes = settings.streakFreezes || 0;
+    if (missedDays <= availableFreezes) {
+        const newlyFrozenDates = Array.from({ length: missedDays }, (_, i) => addDaysToDateString(coveredUntil, i + 1));
+        return {
+            ...settings,
+            streakFreezes: availableFreezes - missedDays,
+            frozenDates: [...(settings.frozenDates || []), ...newlyFrozenDates],
+        };
+    }
+    return { ...settings, currentStreak: 0 };
+};
+
+// Counts `today` as an active day, extending the streak at most once per day.
+const registerStreakActivity = (settings: UserSettings, today: string): UserSettings => {
+    const settled = settleStreak(settings, today);
+    if (settled.lastLearnedDate === today) return settled;
+    const currentStreak = (settled.currentStreak || 0) + 1;
+    return {
+        ...settled,
+        lastLearnedDate: today,
+        currentStreak,
+        bestStreak: Math.max(settled.bestStreak || 0, currentStreak),
+    };
+};
+
+
+// --- Review Log ---
+const REVIEW_LOG_MAX_ENTRIES = 10000; // Oldest entries are dropped beyond this to stay within localStorage quota
+
+const REVIEW_SOURCE_LABELS: Partial<Record<AppScreen, string>> = {
+    learnWords: '단어 학습',
+    quiz: '퀴즈',
+    wordMatchGame: '짝맞추기 게임',
+    typingPracticeGame: '타자 연습 게임',
+    speedQuizGame: '스피드 퀴즈',
+    wordShooterGame: '뜻 사격 게임',
+    wordBombGame: '단어 폭탄 제거',
+    wordZombieDefense: '단어 좀비 디펜스',
+    timedWordLinkGame: '시간 연결 게임',
+};
+
+const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const getDateStringFromTimestamp = (timestamp: number) => formatLocalDateString(new Date(timestamp));
+
+// Number of logged answers per local date, used for the activity heatmap.
+const getActivityCountsByDate = (reviewLog: ReviewLogEntry[]): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    reviewLog.forEach(entry => {
+        const date = getDateStringFromTimestamp(entry.timestamp);
+        counts[date] = (counts[date] || 0) + 1;
+    });
+    return counts;
+};
+
+// Accuracy (0-100) of every quiz run in the log, oldest first.
+const getQuizSessionScores = (reviewLog: ReviewLogEntry[]): { sessionId: string; timestamp: number; accuracy: number; total: number }[] => {
+    const sessions = new Map<string, { timestamp: number; correct: number; total: number }>();
+    reviewLog.forEach(entry => {
+        if (entry.source !== 'quiz') return;
+        const session = sessions.get(entry.sessionId) || { timestamp: entry.timestamp, correct: 0, total: 0 };
+        session.total++;
+        if (entry.isCorrect) session.correct++;
+        sessions.set(entry.sessionId, session);
+    });
+    return Array.from(sessions.entries())
+        .map(([sessionId, session]) => ({ sessionId, timestamp: session.timestamp, accuracy: (session.correct / session.total) * 100, total: session.total }))
+        .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Per-day answer counts and accuracy for the last `days` days, ending today.
+const getDailyAccuracy = (reviewLog: ReviewLogEntry[], days: number, today: string): { date: string; total: number; correct: number; accuracy: number | null }[] => {
+    const buckets = new Map<string, { total: number; correct: number }>();
+    for (let i = days - 1; i >= 0; i--) {
+        buckets.set(addDaysToDateString(today, -i), { total: 0, correct: 0 });
+    }
+    reviewLog.forEach(entry => {
+        const bucket = buckets.get(getDateStringFromTimestamp(entry.timestamp));
+        if (!bucket) return;
+        bucket.total++;
+        if (entry.isCorrect) bucket.correct++;
+    });
+    return Array.from(buckets.entries()).map(([date, bucket]) => ({
+        date,
+        ...bucket,
+        accuracy: bucket.total > 0 ? (bucket.correct / bucket.total) * 100 : null,
+    }));
+};
+
+
+// --- Built-in Word Dataset ---
+const DATASET_SNAPSHOT_FIELDS: (keyof DatasetWordSnapshot)[] = ['term', 'gradeLevel', 'meaning', 'partOfSpeech', 'pronunciation', 'exampleSentence', 'exampleSentenceMeaning', 'unit'];
+
+const DATASET_FIELD_LABELS: Record<keyof DatasetWordSnapshot, string> = {
+    term: '단어',
+    gradeLevel: '학년',
+    meaning: '뜻',
+    partOfSpeech: '품사',
+    pronunciation: '발음',
+    exampleSentence: '예문',
+    exampleSentenceMeaning: '예문 뜻',
+    unit: '단원',
+};
+
+// FNV-1a; only needs to tell datasets apart, not resist tampering
+const hashString = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const copySnapshotField = <K extends keyof DatasetWordSnapshot>(entry: Partial<DatasetWordSnapshot>, word: Word, field: K) => {
+    const value: DatasetWordSnapshot[K] = word[field];
+    if (value !== undefined) entry[field] = value;
+};
+
+const createDatasetSnapshot = (words: Word[]): DatasetSnapshot => {
+    const snapshotWords: Record<string, DatasetWordSnapshot> = {};
+    words.forEach(word => {
+        const entry: Partial<DatasetWordSnapshot> = {};
+        DATASET_SNAPSHOT_FIELDS.forEach(field => copySnapshotField(entry, word, field));
+        snapshotWords[String(word.id)] = entry as DatasetWordSnapshot;
+    });
+    return { hash: hashString(JSON.stringify(snapshotWords)), words: snapshotWords };
+};
+
+const diffDatasetSnapshots = (
+    previous: DatasetSnapshot,
+    next: DatasetSnapshot,
+    wordOverrides: Record<string | number, WordOverride>
+): DatasetChanges => {
+    const added: DatasetChanges['added'] = [];
+    const removed: DatasetChanges['removed'] = [];
+    const changed: DatasetWordChange[] = [];
+
+    Object.entries(next.words).forEach(([id, word]) => {
+        const before = previous.words[id];
+        if (!before) {
+            added.push({ id, term: word.term });
+            return;
+        }
+        const fields = DATASET_SNAPSHOT_FIELDS
+            .filter(field => String(before[field] ?? '') !== String(word[field] ?? ''))
+            .map(field => ({ field, before: String(before[field] ?? ''), after: String(word[field] ?? '') }));
+        if (fields.length > 0) {
+            const override = wordOverrides[id];
+            changed.push({
+                id,
+                term: word.term,
+                fields,
+                hasOverride: !!override && fields.some(({ field }) => field in override),
+            });
+        }
+    });
+    Object.entries(previous.words).forEach(([id, word]) => {
+        if (!next.words[id]) removed.push({ id, term: word.term });
+    });
+
+    return { fromHash: previous.hash, toHash: next.hash, detectedAt: new Date().toISOString(), added, removed, changed };
+};
+
+const OVERRIDABLE_WORD_FIELDS: OverridableWordField[] = ['meaning', 'partOfSpeech', 'pronunciation', 'exampleSentence', 'exampleSentenceMeaning', 'unit'];
+
+// Keeps only the fields that differ from the bundled word, so an edit that restores the original value drops the override
+const createWordOverride = (original: Word, edited: Partial<Word>): WordOverride => {
+    const override: WordOverride = {};
+    OVERRIDABLE_WORD_FIELDS.forEach(field => {
+        const value = edited[field];
+        if (value === undefined) return;
+        if (field === 'unit') {
+            // A cleared unit field keeps the original unit rather than removing it
+            if (String(value).trim() === '' || String(value) === String(original.unit ?? '')) return;
+            override.unit = Number.isNaN(Number(value)) ? String(value).trim() : Number(value);
+            return;
+        }
+        const text = String(value).trim();
+        if (text !== (original[field] ?? '')) override[field] = text;
+    });
+    return override;
+};
+
+// Built-in words are never stored; the user's edits are layered over the bundled dataset at runtime
+const applyWordOverrides = (words: Word[], wordOverrides: Record<string | number, WordOverride>): Word[] =>
+    words.map(word => {
+        const override = wordOverrides[word.id];
+        return override ? { ...word, ...override } : word;
+    });
+
+// --- Learning Data Backup ---
+const BACKUP_FORMAT = 'sgw-learning-data';
+const BACKUP_VERSION = 2;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidWordId = (value: unknown): value is string | number =>
+    typeof value === 'string' || typeof value === 'number';
+
+const createLearningDataBackup = (
+    userSettings: UserSettings,
+    allWords: Word[],
+    wordStats: Record<string | number, WordStat>,
+    reviewLog: ReviewLogEntry[],
+    wordOverrides: Record<string | number, WordOverride>
+): LearningDataBackup => ({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    userSettings,
+    customWords: allWords.filter(w => w.isCustom),
+    wordStats,
+    reviewLog,
+    wordOverrides,
+});
+
+// Checks the shape of an uploaded backup. Returns the normalized backup, or the reasons it was rejected.
+const parseLearningDataBackup = (raw: unknown): { backup: LearningDataBackup | null; errors: string[] } => {
+    const errors: string[] = [];
+    if (!isPlainObject(raw) || raw.format !== BACKUP_FORMAT) {
+        return { backup: null, errors: ["이 앱에서 내보낸 백업 파일이 아닙니다."] };
+    }
+    if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+        return { backup: null, errors: [`지원하지 않는 백업 버전입니다. (버전: ${raw.version})`] };
+    }
+
+    const settings = raw.userSettings;
+    if (!isPlainObject(settings) || typeof settings.username !== 'string' || typeof settings.grade !== 'string'
+        || typeof settings.xp !== 'number' || typeof settings.level !== 'number') {
+        errors.push("사용자 설정 형식이 올바르지 않습니다.");
+    }
+
+    if (!Array.isArray(raw.customWords)) {
+        errors.push("단어 목록 형식이 올바르지 않습니다.");
+    } else {
+        raw.customWords.forEach((word: unknown, index: number) => {
+            if (!isPlainObject(word) || !isValidWordId(word.id) || typeof word.term !== 'string' || !word.term.trim()
+                || typeof word.meaning !== 'string' || typeof word.partOfSpeech !== 'string' || typeof word.exampleSentence !== 'string') {
+                errors.push(`${index + 1}번째 단어의 필수 항목이 누락되었습니다.`);
+            }
+        });
+    }
+
+    if (!isPlainObject(raw.wordStats)) {
+        errors.push("학습 상태 형식이 올바르지 않습니다.");
+    } else {
+        Object.entries(raw.wordStats).forEach(([wordId, stat]) => {
+            if (!isPlainObject(stat) || typeof stat.isMastered !== 'boolean') {
+                errors.push(`단어 ${wordId}의 학습 상태가 올바르지 않습니다.`);
+            }
+        });
+    }
+
+    const reviewLog = raw.reviewLog ?? [];
+    if (!Array.isArray(reviewLog) || reviewLog.some((entry: unknown) =>
+        !isPlainObject(entry) || !isValidWordId(entry.wordId) || typeof entry.timestamp !== 'number' || typeof entry.isCorrect !== 'boolean')) {
+        errors.push("학습 기록 형식이 올바르지 않습니다.");
+    }
+
+    const wordOverrides = raw.wordOverrides ?? {}; // Version 1 backups have no overrides
+    if (!isPlainObject(wordOverrides) || Object.values(wordOverrides).some(override => !isPlainObject(override))) {
+        errors.push("기본 단어 수정 내역 형식이 올바르지 않습니다.");
+    }
+
+    if (errors.length > 0) return { backup: null, errors };
+
+    const wordStats: Record<string | number, WordStat> = {};
+    Object.entries(raw.wordStats as Record<string, Partial<WordStat>>).forEach(([wordId, stat]) => {
+        wordStats[wordId] = { ...getDefaultWordStat(stat.id ?? wordId), ...stat };
+    });
+
+    return {
+        backup: {
+            format: BACKUP_FORMAT,
+            version: raw.version,
+            exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+            userSettings: raw.userSettings as UserSettings,
+            customWords: (raw.customWords as Word[]).map(word => ({ ...word, term: word.term.trim(), isCustom: true })),
+            wordStats,
+            reviewLog: reviewLog as ReviewLogEntry[],
+            wordOverrides: wordOverrides as Record<string | number, WordOverride>,
+        },
+        errors: [],
+    };
+};
+
+export interface BackupWordConflict {
+    backupWord: Word;
+    existingWord: Word;
+}
+
+// How a backup's custom words line up against the current word list
+interface BackupImportPlan {
+    newWords: Word[]; // Not present yet; added on merge
+    identicalWords: Word[]; // Same term and meaning already present; skipped on merge
+    conflicts: BackupWordConflict[]; // Same term with different content; the existing word is kept on merge
+}
+
+const planBackupImport = (backup: LearningDataBackup, allWords: Word[]): BackupImportPlan => {
+    const wordsByTerm = new Map(allWords.map(w => [w.term.toLowerCase(), w]));
+    const plan: BackupImportPlan = { newWords: [], identicalWords: [], conflicts: [] };
+    backup.customWords.forEach(backupWord => {
+        const existingWord = wordsByTerm.get(backupWord.term.toLowerCase());
+        if (!existingWord) {
+            plan.newWords.push(backupWord);
+        } else if (existingWord.meaning === backupWord.meaning && existingWord.partOfSpeech === backupWord.partOfSpeech) {
+            plan.identicalWords.push(backupWord);
+        } else {
+            plan.conflicts.push({ backupWord, existingWord });
+        }
+    });
+    return plan;
+};
 
-// --- API Client Setup (Gemini) ---
-let ai: GoogleGenAI | null = null;
-if (process.env.API_KEY) {
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-} else {
-    console.warn("API_KEY environment variable not set. AI features will be disabled.");
+const getReviewLogEntryKey = (entry: ReviewLogEntry) => `${entry.timestamp}|${entry.wordId}|${entry.sessionId}`;
+
+
+// --- Bulk Word Import ---
+type BulkImportFormat = 'auto' | 'csv' | 'tsv' | 'anki';
+type BulkImportField = 'term' | 'meaning' | 'partOfSpeech' | 'pronunciation' | 'exampleSentence' | 'exampleSentenceMeaning' | 'unit' | 'ignore';
+type BulkImportRowStatus = 'ready' | 'incomplete' | 'duplicate' | 'duplicateInFile' | 'empty';
+
+const BULK_IMPORT_FIELD_LABELS: Record<BulkImportField, string> = {
+    term: '단어',
+    meaning: '뜻',
+    partOfSpeech: '품사',
+    pronunciation: '발음기호',
+    exampleSentence: '예문',
+    exampleSentenceMeaning: '예문 뜻',
+    unit: '단원',
+    ignore: '사용 안 함',
+};
+
+const BULK_IMPORT_DEFAULT_COLUMN_ORDER: BulkImportField[] = ['term', 'meaning', 'partOfSpeech', 'exampleSentence', 'exampleSentenceMeaning', 'pronunciation'];
+
+// Header names we recognise. Each pattern must match the whole cell, so a first word like "password" or "sentence"
+// in a list without a header isn't mistaken for one
+const BULK_IMPORT_HEADER_PATTERNS: [BulkImportField, RegExp][] = [
+    ['exampleSentenceMeaning', /^(예문\s*(뜻|해석)|translation|(example|sentence)\s*(meaning|translation|korean))$/i],
+    ['exampleSentence', /^(example(\s*sentence)?|예문)$/i],
+    ['partOfSpeech', /^(part\s*of\s*speech|pos|품사)$/i],
+    ['pronunciation', /^(pronunciation|phonetics?|ipa|발음(\s*기호)?)$/i],
+    ['unit', /^(unit|lesson|단원)$/i],
+    ['meaning', /^(meaning|korean|definition|back|뜻|의미)$/i],
+    ['term', /^(term|word|english|front|영어|단어|영단어)$/i],
+];
+
+const matchBulkImportHeader = (cell: string, exclude: Set<BulkImportField> = new Set()): BulkImportField | null => {
+    const name = cell.trim().replace(/\s+/g, ' ');
+    return BULK_IMPORT_HEADER_PATTERNS.find(([field, pattern]) => !exclude.has(field) && pattern.test(name))?.[0] ?? null;
+};
+
+// A row is taken as a header only if most of its non-empty cells are header names
+const looksLikeBulkImportHeader = (row: string[] | undefined): boolean => {
+    const cells = (row || []).filter(cell => cell.trim());
+    const matched = cells.filter(cell => matchBulkImportHeader(cell)).length;
+    return matched > 0 && matched * 2 > cells.length;
+};
+
+
+export interface BulkImportRow {
+    lineNumber: number;
+    word: Partial<Word>;
+    status: BulkImportRowStatus;
+    missingFields: BulkImportField[];
 }
 
-// --- Gemini API Quota Management ---
-let isCurrentlyGeminiQuotaExhausted = false;
+// Splits delimited text into rows, honouring double-quoted fields (which may contain delimiters, quotes and newlines).
+const parseDelimitedText = (text: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field.trim() === '') {
+            field = '';
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.map(r => r.map(cell => cell.trim())).filter(r => r.some(cell => cell !== ''));
+};
+
+const stripHtml = (value: string) => value
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .trim();
+
+const ANKI_SEPARATOR_NAMES: Record<string, string> = { tab: '\t', comma: ',', semicolon: ';', pipe: '|', space: ' ' };
+
+// Anki "Notes in Plain Text" exports are tab-separated and may start with #key:value header lines.
+const parseAnkiExport = (text: string): string[][] => {
+    let delimiter = '\t';
+    let isHtml = false;
+    const bodyLines: string[] = [];
+    text.split(/\r?\n/).forEach(line => {
+        const headerMatch = line.match(/^#(\w+):(.*)$/);
+        if (headerMatch) {
+            const [, key, value] = headerMatch;
+            if (key === 'separator') delimiter = ANKI_SEPARATOR_NAMES[value.trim().toLowerCase()] ?? value.trim();
+            if (key === 'html') isHtml = value.trim() === 'true';
+            return;
+        }
+        bodyLines.push(line);
+    });
+    const rows = parseDelimitedText(bodyLines.join('\n'), delimiter);
+    // Older exports don't declare #html, but Anki fields commonly contain markup either way
+    return rows.map(r => r.map(cell => (isHtml || /<[a-z][^>]*>/i.test(cell)) ? stripHtml(cell) : cell));
+};
+
+const detectBulkImportFormat = (text: string): Exclude<BulkImportFormat, 'auto'> => {
+    const firstLine = text.split(/\r?\n/).find(line => line.trim() !== '') || '';
+    if (/^#(separator|html|notetype|deck|columns|tags)/i.test(firstLine)) return 'anki';
+    return firstLine.includes('\t') ? 'tsv' : 'csv';
+};
+
+const parseBulkImportText = (text: string, format: BulkImportFormat): string[][] => {
+    const resolvedFormat = format === 'auto' ? detectBulkImportFormat(text) : format;
+    if (resolvedFormat === 'anki') return parseAnkiExport(text);
+    return parseDelimitedText(text, resolvedFormat === 'tsv' ? '\t' : ',');
+};
+
+const guessBulkImportMapping = (headerRow: string[] | null, columnCount: number): BulkImportField[] => {
+    if (headerRow) {
+        const used = new Set<BulkImportField>();
+        const guessed = headerRow.map(header => {
+            const field = matchBulkImportHeader(header, used);
+            if (!field) return 'ignore';
+            used.add(field);
+            return field;
+        });
+        if (guessed.includes('term')) return guessed;
+    }
+    return Array.from({ length: columnCount }, (_, i) => BULK_IMPORT_DEFAULT_COLUMN_ORDER[i] || 'ignore');
+};
+
+const BULK_IMPORT_REQUIRED_FIELDS: BulkImportField[] = ['term', 'meaning', 'partOfSpeech', 'exampleSentence'];
+
+// Maps parsed rows onto words and flags the ones handleSaveCustomWord would reject.
+// `aiFills` holds AI-generated details by line number; they only fill fields the file left empty.
+const buildBulkImportRows = (
+    dataRows: string[][],
+    mapping: BulkImportField[],
+    existingWords: Word[],
+    firstLineNumber: number,
+    aiFills: Record<number, Partial<Word>> = {}
+): BulkImportRow[] => {
+    const existingTerms = new Set(existingWords.map(w => w.term.toLowerCase()));
+    const termsInFile = new Set<string>();
+
+    return dataRows.map((cells, index) => {
+        const word: Partial<Word> = {};
+        mapping.forEach((field, column) => {
+            const value = cells[column]?.trim();
+            if (field === 'ignore' || !value) return;
+            if (field === 'unit') {
+                const unit = parseInt(value.replace(/\D/g, ''), 10);
+                if (!isNaN(unit)) word.unit = unit;
+            } else {
+                word[field] = value;
+            }
+        });
+        const fill = aiFills[firstLineNumber + index];
+        if (fill) {
+            (['meaning', 'partOfSpeech', 'pronunciation', 'exampleSentence', 'exampleSentenceMeaning'] as const).forEach(field => {
+                if (!word[field] && fill[field]) word[field] = fill[field];
+            });
+        }
+
+        const missingFields = BULK_IMPORT_REQUIRED_FIELDS.filter(field => !word[field as keyof Word]);
+        const termKey = word.term?.toLowerCase();
+        let status: BulkImportRowStatus = 'ready';
+        if (!termKey) {
+            status = 'empty';
+        } else if (existingTerms.has(termKey)) {
+            status = 'duplicate';
+        } else if (termsInFile.has(termKey)) {
+            status = 'duplicateInFile';
+        } else if (missingFields.length > 0) {
+            status = 'incomplete';
+        }
+        if (termKey) termsInFile.add(termKey);
+
+        return { lineNumber: firstLineNumber + index, word, status, missingFields };
+    });
+};
+
+
+// --- API Client Setup ---
+// AI_PROVIDER picks the provider at startup: gemini (the default), openai for an OpenAI-compatible server, or fake to
+// use the app offline
+const aiProvider = createAIProvider({
+    provider: process.env.AI_PROVIDER,
+    geminiApiKey: process.env.API_KEY,
+    openaiBaseUrl: process.env.OPENAI_BASE_URL,
+    openaiApiKey: process.env.OPENAI_API_KEY,
+    openaiModel: process.env.OPENAI_MODEL,
+    openaiImageModel: process.env.OPENAI_IMAGE_MODEL,
+});
+if (!aiProvider) {
+    console.warn("No AI provider configured (set GEMINI_API_KEY or AI_PROVIDER). AI features will be disabled.");
+}
+// Names the provider in quota and rate-limit messages
+const aiProviderLabel = aiProvider?.label ?? 'AI';
+
+// --- AI Quota Management ---
+let isAIQuotaExhausted = false;
 let quotaCooldownTimeoutId: number | null = null;
-const GEMINI_QUOTA_COOLDOWN_MS = 15 * 60 * 1000; // 15 minutes
+const AI_QUOTA_COOLDOWN_MS = 15 * 60 * 1000; // 15 minutes
 
-const setGeminiQuotaExhaustedCooldown = (
+const setAIQuotaExhaustedCooldown = (
     addToastForNotification: (message: string, type: ToastMessage['type']) => void,
     featureName?: string 
 ) => {
-    if (!isCurrentlyGeminiQuotaExhausted) {
-        const cooldownMinutes = GEMINI_QUOTA_COOLDOWN_MS / 60000;
-        console.log(`Gemini API quota exhaustion detected for '${featureName || 'a Gemini API call'}'. Activating ${cooldownMinutes}-minute cooldown.`);
-        isCurrentlyGeminiQuotaExhausted = true;
+    if (!isAIQuotaExhausted) {
+        const cooldownMinutes = AI_QUOTA_COOLDOWN_MS / 60000;
+        console.log(`${aiProviderLabel} quota exhaustion detected for '${featureName || 'an AI call'}'. Activating ${cooldownMinutes}-minute cooldown.`);
+        isAIQuotaExhausted = true;
         
         const baseMessage = featureName
-            ? `Gemini API 사용량 할당량(quota)을 초과하여 '${featureName}' 기능 사용이 중단됩니다.`
-            : `Gemini API 사용량 할당량(quota)을 초과했습니다.`;
+            ? `${aiProviderLabel} 사용량 할당량(quota)을 초과하여 '${featureName}' 기능 사용이 중단됩니다.`
+            : `${aiProviderLabel} 사용량 할당량(quota)을 초과했습니다.`;
         
-        addToastForNotification(`${baseMessage} Google AI Studio 또는 Google Cloud Console에서 할당량 및 결제 세부 정보를 확인해주세요. 추가 API 호출이 ${cooldownMinutes}분 동안 중단됩니다.`, "error");
+        addToastForNotification(`${baseMessage} 제공자의 할당량 및 결제 세부 정보를 확인해주세요. 추가 API 호출이 ${cooldownMinutes}분 동안 중단됩니다.`, "error");
         
         if (quotaCooldownTimeoutId) {
             clearTimeout(quotaCooldownTimeoutId);
         }
         quotaCooldownTimeoutId = window.setTimeout(() => {
-            isCurrentlyGeminiQuotaExhausted = false;
+            isAIQuotaExhausted = false;
             quotaCooldownTimeoutId = null;
-            console.log("Gemini API quota cooldown finished. API calls may resume.");
-            addToastForNotification(`Gemini API 호출 제한 시간이 종료되었습니다. ${featureName ? `'${featureName}' 기능을 ` : ''}다시 시도할 수 있습니다.`, "info");
-        }, GEMINI_QUOTA_COOLDOWN_MS);
+            console.log(`${aiProviderLabel} quota cooldown finished. API calls may resume.`);
+            addToastForNotification(`${aiProviderLabel} 호출 제한 시간이 종료되었습니다. ${featureName ? `'${featureName}' 기능을 ` : ''}다시 시도할 수 있습니다.`, "info");
+        }, AI_QUOTA_COOLDOWN_MS);
     }
 };
 
-const parseGeminiError = (error: any): { detailedErrorMessage: string; statusCode?: number; geminiErrorStatus?: string; isQuotaExhaustedError: boolean; isRateLimitErrorForRetry: boolean; displayErrorMsg: string } => {
+const parseAIError = (error: any): { detailedErrorMessage: string; statusCode?: number; providerErrorStatus?: string; isQuotaExhaustedError: boolean; isRateLimitErrorForRetry: boolean; displayErrorMsg: string } => {
     let detailedErrorMessage = "";
     let statusCode: number | undefined;
-    let geminiErrorStatus: string | undefined;
+    let providerErrorStatus: string | undefined;
     let displayErrorMsg = String(error);
 
     if (error && error.error && typeof error.error.message === 'string') { // Standard Gemini API error object
@@ -294,7 +1026,7 @@ const parseGeminiError = (error: any): { detailedErrorMessage: string; statusCod
             statusCode = error.error.code;
         }
         if (typeof error.error.status === 'string') {
-            geminiErrorStatus = error.error.status.toUpperCase();
+            providerErrorStatus = error.error.status.toUpperCase();
         }
     } else if (error && typeof error.message === 'string') { // General JavaScript Error object
         detailedErrorMessage = error.message.toLowerCase();
@@ -307,424 +1039,327 @@ const parseGeminiError = (error: any): { detailedErrorMessage: string; statusCod
     }
 
     const isQuotaExhaustedError = (
-        (statusCode === 429 && (detailedErrorMessage.includes('quota') || geminiErrorStatus === 'RESOURCE_EXHAUSTED')) ||
+        (statusCode === 429 && (detailedErrorMessage.includes('quota') || providerErrorStatus === 'RESOURCE_EXHAUSTED')) ||
         (!statusCode && detailedErrorMessage.includes('quota') && (detailedErrorMessage.includes('exceeded') || detailedErrorMessage.includes('exhausted'))) ||
-        geminiErrorStatus === 'RESOURCE_EXHAUSTED'
+        providerErrorStatus === 'RESOURCE_EXHAUSTED'
     );
 
     const isRateLimitErrorForRetry = (statusCode === 429 && !isQuotaExhaustedError);
     
-    return { detailedErrorMessage, statusCode, geminiErrorStatus, isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg };
+    return { detailedErrorMessage, statusCode, providerErrorStatus, isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg };
+};
+
+
+// --- AI Request Queue ---
+// All AI requests share one queue (see aiRequestQueue.ts); the limits stay under Gemini's free tier
+const AI_MAX_CONCURRENT_REQUESTS = 2;
+const AI_REQUESTS_PER_MINUTE = 10;
+
+const aiRequestQueue = createAIRequestQueue({
+    maxConcurrent: AI_MAX_CONCURRENT_REQUESTS,
+    requestsPerMinute: AI_REQUESTS_PER_MINUTE,
+    classifyError: error => {
+        const { isQuotaExhaustedError, isRateLimitErrorForRetry } = parseAIError(error);
+        return isQuotaExhaustedError ? 'quotaExhausted' : isRateLimitErrorForRetry ? 'rateLimited' : 'other';
+    },
+});
+
+const useAIJobs = () => useSyncExternalStore(aiRequestQueue.subscribe, aiRequestQueue.getJobs);
+
+// Hands out an AbortSignal that fires when the component unmounts, so requests for a screen the user left are dropped
+const useUnmountSignal = () => {
+    const controllerRef = useRef<AbortController | null>(null);
+    useEffect(() => () => { controllerRef.current?.abort(); }, []);
+    return useCallback(() => {
+        if (!controllerRef.current || controllerRef.current.signal.aborted) controllerRef.current = new AbortController();
+        return controllerRef.current.signal;
+    }, []);
 };
 
+interface AIRequestOptions {
+    signal?: AbortSignal;
+    retries?: number;
+    bypassCache?: boolean; // Ask the AI even if a cached answer exists; the new answer replaces it
+}
 
-const generateWordDetailsWithGemini = async (term: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 7000): Promise<Partial<Word> | null> => {
-    if (!ai) {
+// Cache failures only cost a request, so they are logged and otherwise treated as a miss
+const readAICache = async <T,>(parts: AICacheKeyParts): Promise<T | null> => {
+    try {
+        return (await loadAICacheValue(buildAICacheKey(parts))) as T | null;
+    } catch (error) {
+        console.error("Error reading AI cache:", error);
+        return null;
+    }
+};
+
+const writeAICache = (parts: AICacheKeyParts, value: unknown) => {
+    saveAICacheEntry(createAICacheEntry(parts, value)).catch(error => console.error("Error saving AI cache entry:", error));
+};
+
+// One toast for a request that finally failed; retries are shown by the activity indicator instead. Cancelled
+// requests stay silent
+const reportAIRequestFailure = (error: unknown, featureDescription: string, addToast: (message: string, type: ToastMessage['type']) => void) => {
+    if (error instanceof AIJobAbortedError) return;
+    if (error instanceof AIIncompleteResponseError) {
+        addToast(`AI가 ${featureDescription}에 대한 충분한 정보를 제공하지 못했습니다. (${error.message})`, "error");
+        return;
+    }
+    const { isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg, statusCode, providerErrorStatus } = parseAIError(error);
+    if (isQuotaExhaustedError) {
+        setAIQuotaExhaustedCooldown(addToast, featureDescription);
+        return;
+    }
+    console.error(`Error during ${featureDescription}. Status Code: ${statusCode}, Provider Status: ${providerErrorStatus}. Error: ${displayErrorMsg}`, error);
+    if (isRateLimitErrorForRetry) {
+        addToast(`${aiProviderLabel} 요청 빈도가 너무 높습니다 (${featureDescription}). 잠시 후 다시 시도해주세요.`, "error");
+    } else {
+        addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다: ${displayErrorMsg}`, "error");
+    }
+};
+
+
+const generateWordDetailsWithAI = async (term: string, addToast: (message: string, type: ToastMessage['type']) => void, { signal, retries = 2, bypassCache = false }: AIRequestOptions = {}): Promise<Partial<Word> | null> => {
+    if (!aiProvider) {
         addToast("AI 기능을 사용하려면 API 키가 필요합니다. 환경 변수를 확인해주세요.", "warning");
         return null;
     }
-    if (isCurrentlyGeminiQuotaExhausted) {
-        addToast(`Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${term}'에 대한 정보 가져오기를 건너뜁니다.`, "warning");
+    const cacheKeyParts: AICacheKeyParts = { feature: 'wordDetails', term, model: aiProvider.models.text, promptVersion: AI_PROMPT_VERSIONS.wordDetails };
+    const cached = bypassCache ? null : await readAICache<Partial<Word>>(cacheKeyParts);
+    if (cached) return cached;
+    if (isAIQuotaExhausted) {
+        addToast(`${aiProviderLabel} 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${term}'에 대한 정보 가져오기를 건너뜁니다.`, "warning");
         return null;
     }
 
-    setGlobalLoading(true);
-    const modelName = 'gemini-2.5-flash-preview-04-17';
     const featureDescription = `'${term}' 단어 정보 조회`;
-    const promptText = `Provide details for the English word "${term}". Your response MUST be a JSON object with the following fields: "pronunciation" (phonetic, optional), "partOfSpeech" (e.g., noun, verb, adjective, in Korean e.g., 명사, 동사), "meaning" (Korean meaning), "exampleSentence" (simple English example), "exampleSentenceMeaning" (Korean translation of example). Ensure exampleSentence is appropriate for language learners. If "${term}" seems like a typo or not a common English word, try to correct it if obvious and return details for the corrected term, including the corrected "term" in the JSON. If correction is not obvious or it's not a word, return null for all fields.
-
-Example JSON:
-{
-  "term": "person", 
-  "pronunciation": "/ˈpɜːrsən/",
-  "partOfSpeech": "명사",
-  "meaning": "사람",
-  "exampleSentence": "This is a person.",
-  "exampleSentenceMeaning": "이것은 사람입니다."
-}`;
-
-    let currentDelay = initialDelay;
-
     try {
-        for (let i = 0; i <= retries; i++) {
-            try {
-                console.log(`Gemini request for ${featureDescription}, attempt ${i + 1}/${retries + 1}`);
-                const response: GenerateContentResponse = await ai.models.generateContent({
-                    model: modelName,
-                    contents: promptText,
-                    config: {
-                      responseMimeType: "application/json",
-                      temperature: 0.5, 
-                    }
-                });
-                
-                let jsonStr = response.text.trim();
-                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-                const match = jsonStr.match(fenceRegex);
-                if (match && match[2]) {
-                    jsonStr = match[2].trim();
-                }
-
-                const data = JSON.parse(jsonStr) as Partial<Word>;
-                
+        const details = await aiRequestQueue.enqueue({
+            label: featureDescription,
+            retries,
+            initialRetryDelayMs: 7000,
+            signal,
+            run: async requestSignal => {
+                const data = await aiProvider.generateWordDetails(term, requestSignal);
                 if (!data.partOfSpeech || !data.meaning || !data.exampleSentence) {
-                    console.warn(`Gemini response missing essential fields for ${featureDescription} (attempt ${i + 1}/${retries + 1}):`, data);
-                    if (i < retries) { 
-                        addToast(`AI가 ${featureDescription} 정보를 일부 누락하여 반환했습니다. 재시도 중...(${i+1}/${retries+1})`, "warning");
-                        await new Promise(resolve => setTimeout(resolve, currentDelay));
-                        currentDelay *= 2;
-                        continue; 
-                    } else { 
-                        addToast(`AI가 ${featureDescription}에 대한 충분한 정보를 제공하지 못했습니다. (누락된 필드: 뜻, 품사, 또는 예문) 모든 시도 실패.`, "error");
-                        return { term }; 
-                    }
+                    console.warn(`AI response missing essential fields for ${featureDescription}:`, data);
+                    throw new AIIncompleteResponseError("누락된 필드: 뜻, 품사, 또는 예문");
                 }
                 return data;
-
-            } catch (error: any) {
-                const { isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg, statusCode, geminiErrorStatus } = parseGeminiError(error);
-
-                if (isQuotaExhaustedError) {
-                    console.warn(`Gemini API call for ${featureDescription} failed on attempt ${i + 1}/${retries + 1} due to QUOTA EXHAUSTION (Code: ${statusCode}, Status: ${geminiErrorStatus}). Error: ${displayErrorMsg}. Cooldown will be activated. No further retries for this call.`);
-                    setGeminiQuotaExhaustedCooldown(addToast, featureDescription);
-                    return null; 
-                }
-                
-                console.error(`Error during ${featureDescription} (attempt ${i + 1}/${retries + 1}). Status Code: ${statusCode}, Gemini Status: ${geminiErrorStatus}. Error: ${displayErrorMsg}`, error);
-
-                if (i < retries) { 
-                    if (isRateLimitErrorForRetry) { 
-                        addToast(`Gemini API 요청 빈도가 높아 ${featureDescription} 가져오기에 실패했습니다. ${currentDelay/1000}초 후 재시도합니다...`, "warning");
-                    } else { 
-                        addToast(`${featureDescription} 가져오기 중 오류 발생. ${currentDelay/1000}초 후 재시도합니다... (오류: ${displayErrorMsg})`, "warning");
-                    }
-                    await new Promise(resolve => setTimeout(resolve, currentDelay));
-                    currentDelay *= 2;
-                } else { 
-                    if (isRateLimitErrorForRetry) {
-                         addToast(`Gemini API 요청 빈도가 너무 높습니다 (${featureDescription}). 잠시 후 다시 시도해주세요.`, "error");
-                    } else {
-                        addToast(`${featureDescription} 정보를 AI로부터 가져오는 데 최종 실패했습니다. (오류: ${displayErrorMsg})`, "error");
-                    }
-                    return null; 
-                }
-            }
-        }
-    } finally {
-        setGlobalLoading(false);
+            },
+        });
+        writeAICache(cacheKeyParts, details);
+        return details;
+    } catch (error) {
+        reportAIRequestFailure(error, featureDescription, addToast);
+        // The term alone still lets the caller keep what the user typed
+        return error instanceof AIIncompleteResponseError ? { term } : null;
     }
-    console.warn(`generateWordDetailsWithGemini for ${featureDescription} failed after all retries or due to unexpected flow.`);
-    addToast(`${featureDescription} 정보를 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
-    return null;
 };
 
-interface AIExampleSentence {
-    newExampleSentence: string;
-    newExampleSentenceMeaning: string;
-}
-
-const generateDifferentExampleSentenceWithGemini = async (word: Word, grade: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 7000): Promise<AIExampleSentence | null> => {
-    if (!ai) {
+const generateDifferentExampleSentenceWithAI = async (word: Word, grade: string, seenSentences: string[], addToast: (message: string, type: ToastMessage['type']) => void, { signal, retries = 2 }: AIRequestOptions = {}): Promise<AIExampleSentence | null> => {
+    if (!aiProvider) {
         addToast("AI 기능을 사용하려면 API 키가 필요합니다.", "warning");
         return null;
     }
-     if (isCurrentlyGeminiQuotaExhausted) {
-        addToast(`Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${word.term}'의 새 예문 생성을 건너뜁니다.`, "warning");
+    if (isAIQuotaExhausted) {
+        addToast(`${aiProviderLabel} 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${word.term}'의 새 예문 생성을 건너뜁니다.`, "warning");
         return null;
     }
-    setGlobalLoading(true);
-    const modelName = 'gemini-2.5-flash-preview-04-17';
+
     const featureDescription = `'${word.term}' AI 예문 생성`;
-    const promptText = `You are an English vocabulary tutor for Korean students.
-The user is learning the word: "${word.term}" (Part of speech: ${word.partOfSpeech}, Korean meaning: ${word.meaning}).
-The user's current grade level is: ${grade}.
-The user has already seen this example: "${word.exampleSentence}"
-
-Generate ONE NEW, DIFFERENT, and SIMPLE English example sentence for the word "${word.term}" that is appropriate for a ${grade} Korean student.
-The new example sentence should clearly illustrate the meaning of "${word.term}".
-Your response MUST be a JSON object with the following fields:
-"newExampleSentence": "The new English example sentence.",
-"newExampleSentenceMeaning": "The Korean translation of the new example sentence."
-
-Example JSON response:
-{
-  "newExampleSentence": "She showed great courage when she helped the lost child.",
-  "newExampleSentenceMeaning": "그녀는 길 잃은 아이를 도왔을 때 대단한 용기를 보여주었다."
-}`;
-
-    let currentDelay = initialDelay;
     try {
-        for (let i = 0; i <= retries; i++) {
-            try {
-                console.log(`Gemini request for ${featureDescription}, attempt ${i + 1}/${retries + 1}`);
-                const response: GenerateContentResponse = await ai.models.generateContent({
-                    model: modelName,
-                    contents: promptText,
-                    config: {
-                      responseMimeType: "application/json",
-                      temperature: 0.7, 
-                    }
-                });
-                
-                let jsonStr = response.text.trim();
-                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-                const match = jsonStr.match(fenceRegex);
-                if (match && match[2]) {
-                    jsonStr = match[2].trim();
-                }
-                const data = JSON.parse(jsonStr) as AIExampleSentence;
-
+        return await aiRequestQueue.enqueue({
+            label: featureDescription,
+            retries,
+            initialRetryDelayMs: 7000,
+            signal,
+            run: async requestSignal => {
+                const data = await aiProvider.generateDifferentExample(word, grade, seenSentences, requestSignal);
                 if (!data.newExampleSentence || !data.newExampleSentenceMeaning) {
-                     console.warn(`Gemini response missing newExampleSentence or newExampleSentenceMeaning for ${featureDescription} (attempt ${i + 1}/${retries + 1}):`, data);
-                     if (i < retries) {
-                        addToast(`AI가 ${featureDescription} 정보를 일부 누락하여 반환했습니다. 재시도 중...`, "warning");
-                        await new Promise(resolve => setTimeout(resolve, currentDelay));
-                        currentDelay *= 2;
-                        continue;
-                     } else {
-                        addToast(`AI가 ${featureDescription}에 대한 정보를 충분히 제공하지 못했습니다. 모든 시도 실패.`, "error");
-                        return null;
-                     }
+                    console.warn(`AI response missing newExampleSentence or newExampleSentenceMeaning for ${featureDescription}:`, data);
+                    throw new AIIncompleteResponseError("예문 또는 해석 누락");
                 }
-                return data;
+                return { newExampleSentence: data.newExampleSentence, newExampleSentenceMeaning: data.newExampleSentenceMeaning };
+            },
+        });
+    } catch (error) {
+        reportAIRequestFailure(error, featureDescription, addToast);
+        return null;
+    }
+};
 
-            } catch (error: any) {
-                const { isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg, statusCode, geminiErrorStatus } = parseGeminiError(error);
-                
-                if (isQuotaExhaustedError) {
-                    console.warn(`Gemini API call for ${featureDescription} failed on attempt ${i + 1}/${retries + 1} due to QUOTA EXHAUSTION (Code: ${statusCode}, Status: ${geminiErrorStatus}). Error: ${displayErrorMsg}. Cooldown will be activated. No further retries for this call.`);
-                    setGeminiQuotaExhaustedCooldown(addToast, featureDescription);
-                    return null; 
-                }
+// Used by the background enrichment job, so it makes a single attempt and leaves waiting and retrying to the job
+// instead of showing a toast for every failure
+type EnrichedExampleResult =
+    | { status: 'ok'; exampleSentence: string; exampleSentenceMeaning: string; pronunciation: string }
+    | { status: 'retryLater' } // Rate limited, out of quota or cancelled; the same word should be asked again later
+    | { status: 'failed' };
 
-                console.error(`Error during ${featureDescription} (attempt ${i + 1}/${retries + 1}). Status Code: ${statusCode}, Gemini Status: ${geminiErrorStatus}. Error: ${displayErrorMsg}`, error);
+const generateEnrichedExampleWithAI = async (word: Word, grade: string, addToast: (message: string, type: ToastMessage['type']) => void, signal?: AbortSignal): Promise<EnrichedExampleResult> => {
+    if (!aiProvider || isAIQuotaExhausted) return { status: 'retryLater' };
+    const featureDescription = '기본 단어 예문 다듬기';
 
-                if (i < retries) { 
-                    if (isRateLimitErrorForRetry) { 
-                        addToast(`Gemini API 요청 빈도가 높아 ${featureDescription}에 실패했습니다. ${currentDelay/1000}초 후 재시도합니다...`, "warning");
-                    } else { 
-                        addToast(`${featureDescription} 중 오류 발생. ${currentDelay/1000}초 후 재시도합니다... (오류: ${displayErrorMsg})`, "warning");
-                    }
-                    await new Promise(resolve => setTimeout(resolve, currentDelay)); 
-                    currentDelay *= 2; 
-                } else { 
-                    if (isRateLimitErrorForRetry) {
-                        addToast(`Gemini API 요청 빈도가 너무 높습니다 (${featureDescription}). 잠시 후 다시 시도해주세요.`, "error");
-                    } else {
-                        addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다: ${displayErrorMsg}`, "error");
-                    }
-                    return null;
-                }
-            }
+    try {
+        const data = await aiRequestQueue.enqueue({
+            label: `${featureDescription}: '${word.term}'`,
+            signal,
+            run: requestSignal => aiProvider.generateNaturalExample(word, grade, requestSignal),
+        });
+        if (!data.exampleSentence?.trim() || !data.exampleSentenceMeaning?.trim()) {
+            console.warn(`AI response missing exampleSentence or exampleSentenceMeaning for ${featureDescription}: '${word.term}'`, data);
+            return { status: 'failed' };
         }
-    } finally {
-        setGlobalLoading(false);
+        return {
+            status: 'ok',
+            exampleSentence: data.exampleSentence.trim(),
+            exampleSentenceMeaning: data.exampleSentenceMeaning.trim(),
+            pronunciation: data.pronunciation?.trim() || '',
+        };
+    } catch (error: any) {
+        if (error instanceof AIJobAbortedError) return { status: 'retryLater' };
+        const { isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg, statusCode, providerErrorStatus } = parseAIError(error);
+        if (isQuotaExhaustedError) {
+            setAIQuotaExhaustedCooldown(addToast, featureDescription);
+            return { status: 'retryLater' };
+        }
+        console.error(`Error during ${featureDescription} for '${word.term}'. Status Code: ${statusCode}, Provider Status: ${providerErrorStatus}. Error: ${displayErrorMsg}`, error);
+        return isRateLimitErrorForRetry ? { status: 'retryLater' } : { status: 'failed' };
     }
-    console.warn(`generateDifferentExampleSentenceWithGemini for ${featureDescription} failed after all retries or due to unexpected flow.`);
-    addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
-    return null;
 };
 
 
-const generateSummaryWithGemini = async (textToSummarize: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 5000): Promise<string | null> => {
-    if (!ai) {
+const generateSummaryWithAI = async (textToSummarize: string, addToast: (message: string, type: ToastMessage['type']) => void, { signal, retries = 2 }: AIRequestOptions = {}): Promise<string | null> => {
+    if (!aiProvider) {
         addToast("AI 요약 기능을 사용하려면 API 키가 필요합니다.", "warning");
         return null;
     }
-    if (isCurrentlyGeminiQuotaExhausted) {
-        addToast("Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. 텍스트 요약을 건너뜁니다.", "warning");
+    if (isAIQuotaExhausted) {
+        addToast(`${aiProviderLabel} 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. 텍스트 요약을 건너뜁니다.`, "warning");
         return null;
     }
     if (!textToSummarize.trim()) {
         addToast("요약할 텍스트가 없습니다.", "info");
         return null;
     }
-    setGlobalLoading(true);
-    const modelName = 'gemini-2.5-flash-preview-04-17';
-    const featureDescription = "텍스트 요약";
-    const promptText = `Your response MUST be a JSON object with a "summary" field. Please provide a brief summary of the following text in Korean (around 2-3 sentences), focusing on the main topics or themes. Text: """${textToSummarize.substring(0, 30000)}"""`; 
 
-    let currentDelay = initialDelay;
+    const featureDescription = "텍스트 요약";
     try {
-        for (let i = 0; i <= retries; i++) {
-            try {
-                console.log(`Gemini request for ${featureDescription}, attempt ${i + 1}/${retries + 1}`);
-                const response: GenerateContentResponse = await ai.models.generateContent({
-                    model: modelName,
-                    contents: promptText,
-                    config: {
-                        responseMimeType: "application/json",
-                        temperature: 0.6,
-                    }
-                });
-
-                let jsonStr = response.text.trim();
-                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-                const match = jsonStr.match(fenceRegex);
-                if (match && match[2]) {
-                    jsonStr = match[2].trim();
-                }
-                const data = JSON.parse(jsonStr) as { summary: string };
-
-                if (!data.summary || !data.summary.trim()) {
-                    console.warn(`Gemini response missing summary field for ${featureDescription} (attempt ${i + 1}/${retries + 1}).`, data);
-                    if (i < retries) {
-                        addToast(`AI 요약 생성 중 내용이 누락되었습니다. 재시도 중...`, "warning");
-                        await new Promise(resolve => setTimeout(resolve, currentDelay));
-                        currentDelay *= 2;
-                        continue;
-                    } else {
-                        addToast(`AI가 텍스트 요약을 제공하지 못했습니다. 모든 시도 실패.`, "error");
-                        return null;
-                    }
-                }
-                return data.summary;
-
-            } catch (error: any) {
-                const { isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg, statusCode, geminiErrorStatus } = parseGeminiError(error);
-
-                if (isQuotaExhaustedError) {
-                    console.warn(`Gemini API call for ${featureDescription} failed on attempt ${i + 1}/${retries + 1} due to QUOTA EXHAUSTION (Code: ${statusCode}, Status: ${geminiErrorStatus}). Error: ${displayErrorMsg}. Cooldown will be activated. No further retries for this call.`);
-                    setGeminiQuotaExhaustedCooldown(addToast, featureDescription);
-                    return null; 
-                }
-                
-                console.error(`Error during ${featureDescription} (attempt ${i + 1}/${retries + 1}). Status Code: ${statusCode}, Gemini Status: ${geminiErrorStatus}. Error: ${displayErrorMsg}`, error);
-
-                if (i < retries) {
-                    if (isRateLimitErrorForRetry) {
-                        addToast(`Gemini API 요청 빈도가 높아 ${featureDescription}에 실패했습니다. ${currentDelay / 1000}초 후 재시도합니다...`, "warning");
-                    } else {
-                        addToast(`${featureDescription} 중 오류 발생. ${currentDelay / 1000}초 후 재시도합니다... (오류: ${displayErrorMsg})`, "warning");
-                    }
-                    await new Promise(resolve => setTimeout(resolve, currentDelay));
-                    currentDelay *= 2;
-                } else { 
-                    if (isRateLimitErrorForRetry) {
-                        addToast(`Gemini API 요청 빈도가 너무 높습니다 (${featureDescription}). 잠시 후 다시 시도해주세요.`, "error");
-                    } else {
-                        addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다: ${displayErrorMsg}`, "error");
-                    }
-                    return null;
-                }
-            }
-        }
-    } finally {
-        setGlobalLoading(false);
+        return await aiRequestQueue.enqueue({
+            label: featureDescription,
+            retries,
+            initialRetryDelayMs: 5000,
+            signal,
+            run: async requestSignal => {
+                const summary = await aiProvider.generateSummary(textToSummarize, requestSignal);
+                if (!summary.trim()) throw new AIIncompleteResponseError("요약 내용 누락");
+                return summary;
+            },
+        });
+    } catch (error) {
+        reportAIRequestFailure(error, featureDescription, addToast);
+        return null;
     }
-     console.warn(`generateSummaryWithGemini for ${featureDescription} failed after all retries or due to unexpected flow.`);
-    addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
-    return null;
 };
 
-const generateImageForWordWithGemini = async (wordTerm: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 1, initialDelay = 8000): Promise<string | null> => {
-    if (!ai) {
+// Returns the image as a Blob, ready to store with the word
+const generateImageForWordWithAI = async (wordTerm: string, addToast: (message: string, type: ToastMessage['type']) => void, { signal, retries = 1, bypassCache = false }: AIRequestOptions = {}): Promise<Blob | null> => {
+    if (!aiProvider) {
         addToast("AI 이미지 생성 기능을 사용하려면 API 키가 필요합니다.", "warning");
         return null;
     }
-    if (isCurrentlyGeminiQuotaExhausted) {
-        addToast(`Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${wordTerm}'의 이미지 생성을 건너뜁니다.`, "warning");
+    if (!aiProvider.supportsImages || !aiProvider.models.image) {
+        addToast(`현재 AI 제공자(${aiProvider.label})는 이미지 생성을 지원하지 않습니다.`, "warning");
+        return null;
+    }
+    const cacheKeyParts: AICacheKeyParts = { feature: 'image', term: wordTerm, model: aiProvider.models.image, promptVersion: AI_PROMPT_VERSIONS.image };
+    const cached = bypassCache ? null : await readAICache<Blob>(cacheKeyParts);
+    if (cached instanceof Blob) return cached;
+    if (isAIQuotaExhausted) {
+        addToast(`${aiProviderLabel} 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${wordTerm}'의 이미지 생성을 건너뜁니다.`, "warning");
         return null;
     }
-    setGlobalLoading(true);
-    const modelName = 'imagen-3.0-generate-002';
-    const featureDescription = `'${wordTerm}' AI 이미지 생성`;
-    const prompt = `A clear, simple, educational, dictionary illustration style image representing the English word: "${wordTerm}". Focus on a single, easily recognizable subject related to the word's most common meaning. Vibrant and kid-friendly.`;
 
-    let currentDelay = initialDelay;
+    const featureDescription = `'${wordTerm}' AI 이미지 생성`;
     try {
-        for (let i = 0; i <= retries; i++) {
-            try {
-                console.log(`Gemini request for ${featureDescription}, attempt ${i + 1}/${retries + 1}`);
-                const response = await ai.models.generateImages({
-                    model: modelName,
-                    prompt: prompt,
-                    config: { numberOfImages: 1, outputMimeType: 'image/jpeg' }, 
-                });
-
-                if (response.generatedImages && response.generatedImages.length > 0 && response.generatedImages[0].image?.imageBytes) {
-                    addToast(`${featureDescription}이(가) 완료되었습니다.`, "success");
-                    return response.generatedImages[0].image.imageBytes;
-                } else {
-                    console.warn(`Gemini image response missing imageBytes for ${featureDescription} (attempt ${i + 1}/${retries + 1}):`, response);
-                    if (i < retries) {
-                        addToast(`AI가 '${wordTerm}' 이미지를 반환했지만 데이터가 누락되었습니다. 재시도 중...`, "warning");
-                        await new Promise(resolve => setTimeout(resolve, currentDelay));
-                        currentDelay *= 2;
-                        continue;
-                    } else {
-                        addToast(`AI가 '${wordTerm}'에 대한 이미지를 제공하지 못했습니다. 모든 시도 실패.`, "error");
-                        return null;
-                    }
-                }
-            } catch (error: any) {
-                const { isQuotaExhaustedError, isRateLimitErrorForRetry, displayErrorMsg, statusCode, geminiErrorStatus } = parseGeminiError(error);
-
-                if (isQuotaExhaustedError) {
-                    console.warn(`Gemini API call for ${featureDescription} failed on attempt ${i + 1}/${retries + 1} due to QUOTA EXHAUSTION (Code: ${statusCode}, Status: ${geminiErrorStatus}). Error: ${displayErrorMsg}. Cooldown will be activated. No further retries for this call.`);
-                    setGeminiQuotaExhaustedCooldown(addToast, featureDescription);
-                    return null; 
-                }
-
-                console.error(`Error during ${featureDescription} (attempt ${i + 1}/${retries + 1}). Status Code: ${statusCode}, Gemini Status: ${geminiErrorStatus}. Error: ${displayErrorMsg}`, error);
-                
-                if (i < retries) {
-                    if (isRateLimitErrorForRetry) {
-                        addToast(`Gemini API 요청 빈도가 높아 ${featureDescription}에 실패했습니다. ${currentDelay / 1000}초 후 재시도합니다...`, "warning");
-                    } else {
-                        addToast(`${featureDescription} 중 오류 발생. ${currentDelay / 1000}초 후 재시도합니다... (오류: ${displayErrorMsg})`, "warning");
-                    }
-                    await new Promise(resolve => setTimeout(resolve, currentDelay));
-                    currentDelay *= 2;
-                } else { 
-                    if (isRateLimitErrorForRetry) {
-                        addToast(`Gemini API 요청 빈도가 너무 높습니다 (${featureDescription}). 잠시 후 다시 시도해주세요.`, "error");
-                    } else {
-                        addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다: ${displayErrorMsg}`, "error");
-                    }
-                    return null;
-                }
-            }
-        }
-    } finally {
-        setGlobalLoading(false);
+        const image = await aiRequestQueue.enqueue({
+            label: featureDescription,
+            retries,
+            initialRetryDelayMs: 8000,
+            signal,
+            run: async requestSignal => {
+                const image = await aiProvider.generateImage(wordTerm, requestSignal);
+                if (!image) throw new AIIncompleteResponseError("이미지 데이터 누락");
+                return image;
+            },
+        });
+        const blob = base64ToBlob(image.base64, image.mimeType);
+        writeAICache(cacheKeyParts, blob);
+        addToast(`${featureDescription}이(가) 완료되었습니다.`, "success");
+        return blob;
+    } catch (error) {
+        reportAIRequestFailure(error, featureDescription, addToast);
+        return null;
     }
-    console.warn(`generateImageForWordWithGemini for ${featureDescription} failed after all retries or due to unexpected flow.`);
-    addToast(`${featureDescription}을 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
-    return null;
 };
 
 
 // --- App Context ---
+// Profile list and actions owned by App, which outlives each profile's AppContent
+interface ProfileControls {
+    profiles: Profile[];
+    activeProfileId: string;
+    onSwitchProfile: (profileId: string) => void;
+    onCreateProfile: () => void;
+    onUpdateProfile: (profileId: string, changes: Partial<Pick<Profile, 'name' | 'pinHash'>>) => void;
+    onDeleteProfile: (profileId: string) => void;
+}
+
 interface AppContextType {
     userSettings: UserSettings;
     handleSaveSettings: (settings: UserSettings) => void;
     handleResetData: () => void;
-    onNavigate: (screen: AppScreen, params?: any) => void;
+    onNavigate: NavigateFn;
     allWords: Word[];
+    wordOverrides: Record<string | number, WordOverride>;
+    datasetChanges: DatasetChanges | null;
     wordStats: Record<string | number, WordStat>;
     handleWordLearned: (wordId: string | number) => void;
-    handleQuizComplete: (score: number, total: number, incorrectWords: Word[]) => void;
+    recordWordReview: (wordId: string | number, grade: ReviewGrade, context: ReviewContext) => void;
+    reviewLog: ReviewLogEntry[];
+    handleBuyStreakFreeze: () => void;
+    handleImportLearningData: (backup: LearningDataBackup, mode: BackupImportMode) => void;
+    handleQuizComplete: (score: number, total: number, details: Pick<Extract<ChallengeEvent, { type: 'quizCompleted' }>, 'answerMode' | 'mode'>) => void;
     updateWordStat: (wordId: string | number, updates: Partial<WordStat>) => void;
     handleDeleteCustomWord: (wordId: string | number, options?: { silent: boolean }) => void;
     handleSaveCustomWord: (word: Partial<Word>, gradeLevel?: string, unit?: number) => Promise<{ success: boolean; reason?: string }>;
+    handleBulkAddCustomWords: (words: Partial<Word>[], gradeLevel: string, unit?: number) => { addedCount: number; rejected: { term: string; reason: string }[] };
+    handleSaveWordOverride: (word: Word) => { success: boolean; reason?: string };
+    handleRevertWordOverride: (wordId: string | number) => void;
+    handleSetExampleSentence: (wordId: string | number, example: Pick<GeneratedExample, 'sentence' | 'meaning'>) => Promise<{ success: boolean; reason?: string }>;
+    exampleEnrichment: {
+        job: ExampleEnrichmentJob;
+        remainingCount: number; // Built-in words with a placeholder example that have no suggestion yet
+        start: () => void;
+        pause: () => void;
+        approve: (wordIds: (string | number)[]) => void;
+        reject: (wordIds: (string | number)[]) => void;
+    };
     memoizedStats: {
         learnedWordsToday: number;
         totalWordsLearned: number;
-        learningStreak: { currentStreak: number; bestStreak: number };
+        learningStreak: { currentStreak: number; bestStreak: number; streakFreezes: number };
         averageQuizScore: number;
-        quizTakenToday: boolean;
-        gamePlayedToday: boolean;
         hasIncorrectWordsToReview: boolean;
+        dueTodayCount: number;
     };
-    setGlobalLoading: (loading: boolean) => void;
     addXp: (amount: number) => void;
-    handleGameComplete: (score: number, correct: number, incorrect: number, timeTaken: number) => void;
+    handleGameComplete: (score: number, correct: number, incorrect: number, timeTaken: number, game: AppScreen, details?: { typedCharacters?: number }) => void;
     isSettingsModalOpen: boolean;
     handleOpenSettings: () => void;
     handleCloseSettings: () => void;
     appScreen: AppScreen;
-    routeParams: any;
+    routeParams: AppRoute['params'];
+    profileControls: ProfileControls;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -737,6 +1372,107 @@ const useAppContext = () => {
     return context;
 };
 
+// Tracks session id and question timing for a screen so each answer lands in the review log
+const useReviewRecorder = (source: AppScreen) => {
+    const { recordWordReview } = useAppContext();
+    const sessionIdRef = useRef(createSessionId());
+    const questionShownAtRef = useRef<number | null>(null);
+
+    // Response times stay null until the screen calls markQuestionShown
+    const startSession = useCallback(() => {
+        sessionIdRef.current = createSessionId();
+        questionShownAtRef.current = null;
+    }, []);
+
+    const markQuestionShown = useCallback(() => {
+        questionShownAtRef.current = Date.now();
+    }, []);
+
+    // `confusedWithId` is the word behind a wrong option that was picked, when the screen can tell
+    const recordAnswer = useCallback((wordId: string | number, grade: ReviewGrade, confusedWithId?: string | number) => {
+        const responseTimeMs = questionShownAtRef.current !== null ? Date.now() - questionShownAtRef.current : null;
+        recordWordReview(wordId, grade, { source, sessionId: sessionIdRef.current, responseTimeMs, confusedWithId });
+    }, [recordWordReview, source]);
+
+    return { startSession, markQuestionShown, recordAnswer };
+};
+
+// The active profile's snapshot of an unfinished session on `screen` (see sessions.ts). `savedSession` follows
+// every save, so a screen can offer to resume after returning to its setup view.
+const useSavedSession = <S extends ResumableScreen>(screen: S) => {
+    const { profileControls } = useAppContext();
+    const storage = useMemo(() => getProfileStorage(profileControls.activeProfileId), [profileControls.activeProfileId]);
+    const [savedSession, setSavedSession] = useState(() => loadSessionSnapshot(screen, storage));
+
+    const saveSession = useCallback((snapshot: SessionSnapshotMap[S]) => {
+        setSavedSession(saveSessionSnapshot(screen, snapshot, storage));
+    }, [screen, storage]);
+
+    const clearSession = useCallback(() => {
+        clearSessionSnapshot(screen, storage);
+        setSavedSession(null);
+    }, [screen, storage]);
+
+    return { savedSession, saveSession, clearSession };
+};
+
+// Bumped whenever a word's stored image is replaced, so every image shown from storage reloads
+let wordImageRevision = 0;
+const wordImageListeners = new Set<() => void>();
+
+const notifyWordImagesChanged = () => {
+    wordImageRevision++;
+    wordImageListeners.forEach(listener => listener());
+};
+
+const subscribeWordImages = (listener: () => void) => {
+    wordImageListeners.add(listener);
+    return () => { wordImageListeners.delete(listener); };
+};
+
+const useWordImageRevision = () => useSyncExternalStore(subscribeWordImages, () => wordImageRevision);
+
+// Object URL of the image stored for the word, or null. Lists pass `enabled` so words without one skip the lookup
+const useWordImageUrl = (wordId: string | number | undefined, enabled = true): string | null => {
+    const revision = useWordImageRevision();
+    const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        setImageUrl(null);
+        if (wordId === undefined || !enabled) return;
+        let objectUrl: string | null = null;
+        let isCancelled = false;
+        loadWordImage(wordId)
+            .then(blob => {
+                if (!blob || isCancelled) return;
+                objectUrl = URL.createObjectURL(blob);
+                setImageUrl(objectUrl);
+            })
+            .catch(error => console.error("Error loading stored word image:", error));
+        return () => {
+            isCancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [wordId, enabled, revision]);
+
+    return imageUrl;
+};
+
+const useWordImageIds = (): Set<string> => {
+    const revision = useWordImageRevision();
+    const [imageIds, setImageIds] = useState<Set<string>>(() => new Set());
+
+    useEffect(() => {
+        let isCancelled = false;
+        loadWordImageIds()
+            .then(ids => { if (!isCancelled) setImageIds(new Set(ids.map(String))); })
+            .catch(error => console.error("Error loading word image ids:", error));
+        return () => { isCancelled = true; };
+    }, [revision]);
+
+    return imageIds;
+};
+
 
 // --- UI Components ---
 
@@ -773,14 +1509,89 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = React.memo(({ isOpen
 });
 
 
+// AI cache panel (inside the settings form, hence type="button" throughout)
+const AICachePanel: React.FC = () => {
+    const { addToast } = useToasts();
+    const [entries, setEntries] = useState<AICacheEntryInfo[] | null>(null);
+
+    const refresh = useCallback(() => {
+        loadAICacheEntries()
+            .then(loaded => setEntries(loaded.filter(entry => !isAICacheEntryExpired(entry)).sort((a, b) => b.lastUsedAt - a.lastUsedAt)))
+            .catch(error => {
+                console.error("Error loading AI cache:", error);
+                setEntries([]);
+            });
+    }, []);
+
+    useEffect(() => { refresh(); }, [refresh]);
+
+    const handleDelete = async (key: string) => {
+        try {
+            await deleteAICacheEntries([key]);
+        } catch (error) {
+            console.error("Error deleting AI cache entry:", error);
+            addToast("캐시 항목을 삭제하지 못했습니다.", "error");
+        }
+        refresh();
+    };
+
+    const handleClear = async () => {
+        try {
+            await clearAICache();
+            addToast("AI 캐시를 비웠습니다.", "success");
+        } catch (error) {
+            console.error("Error clearing AI cache:", error);
+            addToast("AI 캐시를 비우지 못했습니다.", "error");
+        }
+        refresh();
+    };
+
+    if (!entries) return <p className="text-xs text-slate-500 dark:text-slate-400">AI 캐시를 불러오는 중...</p>;
+
+    const summary = summarizeAICache(entries);
+    const features = Object.keys(AI_CACHE_FEATURE_LABELS) as AICacheFeature[];
+    const getDaysLeft = (entry: AICacheEntryInfo) => Math.max(0, Math.ceil((entry.createdAt + AI_CACHE_TTL_MS[entry.feature] - Date.now()) / (24 * 60 * 60 * 1000)));
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">AI 캐시</span>
+                <button type="button" onClick={handleClear} disabled={summary.count === 0} className="px-3 py-1 bg-slate-400 hover:bg-slate-500 rounded text-white text-xs disabled:opacity-50">캐시 비우기</button>
+            </div>
+            <p className="text-xs text-slate-600 dark:text-slate-300">
+                {summary.count}개 항목, {formatCacheSize(summary.size)} / {formatCacheSize(AI_CACHE_MAX_BYTES)}
+                {' ('}{features.map(feature => `${AI_CACHE_FEATURE_LABELS[feature]} ${summary.byFeature[feature].count}개`).join(', ')}{')'}
+            </p>
+            {entries.length > 0 && (
+                <details className="mt-2">
+                    <summary className="text-xs text-cyan-600 dark:text-cyan-400 cursor-pointer">항목 보기</summary>
+                    <ul className="mt-2 max-h-48 overflow-y-auto custom-scrollbar space-y-1">
+                        {entries.map(entry => (
+                            <li key={entry.key} className="flex items-center justify-between text-xs text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 rounded px-2 py-1">
+                                <span className="truncate">
+                                    <span className="font-semibold">{entry.term}</span> · {AI_CACHE_FEATURE_LABELS[entry.feature]} · {entry.model} · {getDaysLeft(entry)}일 남음 · {formatCacheSize(entry.size)}
+                                </span>
+                                <button type="button" onClick={() => handleDelete(entry.key)} className="ml-2 text-red-500 hover:text-red-600 flex-shrink-0" aria-label={`${entry.term} 캐시 삭제`}>✕</button>
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">같은 단어를 다시 요청하면 저장된 AI 결과를 사용합니다. 캐시는 모든 프로필이 함께 쓰며, 비워도 단어에 저장된 이미지는 그대로 남습니다.</p>
+        </div>
+    );
+};
+
 // Edit Settings Modal
 interface EditSettingsModalProps {
     isOpen: boolean;
     onCancel: () => void;
 }
 const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen, onCancel }) => {
-    const { userSettings, handleSaveSettings, handleResetData } = useAppContext();
+    const { userSettings, handleSaveSettings, handleResetData, profileControls } = useAppContext();
     const { addToast } = useToasts();
+    const { profiles, activeProfileId, onUpdateProfile, onDeleteProfile } = profileControls;
+    const activeProfile = profiles.find(p => p.id === activeProfileId);
     
     const [username, setUsername] = useState(userSettings.username);
     const [grade, setGrade] = useState(userSettings.grade);
@@ -788,16 +1599,23 @@ const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen
     const [theme, setTheme] = useState(userSettings.theme);
     const [speechRate, setSpeechRate] = useState(userSettings.speechRate);
     const [autoPlayAudio, setAutoPlayAudio] = useState(userSettings.autoPlayAudio);
+    const [answerStrictness, setAnswerStrictness] = useState(userSettings.answerStrictness ?? DEFAULT_ANSWER_STRICTNESS);
+    const [dailyChallengeCount, setDailyChallengeCount] = useState(userSettings.dailyChallengeCount ?? DEFAULT_DAILY_CHALLENGE_COUNT);
     const [showResetConfirmModal, setShowResetConfirmModal] = useState(false);
+    const [newPin, setNewPin] = useState('');
+    const [showDeleteProfileConfirmModal, setShowDeleteProfileConfirmModal] = useState(false);
 
     useEffect(() => {
         if (isOpen) {
+            setNewPin('');
             setUsername(userSettings.username);
             setGrade(userSettings.grade);
             setDailyGoal(userSettings.dailyGoal);
             setTheme(userSettings.theme);
             setSpeechRate(userSettings.speechRate);
             setAutoPlayAudio(userSettings.autoPlayAudio);
+            setAnswerStrictness(userSettings.answerStrictness ?? DEFAULT_ANSWER_STRICTNESS);
+            setDailyChallengeCount(userSettings.dailyChallengeCount ?? DEFAULT_DAILY_CHALLENGE_COUNT);
         }
     }, [userSettings, isOpen]); 
 
@@ -809,7 +1627,7 @@ const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen
             addToast("사용자 이름은 비워둘 수 없습니다.", "warning");
             return;
         }
-        handleSaveSettings({ ...userSettings, username: username.trim(), grade, dailyGoal, theme, speechRate, autoPlayAudio });
+        handleSaveSettings({ ...userSettings, username: username.trim(), grade, dailyGoal, theme, speechRate, autoPlayAudio, answerStrictness, dailyChallengeCount });
         onCancel();
     };
 
@@ -823,6 +1641,27 @@ const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen
         onCancel(); // Close settings modal after reset initiated
     };
 
+    const handleSetPin = async () => {
+        if (!isValidPin(newPin)) {
+            addToast("PIN은 숫자 4자리로 입력해주세요.", "warning");
+            return;
+        }
+        onUpdateProfile(activeProfileId, { pinHash: await hashPin(activeProfileId, newPin) });
+        setNewPin('');
+        addToast("프로필 PIN이 설정되었습니다.", "success");
+    };
+
+    const handleRemovePin = () => {
+        onUpdateProfile(activeProfileId, { pinHash: null });
+        addToast("프로필 PIN을 해제했습니다.", "info");
+    };
+
+    const confirmDeleteProfile = () => {
+        setShowDeleteProfileConfirmModal(false);
+        onCancel();
+        onDeleteProfile(activeProfileId);
+    };
+
     return (
         <>
         <div role="dialog" aria-modal="true" aria-labelledby="edit-settings-modal-title" className="fixed inset-0 bg-slate-900/75 dark:bg-slate-900/80 flex justify-center items-center p-4 z-[60] animate-fadeIn">
@@ -846,6 +1685,13 @@ const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen
                         <label htmlFor="edit-dailyGoal" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">일일 학습 목표 (단어 수)</label>
                         <input type="number" id="edit-dailyGoal" value={dailyGoal} onChange={(e) => setDailyGoal(Math.max(1, parseInt(e.target.value) || 1))} min="1" className="w-full p-3 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-md border border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500" />
                     </div>
+                    <div>
+                        <label htmlFor="edit-dailyChallengeCount" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">하루 도전 과제 수</label>
+                        <select id="edit-dailyChallengeCount" value={dailyChallengeCount} onChange={(e) => setDailyChallengeCount(Number(e.target.value))} className="w-full p-3 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-md border border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500">
+                            {DAILY_CHALLENGE_COUNT_OPTIONS.map(count => <option key={count} value={count}>{count}개</option>)}
+                        </select>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">일일 학습 목표를 포함한 개수이며, 복습할 오답이 있는 날에는 오답 복습 과제가 하나 더 추가됩니다. 오늘 이미 진행한 도전 과제가 있으면 내일부터 적용됩니다.</p>
+                    </div>
 
                      {/* Theme Selection */}
                     <div>
@@ -877,35 +1723,260 @@ const EditSettingsModal: React.FC<EditSettingsModalProps> = React.memo(({ isOpen
                         </div>
                     </div>
 
+                    {/* Answer Strictness */}
+                    <div>
+                        <label htmlFor="edit-answerStrictness" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">입력형 정답 판정 기준</label>
+                        <select id="edit-answerStrictness" value={answerStrictness} onChange={(e) => setAnswerStrictness(e.target.value as AnswerStrictness)} className="w-full p-3 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-md border border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500">
+                            {ANSWER_STRICTNESS_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                        </select>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{ANSWER_STRICTNESS_OPTIONS.find(option => option.value === answerStrictness)?.description} (주관식 퀴즈, 타자 연습, 단어 폭탄에 적용)</p>
+                    </div>
+
+                    {/* Profile PIN */}
+                    <div className="border-t border-slate-200 dark:border-slate-700 pt-5">
+                        <label htmlFor="edit-profilePin" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                            프로필 PIN {activeProfile?.pinHash ? <span className="text-green-600 dark:text-green-400">(설정됨 🔒)</span> : <span className="text-slate-500 dark:text-slate-400">(없음)</span>}
+                        </label>
+                        <div className="flex gap-2">
+                            <input type="password" inputMode="numeric" id="edit-profilePin" value={newPin} onChange={(e) => setNewPin(e.target.value.replace(/\D/g, '').slice(0, 4))} placeholder="숫자 4자리" className="flex-grow p-2 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-md border border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500" />
+                            <button type="button" onClick={handleSetPin} className="px-3 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white text-sm whitespace-nowrap">{activeProfile?.pinHash ? 'PIN 변경' : 'PIN 설정'}</button>
+                            {activeProfile?.pinHash && (
+                                <button type="button" onClick={handleRemovePin} className="px-3 py-2 bg-slate-400 hover:bg-slate-500 rounded text-white text-sm whitespace-nowrap">해제</button>
+                            )}
+                        </div>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">PIN을 설정하면 다른 프로필에서 이 프로필로 전환할 때 PIN을 물어봅니다.</p>
+                    </div>
+
+                    {/* AI Provider and Cache */}
+                    <div className="border-t border-slate-200 dark:border-slate-700 pt-5 space-y-3">
+                        <p className="text-sm text-slate-700 dark:text-slate-300">
+                            AI 제공자: <span className="font-semibold">{aiProvider ? `${aiProvider.label} (${aiProvider.models.text})` : '없음 (AI 기능 꺼짐)'}</span>
+                        </p>
+                        {aiProvider && <AICachePanel />}
+                    </div>
+
                     <div className="border-t border-slate-200 dark:border-slate-700 pt-5 space-y-3">
-                         <button 
-                            type="button" 
+                         <button
+                            type="button"
                             onClick={handleResetClick}
                             className="w-full px-4 py-2 bg-red-500 hover:bg-red-600 dark:bg-red-600 dark:hover:bg-red-700 rounded text-white text-sm"
                         >
-                            학습 데이터 초기화
+                            이 프로필의 학습 데이터 초기화
+                        </button>
+                        {profiles.length > 1 && (
+                            <button
+                                type="button"
+                                onClick={() => setShowDeleteProfileConfirmModal(true)}
+                                className="w-full px-4 py-2 bg-red-700 hover:bg-red-800 dark:bg-red-800 dark:hover:bg-red-900 rounded text-white text-sm"
+                            >
+                                이 프로필 삭제
+                            </button>
+                        )}
+                        <div className="flex justify-end space-x-3">
+                            <button type="button" onClick={onCancel} className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 rounded text-slate-700 dark:text-white">취소</button>
+                            <button type="submit" className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white">저장</button>
+                        </div>
+                    </div>
+                </form>
+            </div>
+        </div>
+        <ConfirmationModal
+                isOpen={showResetConfirmModal}
+                title="데이터 초기화 확인"
+                message={`'${userSettings.username}' 프로필의 모든 학습 데이터와 설정을 초기화하시겠습니까? 다른 프로필은 영향을 받지 않습니다. 이 작업은 되돌릴 수 없습니다.`}
+                onConfirm={confirmResetData}
+                onCancel={() => setShowResetConfirmModal(false)}
+                confirmText="초기화"
+                confirmButtonClass="bg-red-600 hover:bg-red-700 dark:bg-red-700 dark:hover:bg-red-800"
+            />
+        <ConfirmationModal
+                isOpen={showDeleteProfileConfirmModal}
+                title="프로필 삭제 확인"
+                message={`'${userSettings.username}' 프로필과 이 프로필의 모든 학습 데이터를 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.`}
+                onConfirm={confirmDeleteProfile}
+                onCancel={() => setShowDeleteProfileConfirmModal(false)}
+                confirmText="삭제"
+            />
+        </>
+    );
+});
+
+
+const getProfileDisplayName = (profile: Profile) => profile.name || '새 프로필';
+
+// Profile PIN Modal: asked before switching into a profile that has a PIN, and before opening one at startup
+interface ProfilePinModalProps {
+    profile: Profile | null;
+    onVerified: (profile: Profile) => void;
+    onCancel: () => void;
+}
+const ProfilePinModal: React.FC<ProfilePinModalProps> = ({ profile, onVerified, onCancel }) => {
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+
+    useEffect(() => {
+        setPin('');
+        setError(null);
+    }, [profile]);
+
+    if (!profile) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsChecking(true);
+        const isCorrect = await verifyProfilePin(profile, pin);
+        setIsChecking(false);
+        if (isCorrect) {
+            onVerified(profile);
+        } else {
+            setError("PIN이 올바르지 않습니다.");
+            setPin('');
+        }
+    };
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="profile-pin-modal-title" className="fixed inset-0 bg-slate-900/75 dark:bg-slate-900/80 flex justify-center items-center p-4 z-[60] animate-fadeIn">
+            <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-xs space-y-4">
+                <h3 id="profile-pin-modal-title" className="text-xl font-semibold text-cyan-600 dark:text-cyan-400">🔒 {getProfileDisplayName(profile)}</h3>
+                <input
+                    type="password"
+                    inputMode="numeric"
+                    autoFocus
+                    value={pin}
+                    onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                    placeholder="PIN 4자리"
+                    aria-label="프로필 PIN"
+                    className="w-full p-3 text-center tracking-[0.5em] text-2xl bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-md border border-slate-300 dark:border-slate-600 focus:ring-2 focus:ring-cyan-500"
+                />
+                {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+                <div className="flex justify-end space-x-3">
+                    <button type="button" onClick={onCancel} className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 rounded text-slate-700 dark:text-white">취소</button>
+                    <button type="submit" disabled={pin.length !== 4 || isChecking} className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white disabled:opacity-50">확인</button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+// Profile Switcher, used in the NavBar and on the setup screen (which renders outside AppContext)
+const ProfileSwitcher: React.FC<{ profileControls: ProfileControls }> = ({ profileControls }) => {
+    const { profiles, activeProfileId, onSwitchProfile, onCreateProfile } = profileControls;
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [pinProfile, setPinProfile] = useState<Profile | null>(null);
+    const activeProfile = profiles.find(p => p.id === activeProfileId);
+
+    const handleSelectProfile = (profile: Profile) => {
+        setIsMenuOpen(false);
+        if (profile.id === activeProfileId) return;
+        if (profile.pinHash) {
+            setPinProfile(profile);
+            return;
+        }
+        onSwitchProfile(profile.id);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsMenuOpen(open => !open)}
+                aria-haspopup="menu"
+                aria-expanded={isMenuOpen}
+                title="프로필 전환"
+                className="flex flex-col sm:flex-row items-center justify-center p-1.5 sm:px-2.5 sm:py-1.5 rounded-md text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 hover:text-slate-800 dark:hover:text-white transition-colors"
+            >
+                <span className="text-base sm:text-lg sm:mr-1.5 mb-0.5 sm:mb-0">👤</span>
+                <span className="max-w-[6rem] truncate">{activeProfile ? getProfileDisplayName(activeProfile) : '프로필'}</span>
+            </button>
+            {isMenuOpen && (
+                <ul role="menu" className="absolute right-0 mt-1 w-52 py-1 bg-white dark:bg-slate-800 rounded-md shadow-xl border border-slate-200 dark:border-slate-600 z-[55]">
+                    {profiles.map(profile => (
+                        <li key={profile.id}>
+                            <button
+                                role="menuitem"
+                                onClick={() => handleSelectProfile(profile)}
+                                className={`w-full flex justify-between items-center px-3 py-2 text-sm text-left hover:bg-slate-100 dark:hover:bg-slate-700 ${profile.id === activeProfileId ? 'font-semibold text-cyan-600 dark:text-cyan-400' : 'text-slate-700 dark:text-slate-200'}`}
+                            >
+                                <span className="truncate">{getProfileDisplayName(profile)}</span>
+                                <span>{profile.pinHash && '🔒'}{profile.id === activeProfileId && ' ✓'}</span>
+                            </button>
+                        </li>
+                    ))}
+                    <li className="border-t border-slate-200 dark:border-slate-600 mt-1 pt-1">
+                        <button
+                            role="menuitem"
+                            onClick={() => { setIsMenuOpen(false); onCreateProfile(); }}
+                            className="w-full px-3 py-2 text-sm text-left text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700"
+                        >
+                            ➕ 새 프로필 추가
                         </button>
-                        <div className="flex justify-end space-x-3">
-                            <button type="button" onClick={onCancel} className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 rounded text-slate-700 dark:text-white">취소</button>
-                            <button type="submit" className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white">저장</button>
-                        </div>
-                    </div>
-                </form>
-            </div>
-        </div>
-        <ConfirmationModal
-                isOpen={showResetConfirmModal}
-                title="데이터 초기화 확인"
-                message="정말로 모든 학습 데이터와 설정을 초기화하시겠습니까? 이 작업은 되돌릴 수 없습니다."
-                onConfirm={confirmResetData}
-                onCancel={() => setShowResetConfirmModal(false)}
-                confirmText="초기화"
-                confirmButtonClass="bg-red-600 hover:bg-red-700 dark:bg-red-700 dark:hover:bg-red-800"
+                    </li>
+                </ul>
+            )}
+            <ProfilePinModal
+                profile={pinProfile}
+                onVerified={(profile) => { setPinProfile(null); onSwitchProfile(profile.id); }}
+                onCancel={() => setPinProfile(null)}
             />
-        </>
+        </div>
     );
-});
+};
+
+// Profile Lock Screen: shown instead of the app when the page opens on a profile with a PIN, so whoever uses the
+// device next can't walk into the previous student's profile. Any profile can be picked from here.
+interface ProfileLockScreenProps {
+    profileControls: ProfileControls;
+    onUnlock: () => void;
+}
+const ProfileLockScreen: React.FC<ProfileLockScreenProps> = ({ profileControls, onUnlock }) => {
+    const { profiles, activeProfileId, onSwitchProfile, onCreateProfile } = profileControls;
+    const [pinProfile, setPinProfile] = useState<Profile | null>(null);
+
+    const openProfile = (profile: Profile) => {
+        onSwitchProfile(profile.id);
+        onUnlock();
+    };
+
+    const handleSelectProfile = (profile: Profile) => {
+        if (profile.pinHash) {
+            setPinProfile(profile);
+            return;
+        }
+        openProfile(profile);
+    };
 
+    return (
+        <div className="p-6 sm:p-8 bg-slate-100 dark:bg-slate-800 min-h-screen flex flex-col justify-center items-center">
+            <div className="w-full max-w-sm bg-white dark:bg-slate-700 p-6 rounded-xl shadow-2xl">
+                <h1 className="text-2xl font-bold text-cyan-600 dark:text-cyan-400 mb-6 text-center">프로필 선택</h1>
+                <ul className="space-y-2">
+                    {profiles.map(profile => (
+                        <li key={profile.id}>
+                            <button
+                                onClick={() => handleSelectProfile(profile)}
+                                className={`w-full flex justify-between items-center px-4 py-3 rounded-md text-left bg-slate-100 dark:bg-slate-600 hover:bg-slate-200 dark:hover:bg-slate-500 ${profile.id === activeProfileId ? 'font-semibold text-cyan-600 dark:text-cyan-300' : 'text-slate-700 dark:text-slate-200'}`}
+                            >
+                                <span className="truncate">👤 {getProfileDisplayName(profile)}</span>
+                                <span>{profile.pinHash && '🔒'}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <button
+                    onClick={() => { onCreateProfile(); onUnlock(); }}
+                    className="w-full mt-4 px-4 py-2 text-sm text-slate-600 dark:text-slate-300 hover:underline"
+                >
+                    ➕ 새 프로필 추가
+                </button>
+            </div>
+            <ProfilePinModal
+                profile={pinProfile}
+                onVerified={(profile) => { setPinProfile(null); openProfile(profile); }}
+                onCancel={() => setPinProfile(null)}
+            />
+        </div>
+    );
+};
 
 // Navigation Bar Component
 interface NavBarProps {
@@ -913,8 +1984,8 @@ interface NavBarProps {
     onOpenSettings: () => void;
 }
 const NavBar: React.FC<NavBarProps> = React.memo(({ currentScreen, onOpenSettings }) => {
-    const { onNavigate, userSettings } = useAppContext();
-    
+    const { onNavigate, userSettings, profileControls } = useAppContext();
+
     const navItems: { screen: AppScreen; label: string; icon: string }[] = [
         { screen: 'dashboard', label: '대시보드', icon: '🏠' },
         { screen: 'learnWords', label: '단어 학습', icon: '📖' },
@@ -959,6 +2030,9 @@ const NavBar: React.FC<NavBarProps> = React.memo(({ currentScreen, onOpenSetting
                         <span className="sm:hidden">설정</span>
                     </button>
                 </li>
+                <li>
+                    <ProfileSwitcher profileControls={profileControls} />
+                </li>
             </ul>
         </nav>
     );
@@ -967,13 +2041,16 @@ const NavBar: React.FC<NavBarProps> = React.memo(({ currentScreen, onOpenSetting
 
 // Login/Setup Screen Component
 interface LoginSetupScreenProps {
-    onSetupComplete: (settings: UserSettings) => void;
+    onSetupComplete: (settings: UserSettings, pin: string | null) => void;
+    profileControls: ProfileControls;
 }
-const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onSetupComplete }) => {
+const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onSetupComplete, profileControls }) => {
     const { addToast } = useToasts();
     const [username, setUsername] = useState('');
     const [grade, setGrade] = useState('middle1');
     const [dailyGoal, setDailyGoal] = useState(10);
+    const [pin, setPin] = useState('');
+    const hasOtherProfiles = profileControls.profiles.some(p => p.id !== profileControls.activeProfileId && p.name);
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
@@ -981,6 +2058,10 @@ const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onSetupComplete })
             addToast("사용자 이름을 입력해주세요.", "warning");
             return;
         }
+        if (pin && !isValidPin(pin)) {
+            addToast("PIN은 숫자 4자리로 입력하거나 비워두세요.", "warning");
+            return;
+        }
         onSetupComplete({ 
             username: username.trim(), 
             grade, 
@@ -993,15 +2074,22 @@ const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onSetupComplete })
             level: 1,
             currentStreak: 0,
             bestStreak: 0,
+            streakFreezes: 0,
+            frozenDates: [],
             lastLearnedDate: undefined,
             lastQuizDate: undefined,
-            lastQuizScore: undefined,
             lastGameDate: undefined,
-        });
+        }, pin || null);
     };
 
     return (
         <div className="p-6 sm:p-8 bg-slate-100 dark:bg-slate-800 min-h-screen flex flex-col justify-center items-center">
+            {hasOtherProfiles && (
+                <div className="w-full max-w-md flex justify-end items-center gap-2 mb-3 text-sm text-slate-600 dark:text-slate-300">
+                    <span>이미 프로필이 있나요?</span>
+                    <ProfileSwitcher profileControls={profileControls} />
+                </div>
+            )}
             <div className="w-full max-w-md bg-white dark:bg-slate-700 p-8 rounded-xl shadow-2xl">
                 <h1 className="text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-8 text-center">AI 영단어 학습 설정</h1>
                 <form onSubmit={handleSubmit} className="space-y-6">
@@ -1043,6 +2131,18 @@ const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onSetupComplete })
                             aria-required="true"
                         />
                     </div>
+                    <div>
+                        <label htmlFor="profilePin" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">프로필 PIN (선택, 숫자 4자리)</label>
+                        <input
+                            type="password"
+                            inputMode="numeric"
+                            id="profilePin"
+                            value={pin}
+                            onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                            className="w-full p-3 bg-slate-100 dark:bg-slate-600 text-slate-900 dark:text-white rounded-md border border-slate-300 dark:border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                            placeholder="여러 명이 기기를 함께 쓴다면 설정하세요"
+                        />
+                    </div>
                     <button
                         type="submit"
                         className="w-full py-3 px-4 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-md shadow-md transition-colors duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:ring-opacity-75"
@@ -1056,24 +2156,186 @@ const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onSetupComplete })
 };
 
 
+// Quiz types
+// Every type is answered either by picking one of four choices or by typing, and with either the Korean meaning
+// or the English term. Types answered with the term must not play the word's audio before the answer.
+interface QuizTypeSpec {
+    label: string;
+    description: string;
+    answerMode: 'choice' | 'input';
+    answerWith: 'meaning' | 'term';
+}
+
+const QUIZ_TYPE_SPECS: Record<QuizType, QuizTypeSpec> = {
+    multiple: { label: '객관식', description: '영어 단어를 보고 뜻 고르기', answerMode: 'choice', answerWith: 'meaning' },
+    typing: { label: '주관식', description: '영어 단어를 보고 뜻 입력하기', answerMode: 'input', answerWith: 'meaning' },
+    reverseMultiple: { label: '한→영 객관식', description: '뜻을 보고 영어 단어 고르기', answerMode: 'choice', answerWith: 'term' },
+    reverseTyping: { label: '한→영 철자', description: '뜻을 보고 영어 철자 입력하기', answerMode: 'input', answerWith: 'term' },
+    listening: { label: '듣기', description: '발음만 듣고 뜻 고르기', answerMode: 'choice', answerWith: 'meaning' },
+    cloze: { label: '예문 빈칸', description: '예문의 빈칸에 알맞은 단어 고르기', answerMode: 'choice', answerWith: 'term' },
+};
+
+const CLOZE_BLANK = '_____';
+
+// Blanks the term in its example sentence, including simple inflections ("studies" for "study", "making" for "make").
+// Returns null if the term doesn't appear in the sentence, so the word can't be asked as a cloze question.
+const createClozeSentence = (word: Word): string | null => {
+    const term = word.term.trim();
+    if (!term || !word.exampleSentence) return null;
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // The term or a regular inflection of it: a final e dropped, a final y turned into i, or a final consonant doubled.
+    // The closing \b keeps "go" from blanking "Good" and "car" from blanking "careful".
+    const forms = [`${escape(term)}(s|es|ed|d|ing|er|est)?`];
+    if (/e$/i.test(term)) forms.push(`${escape(term.slice(0, -1))}(ing|er|est)`);
+    if (/[^aeiou]y$/i.test(term)) forms.push(`${escape(term.slice(0, -1))}(ied|ies|ier|iest)`);
+    if (/[^aeiou][aeiou][bdgklmnprt]$/i.test(term)) forms.push(`${escape(term)}${escape(term.slice(-1))}(ing|ed|er|est)`);
+    const pattern = new RegExp(`\\b(${forms.join('|')})\\b`, 'i');
+    return pattern.test(word.exampleSentence) ? word.exampleSentence.replace(pattern, CLOZE_BLANK) : null;
+};
+
+const getQuizCorrectAnswers = (word: Word, quizType: QuizType) =>
+    QUIZ_TYPE_SPECS[quizType].answerWith === 'term' ? [word.term.trim()] : word.meaning.split('/').map(m => m.trim());
+
+// For choices: English terms are compared case-insensitively, meanings must match one of the listed meanings exactly
+const isQuizAnswerCorrect = (word: Word, quizType: QuizType, answer: string) => {
+    const normalize = (text: string) => QUIZ_TYPE_SPECS[quizType].answerWith === 'term' ? text.trim().toLowerCase() : text.trim();
+    return getQuizCorrectAnswers(word, quizType).some(correct => normalize(correct) === normalize(answer));
+};
+
+// Typed answers go through answerChecker.ts, so near misses can be accepted as 'almost'
+const checkTypedQuizAnswer = (word: Word, quizType: QuizType, answer: string, strictness: AnswerStrictness) =>
+    QUIZ_TYPE_SPECS[quizType].answerWith === 'term'
+        ? checkSpellingAnswer(answer, word.term, strictness)
+        : checkMeaningAnswer(answer, getQuizCorrectAnswers(word, quizType), strictness);
+
+// An accepted near miss is scheduled like a hard recall
+const ANSWER_VERDICT_GRADES: Record<AnswerVerdict, ReviewGrade> = {
+    correct: 'good',
+    almost: 'hard',
+    incorrect: 'again',
+};
+
+// Counts answers per quiz type, so a word that is easy to recognize but hard to spell shows up as such
+const getQuizAnswerStatUpdate = (stat: WordStat | undefined, quizType: QuizType, isCorrect: boolean): Partial<WordStat> => {
+    const quizTypeStats = stat?.quizTypeStats ?? {};
+    const typeStat = quizTypeStats[quizType] ?? { correct: 0, incorrect: 0 };
+    return {
+        quizIncorrectCount: (stat?.quizIncorrectCount || 0) + (isCorrect ? 0 : 1),
+        ...(isCorrect ? {} : { incorrectReviewStreak: 0 }), // A new miss restarts the run of correct review answers
+        quizTypeStats: {
+            ...quizTypeStats,
+            [quizType]: isCorrect ? { ...typeStat, correct: typeStat.correct + 1 } : { ...typeStat, incorrect: typeStat.incorrect + 1 },
+        },
+    };
+};
+
+
+// Resumable session prompts
+
+const getSessionUnitLabel = (unit: string | number) =>
+    unit === 'all' ? '전체 단어' : unit === 'due' ? '오늘의 복습' : unit === 'incorrect' ? '오답 단어' : `단원 ${unit}`;
+
+const describeSavedSession = (entry: SavedSessionEntry): { title: string; progress: string } => {
+    switch (entry.screen) {
+        case 'learnWords': {
+            const { unit, wordIds, currentIndex } = entry.session;
+            return { title: `📖 ${getSessionUnitLabel(unit)} 카드 학습`, progress: `${currentIndex + 1} / ${wordIds.length} 단어` };
+        }
+        case 'quiz': {
+            const { unit, quizType, wordIds, currentQuestionIndex, score } = entry.session;
+            return { title: `📝 ${getSessionUnitLabel(unit)} 퀴즈 (${QUIZ_TYPE_SPECS[quizType].label})`, progress: `${currentQuestionIndex + 1} / ${wordIds.length} 문제 · ${score}점` };
+        }
+        case 'typingPracticeGame': {
+            const { unit, words, currentWordIndex, score } = entry.session;
+            return { title: `⌨️ ${getSessionUnitLabel(unit)} 타자 연습`, progress: `${currentWordIndex + 1} / ${words.length} 단어 · ${score}점` };
+        }
+    }
+};
+
+const formatSavedAt = (savedAt: number) => new Date(savedAt).toLocaleString('ko-KR', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+interface ResumeSessionPromptProps {
+    entry: SavedSessionEntry;
+    onResume: () => void;
+    onDiscard: () => void;
+}
+const ResumeSessionPrompt: React.FC<ResumeSessionPromptProps> = ({ entry, onResume, onDiscard }) => {
+    const { title, progress } = describeSavedSession(entry);
+    return (
+        <div className="w-full max-w-md mb-6 p-4 bg-yellow-50 dark:bg-slate-700 border border-yellow-300 dark:border-yellow-600 rounded-lg shadow">
+            <p className="text-sm font-semibold text-slate-700 dark:text-slate-200">⏸️ 끝내지 않은 세션이 있습니다.</p>
+            <p className="text-sm text-slate-600 dark:text-slate-300 mt-1">{title} · {progress}</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">{formatSavedAt(entry.session.savedAt)} 저장</p>
+            <div className="flex gap-2 mt-3">
+                <button onClick={onResume} className="flex-1 py-2 bg-cyan-500 hover:bg-cyan-600 text-white text-sm font-semibold rounded-md shadow">
+                    이어서 하기
+                </button>
+                <button onClick={onDiscard} className="py-2 px-3 bg-slate-300 hover:bg-slate-400 dark:bg-slate-600 dark:hover:bg-slate-500 text-slate-700 dark:text-slate-200 text-sm rounded-md">
+                    버리기
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// Lists every unfinished session of the active profile on the dashboard
+const SavedSessionsCard: React.FC = () => {
+    const { onNavigate, profileControls } = useAppContext();
+    const storage = useMemo(() => getProfileStorage(profileControls.activeProfileId), [profileControls.activeProfileId]);
+    const [entries, setEntries] = useState(() => loadSessionSnapshots(storage));
+
+    if (entries.length === 0) return null;
+
+    const handleDiscard = (screen: ResumableScreen) => {
+        clearSessionSnapshot(screen, storage);
+        setEntries(prev => prev.filter(entry => entry.screen !== screen));
+    };
+
+    return (
+        <div className="bg-yellow-50 dark:bg-slate-700 border border-yellow-300 dark:border-yellow-600 p-4 sm:p-6 rounded-lg shadow-lg">
+            <h2 className="text-lg sm:text-xl font-semibold text-cyan-700 dark:text-cyan-300 mb-3">⏸️ 이어서 하기</h2>
+            <ul className="space-y-2">
+                {entries.map(entry => {
+                    const { title, progress } = describeSavedSession(entry);
+                    return (
+                        <li key={entry.screen} className="flex items-center justify-between p-3 bg-white dark:bg-slate-800/50 rounded-md shadow-sm">
+                            <div>
+                                <p className="text-sm sm:text-base text-slate-700 dark:text-slate-200">{title}</p>
+                                <p className="text-xs text-slate-500 dark:text-slate-400">{progress} · {formatSavedAt(entry.session.savedAt)} 저장</p>
+                            </div>
+                            <div className="flex items-center gap-2 ml-2 shrink-0">
+                                <button onClick={() => onNavigate(entry.screen, { resume: true })} className="px-2 py-1 text-xs bg-cyan-500 hover:bg-cyan-600 text-white rounded-md">
+                                    이어서 하기
+                                </button>
+                                <button onClick={() => handleDiscard(entry.screen)} className="px-2 py-1 text-xs text-slate-500 dark:text-slate-400 hover:text-red-500" aria-label={`${title} 버리기`}>
+                                    ✕
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+
 // Dashboard Screen Component
 interface DashboardScreenProps {
     learnedWordsToday: number;
     totalWordsLearned: number;
-    learningStreak: { currentStreak: number; bestStreak: number };
+    learningStreak: { currentStreak: number; bestStreak: number; streakFreezes: number };
     averageQuizScore: number;
-    quizTakenToday: boolean;
-    gamePlayedToday: boolean;
     hasIncorrectWordsToReview: boolean;
+    dueTodayCount: number;
 }
 const DashboardScreen: React.FC<DashboardScreenProps> = React.memo(({ 
     learnedWordsToday, 
     totalWordsLearned,
     learningStreak,
     averageQuizScore,
-    quizTakenToday,
-    gamePlayedToday,
     hasIncorrectWordsToReview,
+    dueTodayCount,
 }) => {
     const { userSettings, onNavigate } = useAppContext();
     const { addToast } = useToasts();
@@ -1106,12 +2368,40 @@ const DashboardScreen: React.FC<DashboardScreenProps> = React.memo(({
         </li>
     );
 
+    const todaysChallenges = getTodaysChallenges(userSettings.dailyChallenges, getTodayDateString(), userSettings, hasIncorrectWordsToReview).challenges;
+
+    const getChallengeAction = (kind: ChallengeKind): { label: string; onClick: () => void } | undefined => {
+        switch (kind) {
+            case 'dailyGoal':
+                return undefined;
+            case 'completeQuiz':
+            case 'completeQuizzes':
+            case 'perfectQuiz':
+                return { label: "퀴즈 풀기", onClick: () => onNavigate('quiz') };
+            case 'typedQuizAccuracy':
+                return { label: "퀴즈 풀기", onClick: () => onNavigate('quiz', { quizType: 'typing' }) };
+            case 'reviewDue':
+                return dueTodayCount > 0
+                    ? { label: "복습 하러가기", onClick: () => onNavigate('quiz', { reviewDue: true }) }
+                    : { label: "복습 없음", onClick: () => addToast("오늘 복습할 단어가 없습니다!", "info") };
+            case 'reviewIncorrect':
+                return hasIncorrectWordsToReview
+                    ? { label: "복습 하러가기", onClick: () => onNavigate('quiz', { reviewIncorrect: true }) }
+                    : { label: "오답 없음", onClick: () => addToast("복습할 오답 단어가 없습니다!", "info") };
+            case 'playGame':
+            case 'playDifferentGames':
+                return { label: "게임 하러가기", onClick: () => onNavigate('gameSelection') };
+        }
+    };
+
     return (
         <div className="p-4 sm:p-6 space-y-6">
             <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400">
                 안녕하세요, {userSettings.username}님! 👋 (Lv. {userSettings.level})
             </h1>
 
+            <SavedSessionsCard />
+
             {/* XP and Level Progress */}
             <div className="bg-slate-100 dark:bg-slate-700 p-4 sm:p-6 rounded-lg shadow-lg">
                 <div className="flex justify-between items-center mb-1">
@@ -1148,6 +2438,37 @@ const DashboardScreen: React.FC<DashboardScreenProps> = React.memo(({
                 </div>
             </div>
 
+            {/* Due Today Review Queue */}
+            <div className="bg-slate-100 dark:bg-slate-700 p-4 sm:p-6 rounded-lg shadow-lg">
+                <div className="flex justify-between items-center mb-2">
+                    <h2 className="text-lg sm:text-xl font-semibold text-cyan-700 dark:text-cyan-300">🗓️ 오늘 복습할 단어</h2>
+                    <span className={`text-sm font-semibold px-2 py-0.5 rounded-full ${dueTodayCount === 0 ? 'bg-green-100 text-green-700 dark:bg-green-700 dark:text-green-100' : 'bg-orange-100 text-orange-700 dark:bg-orange-700 dark:text-orange-100'}`}>
+                        {dueTodayCount === 0 ? '모두 완료! ✨' : `${dueTodayCount}개 대기 중`}
+                    </span>
+                </div>
+                <p className="text-sm text-slate-600 dark:text-slate-300 mb-3">
+                    {dueTodayCount === 0
+                        ? '지금 복습할 단어가 없습니다. 새 단어를 학습해보세요!'
+                        : '잊어버리기 전에 복습할 시간이 된 단어들입니다.'}
+                </p>
+                {dueTodayCount > 0 && (
+                    <div className="grid grid-cols-2 gap-3">
+                        <button
+                            onClick={() => onNavigate('learnWords', { reviewDue: true })}
+                            className="py-2 px-3 bg-cyan-500 hover:bg-cyan-600 text-white text-sm font-semibold rounded-lg shadow-md"
+                        >
+                            📖 카드로 복습
+                        </button>
+                        <button
+                            onClick={() => onNavigate('quiz', { reviewDue: true })}
+                            className="py-2 px-3 bg-green-500 hover:bg-green-600 text-white text-sm font-semibold rounded-lg shadow-md"
+                        >
+                            📝 퀴즈로 복습
+                        </button>
+                    </div>
+                )}
+            </div>
+
             {/* Key Stats Grid */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-6">
                 <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg text-center sm:text-left">
@@ -1158,6 +2479,7 @@ const DashboardScreen: React.FC<DashboardScreenProps> = React.memo(({
                     <h3 className="text-md sm:text-lg font-semibold text-cyan-700 dark:text-cyan-300 mb-1">🔥 연속 학습</h3>
                     <p className="text-xl sm:text-2xl font-bold text-slate-800 dark:text-white">현재: {learningStreak.currentStreak}일</p>
                     <p className="text-xs sm:text-sm text-slate-500 dark:text-slate-400">최고: {learningStreak.bestStreak}일</p>
+                    {learningStreak.streakFreezes > 0 && <p className="text-xs sm:text-sm text-sky-600 dark:text-sky-400">❄️ 스트릭 프리즈 {learningStreak.streakFreezes}개 보유</p>}
                 </div>
                 <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg text-center sm:text-left">
                     <h3 className="text-md sm:text-lg font-semibold text-cyan-700 dark:text-cyan-300 mb-1">📊 학습 요약</h3>
@@ -1170,29 +2492,15 @@ const DashboardScreen: React.FC<DashboardScreenProps> = React.memo(({
             <div className="bg-slate-100 dark:bg-slate-700 p-4 sm:p-6 rounded-lg shadow-lg">
                 <h2 className="text-lg sm:text-xl font-semibold text-cyan-700 dark:text-cyan-300 mb-3">⭐ 오늘의 도전 과제</h2>
                 <ul className="space-y-2">
-                    {renderChallengeItem(
-                        `오늘 단어 ${userSettings.dailyGoal}개 학습`,
-                        dailyGoalAchieved,
-                        20
-                    )}
-                    {renderChallengeItem(
-                        "퀴즈 1회 완료",
-                        quizTakenToday,
-                        15,
-                        !quizTakenToday ? { label: "퀴즈 풀기", onClick: () => onNavigate('quiz') } : undefined
-                    )}
-                     {renderChallengeItem(
-                        "게임 모드 1회 플레이",
-                        gamePlayedToday,
-                        25,
-                        !gamePlayedToday ? { label: "게임 하러가기", onClick: () => onNavigate('gameSelection') } : undefined
-                    )}
-                    {renderChallengeItem(
-                        "오답 단어 복습하기",
-                        false, 
-                        10,
-                        hasIncorrectWordsToReview ? { label: "복습 하러가기", onClick: () => onNavigate('quiz') } : { label: "오답 없음", onClick: () => addToast("복습할 오답 단어가 없습니다!", "info") }
-                    )}
+                    {todaysChallenges.map(challenge => {
+                        const { describe, reward } = CHALLENGE_DEFINITIONS[challenge.kind];
+                        const progressText = challenge.target > 1 ? ` (${Math.min(challenge.progress, challenge.target)}/${challenge.target})` : '';
+                        return (
+                            <React.Fragment key={challenge.kind}>
+                                {renderChallengeItem(describe(challenge.target) + progressText, isChallengeComplete(challenge), reward, getChallengeAction(challenge.kind))}
+                            </React.Fragment>
+                        );
+                    })}
                 </ul>
             </div>
             
@@ -1234,22 +2542,149 @@ const DashboardScreen: React.FC<DashboardScreenProps> = React.memo(({
 });
 
 
+// --- Example Sentence Explorer ---
+interface ExampleSentenceExplorerProps {
+    word: Word; // Its current example counts as already seen
+    onPin: (example: GeneratedExample) => boolean | Promise<boolean>; // Resolves false if the example couldn't be used
+}
+
+const ExampleSentenceExplorer: React.FC<ExampleSentenceExplorerProps> = ({ word, onPin }) => {
+    const { userSettings } = useAppContext();
+    const { addToast } = useToasts();
+    const getUnmountSignal = useUnmountSignal();
+    const [history, setHistory] = useState<GeneratedExample[]>([]);
+    const [shownExample, setShownExample] = useState<GeneratedExample | null>(null);
+    const [seenSentences, setSeenSentences] = useState<string[]>([word.exampleSentence]);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+    useEffect(() => {
+        let isCancelled = false;
+        setHistory([]);
+        setShownExample(null);
+        setSeenSentences([word.exampleSentence]);
+        setIsHistoryOpen(false);
+        loadExampleHistory(word.id)
+            .then(saved => { if (!isCancelled) setHistory(saved); })
+            .catch(error => console.error("Error loading example history:", error));
+        return () => { isCancelled = true; };
+    // Only a different word starts over; edits to the same word keep what was shown
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [word.id]);
+
+    const updateHistory = (updated: GeneratedExample[]) => {
+        setHistory(updated);
+        saveExampleHistory(word.id, updated).catch(error => console.error("Error saving example history:", error));
+    };
+
+    const showExample = (example: GeneratedExample) => {
+        setShownExample(example);
+        setSeenSentences(prev => [...prev, example.sentence]);
+    };
+
+    const unseenExample = pickUnseenExample(history, seenSentences);
+    const isAiUnavailable = !aiProvider || isAIQuotaExhausted;
+
+    const handleShowAnother = async () => {
+        if (unseenExample) {
+            showExample(unseenExample);
+            return;
+        }
+        setIsGenerating(true);
+        const avoidSentences = Array.from(new Set([...seenSentences, ...history.map(example => example.sentence)]));
+        const result = await generateDifferentExampleSentenceWithAI(word, userSettings.grade, avoidSentences, addToast, { signal: getUnmountSignal() });
+        setIsGenerating(false);
+        if (!result) return;
+        const example: GeneratedExample = { sentence: result.newExampleSentence.trim(), meaning: result.newExampleSentenceMeaning.trim(), createdAt: Date.now() };
+        updateHistory(addExampleToHistory(history, example));
+        showExample(example);
+    };
+
+    // The replaced example goes into the history so it can be pinned back later
+    const handlePin = async (example: GeneratedExample) => {
+        const replaced = word.exampleSentence.trim()
+            ? { sentence: word.exampleSentence.trim(), meaning: word.exampleSentenceMeaning?.trim() || '', createdAt: Date.now() }
+            : null;
+        if (!(await onPin(example))) return;
+        if (replaced && !history.some(entry => isSameSentence(entry.sentence, replaced.sentence))) {
+            updateHistory(addExampleToHistory(history, replaced));
+        }
+    };
+
+    const renderExample = (example: GeneratedExample) => (
+        <>
+            <p className="text-slate-700 dark:text-slate-200">{example.sentence}</p>
+            {example.meaning && <p className="text-sm text-slate-500 dark:text-slate-400 mt-0.5">{example.meaning}</p>}
+            <div className="flex items-center gap-3 mt-1 text-xs">
+                <button type="button" onClick={() => speak(example.sentence, undefined, userSettings.speechRate)} className="text-slate-500 dark:text-slate-400 hover:text-cyan-500" aria-label="예문 발음 듣기">🔊 듣기</button>
+                {isSameSentence(example.sentence, word.exampleSentence)
+                    ? <span className="text-amber-600 dark:text-amber-400 font-semibold">📌 대표 예문</span>
+                    : <button type="button" onClick={() => handlePin(example)} className="text-cyan-600 dark:text-cyan-400 hover:underline">📌 대표 예문으로 지정</button>}
+            </div>
+        </>
+    );
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <button
+                    type="button"
+                    onClick={handleShowAnother}
+                    disabled={isGenerating || (!unseenExample && isAiUnavailable)}
+                    className="py-1.5 px-3 bg-sky-500 hover:bg-sky-600 text-white text-sm font-semibold rounded-md shadow-sm disabled:opacity-50"
+                >
+                    {isGenerating ? 'AI 예문 만드는 중...' : '🔄 다른 예문 보기'}
+                    {!unseenExample && !isGenerating && (isAiUnavailable ? <span className="text-xs ml-1">(AI 사용 불가)</span> : <span className="text-xs ml-1">(AI)</span>)}
+                </button>
+                {history.length > 0 && (
+                    <button type="button" onClick={() => setIsHistoryOpen(open => !open)} className="text-xs text-cyan-600 dark:text-cyan-400 hover:underline">
+                        예문 기록 {history.length}개 {isHistoryOpen ? '▲' : '▼'}
+                    </button>
+                )}
+            </div>
+            {shownExample && (
+                <div className="p-3 bg-sky-50 dark:bg-slate-700 rounded-md border border-sky-200 dark:border-slate-600 animate-fadeIn">
+                    {renderExample(shownExample)}
+                </div>
+            )}
+            {isHistoryOpen && (
+                <ul className="space-y-2 max-h-60 overflow-y-auto custom-scrollbar">
+                    {history.map(example => (
+                        <li key={example.createdAt + example.sentence} className="p-2 bg-slate-100 dark:bg-slate-700 rounded-md">
+                            {renderExample(example)}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+
 // LearnWords Screen Component (Refactored for Unit-based learning and Card Flip)
 interface LearnWordsScreenProps {
-    routeParams?: any;
+    routeParams?: RouteParamsMap['learnWords'];
 }
 const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ routeParams }) => {
-    const { userSettings, onNavigate, allWords, handleWordLearned } = useAppContext();
+    const { userSettings, onNavigate, allWords, wordStats, handleWordLearned, handleSetExampleSentence } = useAppContext();
+    const { startSession, markQuestionShown, recordAnswer } = useReviewRecorder('learnWords');
+    const { savedSession, saveSession, clearSession } = useSavedSession('learnWords');
     const { addToast } = useToasts();
     
-    const [mode, setMode] = useState<'selecting' | 'learning'>(routeParams?.unitToLearn ? 'learning' : 'selecting');
-    const [selectedUnit, setSelectedUnit] = useState<string | number | null>(routeParams?.unitToLearn || null);
+    const initialUnit = routeParams?.reviewDue ? 'due' : routeParams?.unitToLearn;
+    const [mode, setMode] = useState<'selecting' | 'learning'>(initialUnit ? 'learning' : 'selecting');
+    const [selectedUnit, setSelectedUnit] = useState<string | number | null>(initialUnit || null);
     const [dropdownSelection, setDropdownSelection] = useState<string | number>(routeParams?.unitToLearn || 'all');
     const [learningWords, setLearningWords] = useState<Word[]>([]);
     const [currentIndex, setCurrentIndex] = useState(0);
     const [isFlipped, setIsFlipped] = useState(false);
 
     const currentWord = learningWords[currentIndex];
+    // The session keeps the words as they were when it started; the example is read from the current word so a newly
+    // pinned one shows right away
+    const displayedWord = useMemo(() => currentWord && (allWords.find(w => String(w.id) === String(currentWord.id)) ?? currentWord), [allWords, currentWord]);
+    const wordImageUrl = useWordImageUrl(currentWord?.id);
+    const dueWordsCount = useMemo(() => getDueWords(allWords, wordStats, getTodayDateString()).length, [allWords, wordStats]);
 
     const units = useMemo(() => {
         const unitSet = new Set<string | number>();
@@ -1277,13 +2712,15 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ routeParams }) => {
                  return;
             }
             wordsForSession = shuffleArray(allWords).slice(0, 30);
+        } else if (unit === 'due') {
+            wordsForSession = getDueWords(allWords, wordStats, getTodayDateString()).slice(0, 50);
         } else {
             const filteredWords = allWords.filter(w => String(w.unit) === String(unit));
             wordsForSession = shuffleArray(filteredWords);
         }
 
         if (wordsForSession.length === 0) {
-            addToast(unit === 'all' ? `학습할 단어가 없습니다.` : `단원 ${unit}에 학습할 단어가 없습니다.`, "warning");
+            addToast(unit === 'all' ? `학습할 단어가 없습니다.` : unit === 'due' ? `오늘 복습할 단어가 없습니다.` : `단원 ${unit}에 학습할 단어가 없습니다.`, "warning");
             return;
         }
 
@@ -1292,26 +2729,66 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ routeParams }) => {
         setCurrentIndex(0);
         setIsFlipped(false);
         setMode('learning');
-    }, [allWords, addToast]);
+        startSession();
+    }, [allWords, wordStats, addToast, startSession]);
 
     useEffect(() => {
         if (mode === 'learning' && selectedUnit && learningWords.length === 0) {
             startLearningSession(selectedUnit);
         }
     }, [mode, selectedUnit, startLearningSession, learningWords.length]);
+
+    const resumeSavedSession = () => {
+        if (!savedSession) {
+            addToast("이어서 할 학습이 없습니다.", "info");
+            return;
+        }
+        const words = resolveSessionWords(savedSession.wordIds, allWords);
+        if (!words) {
+            addToast("저장된 학습의 단어 일부가 삭제되어 이어서 할 수 없습니다.", "warning");
+            clearSession();
+            return;
+        }
+        setLearningWords(words);
+        setSelectedUnit(savedSession.unit);
+        setCurrentIndex(savedSession.currentIndex);
+        setIsFlipped(false);
+        setMode('learning');
+        startSession();
+    };
+
+    // Opened from the dashboard's resume list
+    useEffect(() => {
+        if (routeParams?.resume) resumeSavedSession();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    useEffect(() => {
+        if (mode === 'learning' && selectedUnit && learningWords.length > 0) {
+            saveSession({ unit: selectedUnit, wordIds: learningWords.map(w => w.id), currentIndex });
+        }
+    }, [mode, selectedUnit, learningWords, currentIndex, saveSession]);
     
     const resetWordSpecificStates = useCallback(() => {
         setIsFlipped(false);
     }, []);
 
-    const handleNextWord = () => {
-        handleWordLearned(currentWord.id);
+    useEffect(() => {
+        if (mode === 'learning' && currentWord) markQuestionShown();
+    }, [mode, currentWord, markQuestionShown]);
+
+    // Only a picked grade counts as a review; moving on without one leaves the word's schedule as it was
+    const handleNextWord = (grade?: ReviewGrade) => {
+        if (grade) {
+            recordAnswer(currentWord.id, grade);
+            handleWordLearned(currentWord.id);
+        }
         if (currentIndex < learningWords.length - 1) {
             resetWordSpecificStates();
             setCurrentIndex(prevIndex => prevIndex + 1);
         } else {
-            const unitName = selectedUnit === 'all' ? '전체 학습' : `단원 ${selectedUnit}`;
-            addToast(`${unitName} 학습을 완료했습니다! 🎉`, "success");
+            addToast(`${getSessionName(selectedUnit)} 학습을 완료했습니다! 🎉`, "success");
+            clearSession();
             onNavigate('dashboard');
         }
     };
@@ -1322,11 +2799,24 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ routeParams }) => {
             setCurrentIndex(prevIndex => prevIndex - 1);
         }
     };
+
+    const handlePinExample = async (example: GeneratedExample) => {
+        const result = await handleSetExampleSentence(currentWord.id, example);
+        if (result.success) {
+            addToast(`'${currentWord.term}'의 대표 예문을 바꿨습니다.`, "success");
+        } else {
+            addToast(`대표 예문 지정 실패: ${result.reason}`, "error");
+        }
+        return result.success;
+    };
+
+    const getSessionName = (unit: string | number | null) => unit === 'all' ? '전체 학습' : unit === 'due' ? '오늘의 복습' : `단원 ${unit}`;
     
     if (mode === 'selecting') {
         return (
             <div className="p-4 sm:p-8 flex flex-col items-center">
                 <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6">학습 모드 선택</h1>
+                {savedSession && <ResumeSessionPrompt entry={{ screen: 'learnWords', session: savedSession }} onResume={resumeSavedSession} onDiscard={clearSession} />}
                 <div className="w-full max-w-md bg-slate-100 dark:bg-slate-700 p-6 rounded-lg shadow-lg space-y-6">
                     <div>
                         <label htmlFor="unit-select-learn" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">모드 선택</label>
@@ -1337,6 +2827,7 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ routeParams }) => {
                             className="w-full p-3 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500 focus:ring-2 focus:ring-cyan-500"
                         >
                             <option value="all">전체 단어 (랜덤 30단어)</option>
+                            <option value="due" disabled={dueWordsCount === 0}>오늘 복습할 단어 ({dueWordsCount}개)</option>
                             <optgroup label="단원별 학습">
                                 {units.map(unit => <option key={unit} value={unit}>단원 {unit}</option>)}
                             </optgroup>
@@ -1358,7 +2849,7 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ routeParams }) => {
         );
     }
     
-    const unitName = selectedUnit === 'all' ? '전체 학습' : `단원 ${selectedUnit}`;
+    const unitName = getSessionName(selectedUnit);
 
     if (!currentWord) {
         return (
@@ -1396,7 +2887,7 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ routeParams }) => {
                     <div className="card-face card-back bg-cyan-50 dark:bg-slate-800 p-6 sm:p-8 text-left overflow-y-auto custom-scrollbar">
                         <div className="w-full">
                              <button 
-                                onClick={(e) => { e.stopPropagation(); speak(currentWord.exampleSentence, undefined, userSettings.speechRate); }} 
+                                onClick={(e) => { e.stopPropagation(); speak(displayedWord.exampleSentence, undefined, userSettings.speechRate); }} 
                                 className="absolute top-4 right-4 text-slate-500 dark:text-slate-400 hover:text-cyan-500 dark:hover:text-cyan-400 text-3xl z-10" 
                                 aria-label="예문 발음 듣기"
                             >
@@ -1404,35 +2895,172 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ routeParams }) => {
                             </button>
                             <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-3">{currentWord.term}</h2>
                             <p className="text-xl text-cyan-600 dark:text-cyan-300 font-semibold mb-4">{currentWord.partOfSpeech}: {currentWord.meaning}</p>
+                            {wordImageUrl && <img src={wordImageUrl} alt={currentWord.term} className="max-h-32 mx-auto mb-3 rounded shadow" />}
                             
                             <div className="mt-3 pt-3 border-t border-slate-300 dark:border-slate-600">
-                                <p className="text-slate-700 dark:text-slate-200"><span className="font-semibold">예문:</span> {currentWord.exampleSentence}</p>
-                                {currentWord.exampleSentenceMeaning && <p className="text-sm text-slate-500 dark:text-slate-400 mt-1"><span className="font-semibold">해석:</span> {currentWord.exampleSentenceMeaning}</p>}
+                                <p className="text-slate-700 dark:text-slate-200"><span className="font-semibold">예문:</span> {displayedWord.exampleSentence}</p>
+                                {displayedWord.exampleSentenceMeaning && <p className="text-sm text-slate-500 dark:text-slate-400 mt-1"><span className="font-semibold">해석:</span> {displayedWord.exampleSentenceMeaning}</p>}
                             </div>
                         </div>
                     </div>
                 </div>
             </div>
-
-            <div className="flex justify-between mt-6 w-full max-w-lg">
-                <button
-                    onClick={handlePreviousWord}
-                    disabled={currentIndex === 0}
-                    className="w-1/2 mr-2 py-3 px-4 bg-slate-400 hover:bg-slate-500 text-white font-bold rounded-md shadow-lg transition-colors disabled:opacity-50"
-                >
-                    이전 단어
-                </button>
-                <button
-                    onClick={handleNextWord}
-                    className="w-1/2 ml-2 py-3 px-4 bg-green-500 hover:bg-green-600 text-white font-bold rounded-md shadow-lg transition-colors"
-                >
-                   {currentIndex === learningWords.length - 1 ? '학습 완료' : '다음 단어'}
-                </button>
-            </div>
-            
-            <button onClick={() => setMode('selecting')} className="mt-8 text-sm text-cyan-600 dark:text-cyan-400 hover:underline">
-                다른 학습 모드 선택하기
-            </button>
+
+            {isFlipped && (
+                <div className="mt-4 w-full max-w-lg animate-fadeIn">
+                    <ExampleSentenceExplorer word={displayedWord} onPin={handlePinExample} />
+                </div>
+            )}
+
+            {isFlipped && (
+                <div className="mt-6 w-full max-w-lg animate-fadeIn">
+                    <p className="text-xs text-center text-slate-500 dark:text-slate-400 mb-2">이 단어를 얼마나 잘 기억했나요?</p>
+                    <div className="grid grid-cols-4 gap-2">
+                        {([
+                            { grade: 'again', label: '다시', className: 'bg-red-500 hover:bg-red-600' },
+                            { grade: 'hard', label: '어려움', className: 'bg-orange-500 hover:bg-orange-600' },
+                            { grade: 'good', label: '좋음', className: 'bg-green-500 hover:bg-green-600' },
+                            { grade: 'easy', label: '쉬움', className: 'bg-sky-500 hover:bg-sky-600' },
+                        ] as { grade: ReviewGrade; label: string; className: string }[]).map(option => (
+                            <button
+                                key={option.grade}
+                                onClick={() => handleNextWord(option.grade)}
+                                className={`py-2 text-sm text-white font-semibold rounded-md shadow ${option.className}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="flex justify-between mt-6 w-full max-w-lg">
+                <button
+                    onClick={handlePreviousWord}
+                    disabled={currentIndex === 0}
+                    className="w-1/2 mr-2 py-3 px-4 bg-slate-400 hover:bg-slate-500 text-white font-bold rounded-md shadow-lg transition-colors disabled:opacity-50"
+                >
+                    이전 단어
+                </button>
+                <button
+                    onClick={() => handleNextWord()}
+                    className="w-1/2 ml-2 py-3 px-4 bg-green-500 hover:bg-green-600 text-white font-bold rounded-md shadow-lg transition-colors"
+                >
+                   {currentIndex === learningWords.length - 1 ? '학습 완료' : '다음 단어'}
+                </button>
+            </div>
+            
+            <button onClick={() => setMode('selecting')} className="mt-8 text-sm text-cyan-600 dark:text-cyan-400 hover:underline">
+                다른 학습 모드 선택하기
+            </button>
+        </div>
+    );
+};
+
+
+// --- Word Selection Filters ---
+interface WordFilterPanelProps {
+    idPrefix: string;
+    filters: WordFilters;
+    onFiltersChange: (filters: WordFilters) => void;
+    eligibleWords?: Word[]; // Words the screen can use at all, e.g. alphabet-only terms for typing games; defaults to every word
+    questionCount?: QuestionCount; // Count and time limit controls are shown only when given
+    onQuestionCountChange?: (count: QuestionCount) => void;
+    timeLimit?: number;
+    onTimeLimitChange?: (seconds: number) => void;
+}
+
+const WordFilterPanel: React.FC<WordFilterPanelProps> = ({ idPrefix, filters, onFiltersChange, eligibleWords, questionCount, onQuestionCountChange, timeLimit, onTimeLimitChange }) => {
+    const { allWords, wordStats } = useAppContext();
+    const sourceWords = eligibleWords ?? allWords;
+    const units = useMemo(() => getUnitOptions(sourceWords), [sourceWords]);
+    const partsOfSpeech = useMemo(() => getPartOfSpeechOptions(sourceWords), [sourceWords]);
+    const matchingCount = useMemo(() => applyWordFilters(sourceWords, wordStats, filters).length, [sourceWords, wordStats, filters]);
+    const activeFilterCount = countActiveWordFilters(filters);
+
+    const toggleListValue = <K extends 'units' | 'partsOfSpeech'>(key: K, value: WordFilters[K][number]) => {
+        const list = filters[key] as (string | number)[];
+        const isSelected = list.some(item => String(item) === String(value));
+        onFiltersChange({ ...filters, [key]: isSelected ? list.filter(item => String(item) !== String(value)) : [...list, value] });
+    };
+
+    const chipClass = (isSelected: boolean) => `px-2.5 py-1 rounded-full text-sm border transition-colors ${isSelected
+        ? 'bg-cyan-500 border-cyan-500 text-white'
+        : 'bg-white dark:bg-slate-600 border-slate-300 dark:border-slate-500 text-slate-700 dark:text-slate-200 hover:border-cyan-500'}`;
+
+    const checkboxes: { key: 'onlyUnmastered' | 'onlyIncorrect' | 'onlyCustom'; label: string }[] = [
+        { key: 'onlyUnmastered', label: '아직 완료하지 않은 단어만' },
+        { key: 'onlyIncorrect', label: '퀴즈에서 틀린 적 있는 단어만' },
+        { key: 'onlyCustom', label: '나의 단어만' },
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <span className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">단원 (여러 개 선택 가능)</span>
+                <div className="flex flex-wrap gap-2">
+                    <button type="button" onClick={() => onFiltersChange({ ...filters, units: [] })} className={chipClass(filters.units.length === 0)}>전체</button>
+                    {units.map(unit => (
+                        <button key={unit} type="button" onClick={() => toggleListValue('units', unit)} className={chipClass(filters.units.some(u => String(u) === String(unit)))}>
+                            단원 {unit}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {partsOfSpeech.length > 1 && (
+                <div>
+                    <span className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">품사</span>
+                    <div className="flex flex-wrap gap-2">
+                        <button type="button" onClick={() => onFiltersChange({ ...filters, partsOfSpeech: [] })} className={chipClass(filters.partsOfSpeech.length === 0)}>전체</button>
+                        {partsOfSpeech.map(part => (
+                            <button key={part} type="button" onClick={() => toggleListValue('partsOfSpeech', part)} className={chipClass(filters.partsOfSpeech.includes(part))}>
+                                {part}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+            <div className="space-y-1">
+                {checkboxes.map(({ key, label }) => (
+                    <label key={key} htmlFor={`${idPrefix}-${key}`} className="flex items-center space-x-2 cursor-pointer text-sm text-slate-700 dark:text-slate-300">
+                        <input type="checkbox" id={`${idPrefix}-${key}`} checked={filters[key]} onChange={e => onFiltersChange({ ...filters, [key]: e.target.checked })} className="form-checkbox text-cyan-500 focus:ring-cyan-500 rounded" />
+                        <span>{label}</span>
+                    </label>
+                ))}
+            </div>
+            {(questionCount !== undefined || timeLimit !== undefined) && (
+                <div className="grid grid-cols-2 gap-3">
+                    {questionCount !== undefined && onQuestionCountChange && (
+                        <div>
+                            <label htmlFor={`${idPrefix}-count`} className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">문제 수</label>
+                            <select
+                                id={`${idPrefix}-count`}
+                                value={String(questionCount)}
+                                onChange={e => onQuestionCountChange(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+                                className="w-full p-2 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500"
+                            >
+                                {QUESTION_COUNT_OPTIONS.map(count => <option key={count} value={count}>{count === 'all' ? '전체' : `${count}문제`}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    {timeLimit !== undefined && onTimeLimitChange && (
+                        <div>
+                            <label htmlFor={`${idPrefix}-time-limit`} className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">문제당 제한 시간</label>
+                            <select
+                                id={`${idPrefix}-time-limit`}
+                                value={timeLimit}
+                                onChange={e => onTimeLimitChange(Number(e.target.value))}
+                                className="w-full p-2 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500"
+                            >
+                                {QUESTION_TIME_LIMIT_OPTIONS.map(seconds => <option key={seconds} value={seconds}>{seconds === 0 ? '제한 없음' : `${seconds}초`}</option>)}
+                            </select>
+                        </div>
+                    )}
+                </div>
+            )}
+            <p className={`text-sm ${matchingCount === 0 ? 'text-red-500 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>
+                조건에 맞는 단어: {matchingCount}개{activeFilterCount > 0 && ` (필터 ${activeFilterCount}개 적용)`}
+            </p>
         </div>
     );
 };
@@ -1440,13 +3068,16 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ routeParams }) => {
 
 // Quiz Screen Component (Refactored to use useReducer)
 interface QuizScreenProps {
-    routeParams?: any;
+    routeParams?: RouteParamsMap['quiz'];
 }
 
 type QuizScreenState = {
     quizState: 'setup' | 'playing' | 'finished';
-    selectedUnit: string | number;
-    quizType: 'multiple' | 'typing';
+    mode: 'all' | 'due' | 'incorrect'; // 'due' quizzes words scheduled for review today, 'incorrect' words with quiz misses
+    filters: WordFilters;
+    questionCount: QuestionCount;
+    timeLimit: number; // Seconds per question, 0 for no limit
+    quizType: QuizType;
     quizWords: Word[];
     currentQuestionIndex: number;
     score: number;
@@ -1459,23 +3090,43 @@ type QuizScreenState = {
 };
 
 type QuizAction =
-  | { type: 'CHANGE_SETUP'; payload: { key: 'selectedUnit' | 'quizType' | 'typedAnswer'; value: string } }
+  | { type: 'CHANGE_SETUP'; payload: { key: 'mode' | 'quizType' | 'typedAnswer'; value: string } }
+  | { type: 'CHANGE_SELECTION'; payload: Partial<Pick<QuizScreenState, 'filters' | 'questionCount' | 'timeLimit'>> }
   | { type: 'START_QUIZ'; payload: { quizWords: Word[]; options: string[] } }
+  | { type: 'RESUME_QUIZ'; payload: Omit<QuizScreenState, 'quizState' | 'filters' | 'questionCount'> }
   | { type: 'SUBMIT_MULTIPLE_CHOICE'; payload: { selectedAnswer: string; isCorrect: boolean; word: Word } }
-  | { type: 'SUBMIT_TYPING'; payload: { isCorrect: boolean; word: Word } }
+  | { type: 'SUBMIT_TYPING'; payload: { verdict: AnswerVerdict; word: Word } }
   | { type: 'NEXT_QUESTION'; payload: { options: string[] } }
   | { type: 'FINISH_QUIZ' }
   | { type: 'RESTART_QUIZ' };
 
 
+const TYPED_ANSWER_STYLES: Record<AnswerVerdict, string> = {
+    correct: 'border-green-500 ring-2 ring-green-500',
+    almost: 'border-yellow-500 ring-2 ring-yellow-500',
+    incorrect: 'border-red-500 ring-2 ring-red-500',
+};
+
+// Setup choices survive starting and restarting a quiz
+const pickQuizSetup = ({ mode, filters, questionCount, timeLimit, quizType }: QuizScreenState) => ({ mode, filters, questionCount, timeLimit, quizType });
+
+const getQuizSessionUnit = (mode: QuizScreenState['mode'], filters: WordFilters): string | number =>
+    mode === 'all' ? getSelectedUnit(filters) : mode;
+
 const QuizScreen: React.FC<QuizScreenProps> = ({ routeParams }) => {
-    const { userSettings, onNavigate, allWords, wordStats, handleQuizComplete, updateWordStat } = useAppContext();
+    const { userSettings, onNavigate, allWords, wordStats, reviewLog, handleQuizComplete, updateWordStat } = useAppContext();
+    const { startSession, markQuestionShown, recordAnswer } = useReviewRecorder('quiz');
+    const answerStrictness = userSettings.answerStrictness ?? DEFAULT_ANSWER_STRICTNESS;
+    const { savedSession, saveSession, clearSession } = useSavedSession('quiz');
     const { addToast } = useToasts();
     
     const initialQuizState: QuizScreenState = {
         quizState: 'setup',
-        selectedUnit: routeParams?.unitToLearn || 'all',
-        quizType: 'multiple',
+        mode: routeParams?.reviewDue ? 'due' : routeParams?.reviewIncorrect ? 'incorrect' : 'all',
+        filters: routeParams?.unitToLearn && routeParams.unitToLearn !== 'all' ? { ...DEFAULT_WORD_FILTERS, units: [routeParams.unitToLearn] } : DEFAULT_WORD_FILTERS,
+        questionCount: routeParams?.reviewDue ? 20 : 10,
+        timeLimit: 0,
+        quizType: routeParams?.quizType ?? 'multiple',
         quizWords: [],
         currentQuestionIndex: 0,
         score: 0,
@@ -1491,17 +3142,22 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ routeParams }) => {
         switch (action.type) {
             case 'CHANGE_SETUP':
                 return { ...state, [action.payload.key]: action.payload.value };
+
+            case 'CHANGE_SELECTION':
+                return { ...state, ...action.payload };
             
             case 'START_QUIZ':
                 return {
                     ...initialQuizState,
+                    ...pickQuizSetup(state),
                     quizState: 'playing',
-                    quizType: state.quizType,
-                    selectedUnit: state.selectedUnit,
                     quizWords: action.payload.quizWords,
                     options: action.payload.options,
                 };
 
+            case 'RESUME_QUIZ':
+                return { ...state, ...action.payload, quizState: 'playing' };
+
             case 'SUBMIT_MULTIPLE_CHOICE': {
                 const { selectedAnswer, isCorrect, word } = action.payload;
                 return {
@@ -1514,10 +3170,11 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ routeParams }) => {
             }
 
             case 'SUBMIT_TYPING': {
-                const { isCorrect, word } = action.payload;
+                const { verdict, word } = action.payload;
+                const isCorrect = verdict !== 'incorrect'; // Near misses still score
                 return {
                     ...state,
-                    inputFeedbackStyle: isCorrect ? 'border-green-500 ring-2 ring-green-500' : 'border-red-500 ring-2 ring-red-500 animate-shake',
+                    inputFeedbackStyle: TYPED_ANSWER_STYLES[verdict] + (isCorrect ? '' : ' animate-shake'),
                     showResult: true, // Show result immediately for typing
                     score: isCorrect ? state.score + 1 : state.score,
                     incorrectlyAnsweredWords: isCorrect ? state.incorrectlyAnsweredWords : [...state.incorrectlyAnsweredWords, word],
@@ -1536,11 +3193,10 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ routeParams }) => {
                 };
 
             case 'FINISH_QUIZ':
-                handleQuizComplete(state.score, state.quizWords.length, state.incorrectlyAnsweredWords);
                 return { ...state, quizState: 'finished' };
             
             case 'RESTART_QUIZ':
-                return { ...initialQuizState, selectedUnit: state.selectedUnit, quizType: state.quizType }; // keep setup options
+                return { ...initialQuizState, ...pickQuizSetup(state) };
 
             default:
                 throw new Error("Unhandled action in quizReducer");
@@ -1548,77 +3204,159 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ routeParams }) => {
     };
 
     const [state, dispatch] = useReducer(quizReducer, initialQuizState);
-    const { quizState, selectedUnit, quizType, quizWords, currentQuestionIndex, score, incorrectlyAnsweredWords, options, selectedAnswer, showResult, typedAnswer, inputFeedbackStyle } = state;
+    const { quizState, mode, filters, questionCount, timeLimit, quizType, quizWords, currentQuestionIndex, score, incorrectlyAnsweredWords, options, selectedAnswer, showResult, typedAnswer, inputFeedbackStyle } = state;
 
-    const units = useMemo(() => {
-        const unitSet = new Set<string | number>();
-        allWords.forEach(word => {
-            if (word.unit) unitSet.add(word.unit);
-        });
-        return Array.from(unitSet).sort((a, b) => Number(a) - Number(b));
-    }, [allWords]);
+    const dueWords = useMemo(() => getDueWords(allWords, wordStats, getTodayDateString()), [allWords, wordStats]);
+    const incorrectWords = useMemo(() => getIncorrectWords(allWords, wordStats), [allWords, wordStats]);
     
-    const generateMultipleChoiceOptions = useCallback((correctWord: Word, allWordsForOptions: Word[]) => {
-        let incorrectMeaningPool = shuffleArray(
-            allWordsForOptions
-                .filter(w => w.id !== correctWord.id)
-                .map(w => w.meaning.split('/')[0].trim())
-        );
-        const uniqueIncorrectOptions = Array.from(new Set(incorrectMeaningPool)).slice(0, 3);
-        
-        while (uniqueIncorrectOptions.length < 3) {
-            uniqueIncorrectOptions.push(`오답${uniqueIncorrectOptions.length + 1}`);
-        }
+    const confusions = useMemo(() => buildConfusionIndex(reviewLog), [reviewLog]);
 
-        return shuffleArray([correctWord.meaning.split('/')[0].trim(), ...uniqueIncorrectOptions]);
-    }, []);
+    const generateMultipleChoiceOptions = useCallback((correctWord: Word, allWordsForOptions: Word[]) =>
+        buildChoiceOptions(correctWord, allWordsForOptions, { answerWith: QUIZ_TYPE_SPECS[quizType].answerWith, confusions }),
+    [quizType, confusions]);
 
     const setupQuestion = useCallback((index: number, wordsForQuiz: Word[], allWordsForOptions: Word[]) => {
         if (index >= wordsForQuiz.length) return { options: [] };
         const currentWord = wordsForQuiz[index];
-        const newOptions = quizType === 'multiple' ? generateMultipleChoiceOptions(currentWord, allWordsForOptions) : [];
-        if (userSettings.autoPlayAudio) {
+        const { answerMode, answerWith } = QUIZ_TYPE_SPECS[quizType];
+        const newOptions = answerMode === 'choice' ? generateMultipleChoiceOptions(currentWord, allWordsForOptions) : [];
+        // Listening questions are nothing but the audio; other types answered with the term would give it away
+        if (quizType === 'listening' || (userSettings.autoPlayAudio && answerWith === 'meaning')) {
             speak(currentWord.term, undefined, userSettings.speechRate);
         }
         return { options: newOptions };
     }, [quizType, generateMultipleChoiceOptions, userSettings.autoPlayAudio, userSettings.speechRate]);
     
     const startQuiz = () => {
-        if (!selectedUnit) {
-            addToast("퀴즈를 시작할 모드를 선택해주세요.", "warning");
+        let candidateWords = applyWordFilters(mode === 'due' ? dueWords : mode === 'incorrect' ? incorrectWords : allWords, wordStats, filters);
+
+        // Options are drawn from every word; the distractor engine prefers the question's own unit
+        if (allWords.length < 4 && QUIZ_TYPE_SPECS[quizType].answerMode === 'choice') {
+            addToast("객관식 퀴즈를 위해 최소 4개의 단어가 필요합니다.", "warning");
+            return;
+        }
+        if (quizType === 'cloze' && candidateWords.length > 0) {
+            candidateWords = candidateWords.filter(w => createClozeSentence(w) !== null);
+            if (candidateWords.length === 0) {
+                addToast("예문에 단어가 그대로 쓰인 단어가 없어 빈칸 퀴즈를 만들 수 없습니다.", "warning");
+                return;
+            }
+        }
+        if (candidateWords.length === 0) {
+            const hint = countActiveWordFilters(filters) > 0 ? " 필터 조건을 바꿔 보세요." : "";
+            const emptyMessage = { all: "퀴즈를 진행할 단어가 없습니다.", due: "오늘 복습할 단어가 없습니다.", incorrect: "복습할 오답 단어가 없습니다!" }[mode];
+            addToast(emptyMessage + hint, "warning");
             return;
         }
 
-        let wordsForQuiz: Word[];
-        let optionSourceWords: Word[];
+        // Due words keep the most overdue ones when trimmed, wrong-answer review favours frequent and recent misses,
+        // and other quizzes are picked at random
+        const wordsForQuiz = mode === 'due'
+            ? shuffleArray(limitQuestionCount(candidateWords, questionCount))
+            : mode === 'incorrect'
+                ? pickIncorrectReviewWords(candidateWords, wordStats, reviewLog, questionCount)
+                : limitQuestionCount(shuffleArray(candidateWords), questionCount);
+        
+        const { options } = setupQuestion(0, wordsForQuiz, allWords);
+        dispatch({ type: 'START_QUIZ', payload: { quizWords: wordsForQuiz, options } });
+        startSession();
+        markQuestionShown();
+    };
 
-        if (selectedUnit === 'all') {
-            wordsForQuiz = shuffleArray(allWords).slice(0, 10);
-            optionSourceWords = allWords;
-        } else {
-            wordsForQuiz = shuffleArray(allWords.filter(w => String(w.unit) === String(selectedUnit))).slice(0, 10);
-            optionSourceWords = allWords.filter(w => String(w.unit) === String(selectedUnit));
+    const resumeSavedQuiz = () => {
+        if (!savedSession) {
+            addToast("이어서 풀 퀴즈가 없습니다.", "info");
+            return;
         }
-
-        if (optionSourceWords.length < 4 && quizType === 'multiple') {
-            addToast("객관식 퀴즈를 위해 최소 4개의 단어가 필요합니다.", "warning");
+        const words = resolveSessionWords(savedSession.wordIds, allWords);
+        const incorrectWords = resolveSessionWords(savedSession.incorrectWordIds, allWords);
+        if (!words || !incorrectWords) {
+            addToast("저장된 퀴즈의 단어 일부가 삭제되어 이어서 풀 수 없습니다.", "warning");
+            clearSession();
             return;
         }
-        if (wordsForQuiz.length === 0) {
-            addToast("퀴즈를 진행할 단어가 없습니다.", "warning");
+        const { unit, quizType, currentQuestionIndex, score, options, selectedAnswer, showResult, typedAnswer, timeLimit = 0 } = savedSession;
+        const isInputQuiz = QUIZ_TYPE_SPECS[quizType].answerMode === 'input';
+        dispatch({
+            type: 'RESUME_QUIZ',
+            payload: {
+                mode: unit === 'due' || unit === 'incorrect' ? unit : 'all',
+                timeLimit,
+                quizType,
+                quizWords: words,
+                currentQuestionIndex,
+                score,
+                incorrectlyAnsweredWords: incorrectWords,
+                options,
+                selectedAnswer,
+                showResult,
+                typedAnswer,
+                inputFeedbackStyle: isInputQuiz && showResult
+                    ? TYPED_ANSWER_STYLES[checkTypedQuizAnswer(words[currentQuestionIndex], quizType, typedAnswer, answerStrictness).verdict]
+                    : initialQuizState.inputFeedbackStyle,
+            },
+        });
+        startSession();
+        markQuestionShown();
+    };
+
+    // Launching from the dashboard's review queue or resume list skips the setup screen.
+    const hasAutoStartedRef = useRef(false);
+    useEffect(() => {
+        if (hasAutoStartedRef.current) return;
+        hasAutoStartedRef.current = true;
+        if (routeParams?.resume) {
+            resumeSavedQuiz();
+        } else if (routeParams?.reviewDue || routeParams?.reviewIncorrect) {
+            startQuiz();
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    // Snapshot after every step so the quiz can be resumed; a finished quiz has nothing left to resume
+    useEffect(() => {
+        if (quizState === 'playing') {
+            saveSession({
+                unit: getQuizSessionUnit(mode, filters),
+                quizType,
+                timeLimit,
+                wordIds: quizWords.map(w => w.id),
+                currentQuestionIndex,
+                score,
+                incorrectWordIds: incorrectlyAnsweredWords.map(w => w.id),
+                options,
+                selectedAnswer,
+                showResult,
+                typedAnswer,
+            });
+        } else if (quizState === 'finished') {
+            clearSession();
+        }
+    }, [quizState, mode, filters, timeLimit, quizType, quizWords, currentQuestionIndex, score, incorrectlyAnsweredWords, options, selectedAnswer, showResult, typedAnswer, saveSession, clearSession]);
+
+    // In wrong-answer review, correct answers also pay back misses
+    const updateAnswerStats = (word: Word, isCorrect: boolean) => {
+        const stat = wordStats[word.id];
+        const updates = getQuizAnswerStatUpdate(stat, quizType, isCorrect);
+        if (mode !== 'incorrect') {
+            updateWordStat(word.id, updates);
             return;
         }
-        
-        const { options } = setupQuestion(0, wordsForQuiz, optionSourceWords);
-        dispatch({ type: 'START_QUIZ', payload: { quizWords: wordsForQuiz, options } });
+        const reviewUpdates = getIncorrectReviewStatUpdate(stat, isCorrect);
+        updateWordStat(word.id, { ...updates, ...reviewUpdates });
+        if (reviewUpdates.quizIncorrectCount === 0) {
+            addToast(`'${word.term}' 단어를 오답 목록에서 뺐습니다! 🎉`, "success");
+        }
     };
 
     const handleNextQuestion = () => {
         if (currentQuestionIndex < quizWords.length - 1) {
-            const optionSourceWords = selectedUnit === 'all' ? allWords : allWords.filter(w => String(w.unit) === String(selectedUnit));
-            const { options } = setupQuestion(currentQuestionIndex + 1, quizWords, optionSourceWords);
+            const { options } = setupQuestion(currentQuestionIndex + 1, quizWords, allWords);
             dispatch({ type: 'NEXT_QUESTION', payload: { options } });
+            markQuestionShown();
         } else {
+            // Reported here rather than in the reducer, which StrictMode runs twice
+            handleQuizComplete(score, quizWords.length, { answerMode: QUIZ_TYPE_SPECS[quizType].answerMode, mode });
             dispatch({ type: 'FINISH_QUIZ' });
         }
     };
@@ -1626,14 +3364,12 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ routeParams }) => {
     const handleMultipleChoiceSubmit = (option: string) => {
         if (showResult) return;
         const currentWord = quizWords[currentQuestionIndex];
-        const correctAnswers = currentWord.meaning.split('/').map(m => m.trim());
-        const isCorrect = correctAnswers.includes(option);
+        const isCorrect = isQuizAnswerCorrect(currentWord, quizType, option);
 
         dispatch({ type: 'SUBMIT_MULTIPLE_CHOICE', payload: { selectedAnswer: option, isCorrect, word: currentWord } });
-
-        if (!isCorrect) {
-            updateWordStat(currentWord.id, { quizIncorrectCount: (wordStats[currentWord.id]?.quizIncorrectCount || 0) + 1 });
-        }
+        const confusedWord = isCorrect ? undefined : findWordForChoice(option, currentWord, allWords, QUIZ_TYPE_SPECS[quizType].answerWith);
+        recordAnswer(currentWord.id, isCorrect ? 'good' : 'again', confusedWord?.id);
+        updateAnswerStats(currentWord, isCorrect);
     };
     
     const handleTypingSubmit = (e: React.FormEvent) => {
@@ -1643,48 +3379,96 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ routeParams }) => {
             return;
         }
         const currentWord = quizWords[currentQuestionIndex];
-        const correctAnswers = currentWord.meaning.split('/').map(m => m.trim());
-        const isCorrect = correctAnswers.includes(typedAnswer.trim());
+        const { verdict } = checkTypedQuizAnswer(currentWord, quizType, typedAnswer, answerStrictness);
 
-        dispatch({ type: 'SUBMIT_TYPING', payload: { isCorrect, word: currentWord } });
+        dispatch({ type: 'SUBMIT_TYPING', payload: { verdict, word: currentWord } });
+        recordAnswer(currentWord.id, ANSWER_VERDICT_GRADES[verdict]);
+        updateAnswerStats(currentWord, verdict !== 'incorrect');
 
-        if (!isCorrect) {
-            updateWordStat(currentWord.id, { quizIncorrectCount: (wordStats[currentWord.id]?.quizIncorrectCount || 0) + 1 });
-            addToast(`오답! 정답: ${correctAnswers.join(', ')}`, 'error');
+        if (verdict === 'incorrect') {
+            addToast(`오답! 정답: ${getQuizCorrectAnswers(currentWord, quizType).join(', ')}`, 'error');
         }
     };
 
+    // Running out of time counts as a wrong answer
+    const handleTimeUp = () => {
+        const currentWord = quizWords[currentQuestionIndex];
+        if (!currentWord || showResult) return;
+        if (QUIZ_TYPE_SPECS[quizType].answerMode === 'choice') {
+            dispatch({ type: 'SUBMIT_MULTIPLE_CHOICE', payload: { selectedAnswer: '', isCorrect: false, word: currentWord } });
+        } else {
+            dispatch({ type: 'SUBMIT_TYPING', payload: { verdict: 'incorrect', word: currentWord } });
+        }
+        recordAnswer(currentWord.id, 'again');
+        updateAnswerStats(currentWord, false);
+        addToast(`시간 초과! 정답: ${getQuizCorrectAnswers(currentWord, quizType).join(', ')}`, 'warning');
+    };
+
+    // Counts down from the time limit for each unanswered question; a resumed question gets the full time again
+    const [timeLeft, setTimeLeft] = useState<number | null>(null);
+    useEffect(() => {
+        if (quizState !== 'playing' || showResult || timeLimit <= 0) {
+            setTimeLeft(null);
+            return;
+        }
+        const startedAt = Date.now();
+        setTimeLeft(timeLimit);
+        const intervalId = window.setInterval(() => {
+            setTimeLeft(Math.max(0, timeLimit - Math.floor((Date.now() - startedAt) / 1000)));
+        }, 250);
+        return () => clearInterval(intervalId);
+    }, [quizState, currentQuestionIndex, showResult, timeLimit]);
+
+    useEffect(() => {
+        if (timeLeft === 0) handleTimeUp();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [timeLeft]);
+
 
     if (quizState === 'setup') {
         return (
             <div className="p-4 sm:p-8 flex flex-col items-center">
                 <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6">퀴즈 설정</h1>
+                {savedSession && <ResumeSessionPrompt entry={{ screen: 'quiz', session: savedSession }} onResume={resumeSavedQuiz} onDiscard={clearSession} />}
                 <div className="w-full max-w-md bg-slate-100 dark:bg-slate-700 p-6 rounded-lg shadow-lg space-y-6">
                     <div>
-                        <label htmlFor="unit-select" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">모드 선택</label>
+                        <label htmlFor="quiz-mode-select" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">모드 선택</label>
                         <select
-                            id="unit-select"
-                            value={String(selectedUnit)}
-                            onChange={(e) => dispatch({ type: 'CHANGE_SETUP', payload: { key: 'selectedUnit', value: e.target.value } })}
+                            id="quiz-mode-select"
+                            value={mode}
+                            onChange={(e) => dispatch({ type: 'CHANGE_SETUP', payload: { key: 'mode', value: e.target.value } })}
                             className="w-full p-3 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500"
                         >
-                            <option value="all">전체 단어 (랜덤 10문제)</option>
-                            <optgroup label="단원별 퀴즈">
-                                {units.map(unit => <option key={unit} value={unit}>단원 {unit}</option>)}
-                            </optgroup>
+                            <option value="all">전체 단어에서 랜덤 출제</option>
+                            <option value="due" disabled={dueWords.length === 0}>오늘 복습할 단어 ({dueWords.length}개)</option>
+                            <option value="incorrect" disabled={incorrectWords.length === 0}>오답 단어 복습 ({incorrectWords.length}개)</option>
                         </select>
+                        {mode === 'incorrect' && (
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">자주, 최근에 틀린 단어가 더 많이 나옵니다. 연속으로 {CORRECT_ANSWERS_PER_MISS}번 맞힐 때마다 오답 횟수가 1씩 줄어듭니다.</p>
+                        )}
                     </div>
+                    <WordFilterPanel
+                        idPrefix="quiz"
+                        filters={filters}
+                        onFiltersChange={filters => dispatch({ type: 'CHANGE_SELECTION', payload: { filters } })}
+                        eligibleWords={mode === 'due' ? dueWords : mode === 'incorrect' ? incorrectWords : undefined}
+                        questionCount={questionCount}
+                        onQuestionCountChange={questionCount => dispatch({ type: 'CHANGE_SELECTION', payload: { questionCount } })}
+                        timeLimit={timeLimit}
+                        onTimeLimitChange={timeLimit => dispatch({ type: 'CHANGE_SELECTION', payload: { timeLimit } })}
+                    />
                     <div>
                         <span className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">퀴즈 유형 선택</span>
-                        <div className="flex space-x-4">
-                            <label className="flex items-center space-x-2 cursor-pointer">
-                                <input type="radio" name="quizType" value="multiple" checked={quizType === 'multiple'} onChange={() => dispatch({ type: 'CHANGE_SETUP', payload: { key: 'quizType', value: 'multiple' } })} className="form-radio text-cyan-500 focus:ring-cyan-500"/>
-                                <span className="text-slate-700 dark:text-slate-300">객관식 (4지선다)</span>
-                            </label>
-                            <label className="flex items-center space-x-2 cursor-pointer">
-                                <input type="radio" name="quizType" value="typing" checked={quizType === 'typing'} onChange={() => dispatch({ type: 'CHANGE_SETUP', payload: { key: 'quizType', value: 'typing' } })} className="form-radio text-cyan-500 focus:ring-cyan-500"/>
-                                <span className="text-slate-700 dark:text-slate-300">주관식 (뜻 입력)</span>
-                            </label>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            {QUIZ_TYPES.map(type => (
+                                <label key={type} className="flex items-start space-x-2 cursor-pointer">
+                                    <input type="radio" name="quizType" value={type} checked={quizType === type} onChange={() => dispatch({ type: 'CHANGE_SETUP', payload: { key: 'quizType', value: type } })} className="form-radio mt-1 text-cyan-500 focus:ring-cyan-500"/>
+                                    <span className="text-slate-700 dark:text-slate-300">
+                                        {QUIZ_TYPE_SPECS[type].label}
+                                        <span className="block text-xs text-slate-500 dark:text-slate-400">{QUIZ_TYPE_SPECS[type].description}</span>
+                                    </span>
+                                </label>
+                            ))}
                         </div>
                     </div>
                     <button onClick={startQuiz} className="w-full py-3 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-md shadow-md">
@@ -1740,18 +3524,71 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ routeParams }) => {
         return <div className="p-8 text-center text-slate-600 dark:text-slate-300">퀴즈 단어 로딩 중...</div>;
     }
 
-    const correctAnswers = currentWord.meaning.split('/').map(m => m.trim());
+    const correctAnswers = getQuizCorrectAnswers(currentWord, quizType);
+    const isCorrectOption = (option: string) => isQuizAnswerCorrect(currentWord, quizType, option);
+    const typedResult = showResult && QUIZ_TYPE_SPECS[quizType].answerMode === 'input'
+        ? checkTypedQuizAnswer(currentWord, quizType, typedAnswer, answerStrictness)
+        : null;
+
+    const renderQuestionPrompt = () => {
+        switch (quizType) {
+            case 'reverseMultiple':
+            case 'reverseTyping':
+                return (
+                    <>
+                        <p className="text-slate-500 dark:text-slate-400 text-sm mb-1">다음 뜻을 가진 영어 단어는 무엇일까요?</p>
+                        <h2 className="text-3xl sm:text-4xl font-bold text-slate-800 dark:text-white">{currentWord.meaning}</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{currentWord.partOfSpeech}</p>
+                    </>
+                );
+            case 'listening':
+                return (
+                    <>
+                        <p className="text-slate-500 dark:text-slate-400 text-sm mb-3">발음을 듣고 알맞은 뜻을 고르세요.</p>
+                        <button
+                            onClick={() => speak(currentWord.term, undefined, userSettings.speechRate)}
+                            className="text-5xl sm:text-6xl hover:scale-110 transition-transform"
+                            aria-label="발음 다시 듣기"
+                        >
+                            🔊
+                        </button>
+                        {showResult && <p className="text-2xl font-bold text-slate-800 dark:text-white mt-2">{currentWord.term}</p>}
+                    </>
+                );
+            case 'cloze':
+                return (
+                    <>
+                        <p className="text-slate-500 dark:text-slate-400 text-sm mb-2">빈칸에 알맞은 단어를 고르세요.</p>
+                        <p className="text-xl sm:text-2xl font-semibold text-slate-800 dark:text-white">
+                            {showResult ? currentWord.exampleSentence : createClozeSentence(currentWord) ?? CLOZE_BLANK}
+                        </p>
+                        {currentWord.exampleSentenceMeaning && <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">{currentWord.exampleSentenceMeaning}</p>}
+                    </>
+                );
+            default:
+                return (
+                    <>
+                        <p className="text-slate-500 dark:text-slate-400 text-sm mb-1">다음 단어의 뜻은 무엇일까요?</p>
+                        <h2 className="text-4xl sm:text-5xl font-bold text-slate-800 dark:text-white">{currentWord.term}</h2>
+                    </>
+                );
+        }
+    };
     
     return (
         <div className="p-4 sm:p-8 flex flex-col items-center">
             <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6">퀴즈 ({currentQuestionIndex + 1} / {quizWords.length})</h1>
+            {timeLeft !== null && (
+                <p className={`-mt-4 mb-4 text-lg font-semibold ${timeLeft <= 3 ? 'text-red-500 animate-pulse' : 'text-slate-600 dark:text-slate-300'}`} aria-live="polite">
+                    ⏱️ {timeLeft}초
+                </p>
+            )}
             <div className="w-full max-w-xl bg-slate-100 dark:bg-slate-700 rounded-xl shadow-2xl p-6 sm:p-8">
                 <div className="text-center mb-6">
-                    <p className="text-slate-500 dark:text-slate-400 text-sm mb-1">다음 단어의 뜻은 무엇일까요?</p>
-                    <h2 className="text-4xl sm:text-5xl font-bold text-slate-800 dark:text-white">{currentWord.term}</h2>
+                    {renderQuestionPrompt()}
                 </div>
 
-                {quizType === 'multiple' ? (
+                {QUIZ_TYPE_SPECS[quizType].answerMode === 'choice' ? (
                     <>
                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 mb-6">
                             {options.map((option, index) => (
@@ -1761,7 +3598,7 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ routeParams }) => {
                                     disabled={showResult}
                                     className={`w-full p-3 sm:p-4 text-left rounded-lg shadow-md transition-all duration-150 ease-in-out
                                         ${showResult
-                                            ? correctAnswers.includes(option)
+                                            ? isCorrectOption(option)
                                                 ? 'bg-green-500 text-white ring-2 ring-green-300 scale-105'
                                                 : selectedAnswer === option
                                                     ? 'bg-red-500 text-white ring-2 ring-red-300' 
@@ -1782,21 +3619,23 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ routeParams }) => {
                             </button>
                         )}
                     </>
-                ) : ( // Typing quiz
+                ) : ( // Typed answer
                     <form onSubmit={handleTypingSubmit}>
                         <input
                             type="text"
                             value={typedAnswer}
                             onChange={(e) => dispatch({ type: 'CHANGE_SETUP', payload: { key: 'typedAnswer', value: e.target.value } })}
-                            className={`w-full p-4 text-center text-xl bg-white dark:bg-slate-600 text-slate-900 dark:text-white rounded-md border-2 shadow-inner transition-all ${showResult ? (correctAnswers.includes(typedAnswer.trim()) ? 'border-green-500 ring-2 ring-green-500' : 'border-red-500 ring-2 ring-red-500') : inputFeedbackStyle}`}
-                            placeholder="정답을 입력하세요"
+                            className={`w-full p-4 text-center text-xl bg-white dark:bg-slate-600 text-slate-900 dark:text-white rounded-md border-2 shadow-inner transition-all ${typedResult ? TYPED_ANSWER_STYLES[typedResult.verdict] : inputFeedbackStyle}`}
+                            placeholder={QUIZ_TYPE_SPECS[quizType].answerWith === 'term' ? "영어 단어를 입력하세요" : "정답을 입력하세요"}
                             autoFocus
                             readOnly={showResult}
                         />
-                         {showResult && (
+                         {typedResult && (
                             <div className="mt-2 text-center text-lg">
-                                {correctAnswers.includes(typedAnswer.trim()) ? (
+                                {typedResult.verdict === 'correct' ? (
                                     <p className="text-green-600 dark:text-green-400 font-semibold">정답입니다!</p>
+                                ) : typedResult.verdict === 'almost' ? (
+                                    <p className="text-yellow-600 dark:text-yellow-400 font-semibold">거의 맞았어요! 정확한 답: {typedResult.expected}</p>
                                 ) : (
                                     <p className="text-red-600 dark:text-red-400 font-semibold">오답! 정답: {correctAnswers.join(', ')}</p>
                                 )}
@@ -1821,26 +3660,34 @@ const EditWordModal = React.memo(({
     word, 
     onSave, 
     onCancel, 
-    isCustomWordOnly, 
+    isCustomized, 
+    onRevert, 
 }: { 
     word: Word, 
     onSave: (updatedWord: Word) => Promise<{success: boolean}>, 
     onCancel: () => void, 
-    isCustomWordOnly?: boolean, 
+    isCustomized?: boolean, // Built-in word that has user overrides
+    onRevert?: () => void, 
 }) => {
     const { addToast } = useToasts();
-    const { setGlobalLoading } = useAppContext();
+    const getUnmountSignal = useUnmountSignal();
     const [editableWord, setEditableWord] = useState<Word>(JSON.parse(JSON.stringify(word))); 
     const [isFetchingModalAIDetails, setIsFetchingModalAIDetails] = useState(false);
     const [isFetchingModalAIImage, setIsFetchingModalAIImage] = useState(false);
-    const [modalAiImage, setModalAiImage] = useState<string | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    // The image generated for this word in an earlier session, if one was saved
+    const storedImageUrl = useWordImageUrl(word.id);
+    // Shown until the stored copy reloads, or instead of it where images can't be stored
+    const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
+    const modalAiImage = generatedImageUrl ?? storedImageUrl;
 
     useEffect(() => {
         setEditableWord(JSON.parse(JSON.stringify(word)));
-        setModalAiImage(null); 
+        setGeneratedImageUrl(null);
     }, [word]);
 
+    useEffect(() => () => { if (generatedImageUrl) URL.revokeObjectURL(generatedImageUrl); }, [generatedImageUrl]);
+
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
         setEditableWord(prev => ({ ...prev, [name]: value }));
@@ -1852,11 +3699,11 @@ const EditWordModal = React.memo(({
             return;
         }
         setIsFetchingModalAIDetails(true);
-        const details = await generateWordDetailsWithGemini(editableWord.term.trim(), addToast, setGlobalLoading);
+        const details = await generateWordDetailsWithAI(editableWord.term.trim(), addToast, { signal: getUnmountSignal() });
         if (details) {
             setEditableWord(prev => ({
                 ...prev,
-                term: details.term || prev.term,
+                term: canEditIdentity ? details.term || prev.term : prev.term,
                 pronunciation: details.pronunciation || prev.pronunciation,
                 meaning: details.meaning || prev.meaning,
                 partOfSpeech: details.partOfSpeech || prev.partOfSpeech,
@@ -1867,20 +3714,30 @@ const EditWordModal = React.memo(({
         setIsFetchingModalAIDetails(false);
     };
 
-    const handleGenerateModalAiImage = async () => {
+    // A cached image for the term is reused unless `redraw` asks for a new one
+    const handleGenerateModalAiImage = async (redraw = false) => {
          if (!editableWord.term?.trim()) {
             addToast("AI 이미지를 생성할 단어를 입력해주세요.", "warning");
             return;
         }
         setIsFetchingModalAIImage(true);
-        setModalAiImage(null);
-        const imageData = await generateImageForWordWithGemini(editableWord.term.trim(), addToast, setGlobalLoading);
-        if(imageData) {
-            setModalAiImage(`data:image/jpeg;base64,${imageData}`);
+        const image = await generateImageForWordWithAI(editableWord.term.trim(), addToast, { signal: getUnmountSignal(), bypassCache: redraw });
+        if(image) {
+            setGeneratedImageUrl(URL.createObjectURL(image));
+            saveWordImage(word.id, image)
+                .then(notifyWordImagesChanged)
+                .catch(error => console.error("Error saving generated word image:", error));
         }
         setIsFetchingModalAIImage(false);
     };
 
+    // Fills the form; the example becomes the word's own once the form is saved
+    const handlePinExample = (example: GeneratedExample) => {
+        setEditableWord(prev => ({ ...prev, exampleSentence: example.sentence, exampleSentenceMeaning: example.meaning }));
+        addToast("예문을 채웠습니다. 저장하면 대표 예문으로 적용됩니다.", "info");
+        return true;
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsSubmitting(true);
@@ -1888,91 +3745,109 @@ const EditWordModal = React.memo(({
         setIsSubmitting(false); 
     };
     
-    const canEditFields = word.isCustom || !isCustomWordOnly;
-    const missingApiKey = !process.env.API_KEY;
-    const aiOperationsDisabledByKeyOrQuota = missingApiKey || isCurrentlyGeminiQuotaExhausted;
+    // Term and grade identify a built-in word in the dataset, so only custom words may change them
+    const canEditIdentity = !!word.isCustom;
+    const missingApiKey = !aiProvider;
+    const aiOperationsDisabledByKeyOrQuota = missingApiKey || isAIQuotaExhausted;
     const isAnyAIFetchingInProgress = isFetchingModalAIDetails || isFetchingModalAIImage;
     const isModalBusyWithActivity = isAnyAIFetchingInProgress || isSubmitting;
 
-    const getAIOperationDisabledReasonText = (isForFillDetailsButton: boolean): string | null => {
-        if (isForFillDetailsButton && !canEditFields) return "사용자 단어만 가능";
+    const getAIOperationDisabledReasonText = (): string | null => {
         if (missingApiKey) return "API Key 필요";
-        if (isCurrentlyGeminiQuotaExhausted) return "Quota 소진";
+        if (isAIQuotaExhausted) return "Quota 소진";
         return null;
     };
     
-    const fillDetailsActionDisabledReason = getAIOperationDisabledReasonText(true);
-    const imageGenerationActionDisabledReason = getAIOperationDisabledReasonText(false);
+    const aiOperationDisabledReason = getAIOperationDisabledReasonText();
 
     return (
         <div role="dialog" aria-modal="true" aria-labelledby={`edit-word-modal-title-${word.id}`} className="fixed inset-0 bg-slate-900/75 dark:bg-slate-900/80 flex justify-center items-center p-4 z-50 overflow-y-auto animate-fadeIn">
             <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-lg space-y-3 my-4 custom-scrollbar max-h-[90vh]">
-                <h3 id={`edit-word-modal-title-${word.id}`} className="text-xl font-semibold text-cyan-600 dark:text-cyan-400">단어 {canEditFields ? '수정' : '세부정보'}: {word.term}</h3>
+                <h3 id={`edit-word-modal-title-${word.id}`} className="text-xl font-semibold text-cyan-600 dark:text-cyan-400">단어 수정: {word.term}</h3>
+                {!word.isCustom && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400">기본 제공 단어입니다. 수정한 내용은 나의 수정본으로 따로 저장되며 언제든 원래대로 되돌릴 수 있습니다.</p>
+                )}
                 <div>
                     <label htmlFor={`term-modal-${word.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300">단어 (필수)</label>
-                    <input type="text" name="term" id={`term-modal-${word.id}`} value={editableWord.term} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" required disabled={!canEditFields}/>
+                    <input type="text" name="term" id={`term-modal-${word.id}`} value={editableWord.term} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" required disabled={!canEditIdentity}/>
                 </div>
                  <button
                     type="button"
                     onClick={handleAIFillDetails}
-                    disabled={isModalBusyWithActivity || aiOperationsDisabledByKeyOrQuota || !canEditFields}
+                    disabled={isModalBusyWithActivity || aiOperationsDisabledByKeyOrQuota}
                     className="w-full my-1 py-2 px-3 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-md shadow-sm disabled:opacity-50 flex items-center justify-center text-sm"
                 >
                     <span role="img" aria-label="ai" className="mr-2">✨</span>
                     {isFetchingModalAIDetails ? 'AI 정보 가져오는 중...' : 'AI로 나머지 정보 채우기'}
-                    {fillDetailsActionDisabledReason && <span className="text-xs ml-1">({fillDetailsActionDisabledReason})</span>}
+                    {aiOperationDisabledReason && <span className="text-xs ml-1">({aiOperationDisabledReason})</span>}
                 </button>
                 <div>
                     <label htmlFor={`meaning-modal-${word.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300">뜻 (필수)</label>
-                    <input type="text" name="meaning" id={`meaning-modal-${word.id}`} value={editableWord.meaning} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" required disabled={!canEditFields}/>
+                    <input type="text" name="meaning" id={`meaning-modal-${word.id}`} value={editableWord.meaning} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" required />
                 </div>
                 <div>
                     <label htmlFor={`partOfSpeech-modal-${word.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300">품사 (필수)</label>
-                    <input type="text" name="partOfSpeech" id={`partOfSpeech-modal-${word.id}`} value={editableWord.partOfSpeech} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" required disabled={!canEditFields}/>
+                    <input type="text" name="partOfSpeech" id={`partOfSpeech-modal-${word.id}`} value={editableWord.partOfSpeech} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" required />
                 </div>
                 <div>
                     <label htmlFor={`pronunciation-modal-${word.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300">발음기호 (선택)</label>
-                    <input type="text" name="pronunciation" id={`pronunciation-modal-${word.id}`} value={editableWord.pronunciation || ''} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" disabled={!canEditFields}/>
+                    <input type="text" name="pronunciation" id={`pronunciation-modal-${word.id}`} value={editableWord.pronunciation || ''} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" />
                 </div>
                 <div>
                     <label htmlFor={`exampleSentence-modal-${word.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300">예문 (필수)</label>
-                    <textarea name="exampleSentence" id={`exampleSentence-modal-${word.id}`} value={editableWord.exampleSentence} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" rows={2} required disabled={!canEditFields}/>
+                    <textarea name="exampleSentence" id={`exampleSentence-modal-${word.id}`} value={editableWord.exampleSentence} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" rows={2} required />
                 </div>
                 <div>
                     <label htmlFor={`exampleSentenceMeaning-modal-${word.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300">예문 뜻 (선택)</label>
-                    <textarea name="exampleSentenceMeaning" id={`exampleSentenceMeaning-modal-${word.id}`} value={editableWord.exampleSentenceMeaning || ''} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" rows={2} disabled={!canEditFields}/>
+                    <textarea name="exampleSentenceMeaning" id={`exampleSentenceMeaning-modal-${word.id}`} value={editableWord.exampleSentenceMeaning || ''} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" rows={2} />
                 </div>
+                <ExampleSentenceExplorer word={editableWord} onPin={handlePinExample} />
                  <div>
                     <label htmlFor={`gradeLevel-modal-${word.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300">학년 (필수)</label>
-                    <select name="gradeLevel" id={`gradeLevel-modal-${word.id}`} value={editableWord.gradeLevel} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" disabled={!canEditFields}>
+                    <select name="gradeLevel" id={`gradeLevel-modal-${word.id}`} value={editableWord.gradeLevel} onChange={handleChange} className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" disabled={!canEditIdentity}>
                         <option value="middle1">중1</option>
                         <option value="middle2">중2</option>
                         <option value="middle3">중3</option>
                     </select>
                 </div>
+                <div>
+                    <label htmlFor={`unit-modal-${word.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300">단원 (선택)</label>
+                    <input type="number" name="unit" id={`unit-modal-${word.id}`} value={editableWord.unit ?? ''} onChange={handleChange} min="1" className="w-full p-2 mt-1 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded border border-slate-300 dark:border-slate-600" />
+                </div>
 
                 <button
                     type="button"
-                    onClick={handleGenerateModalAiImage}
+                    onClick={() => handleGenerateModalAiImage()}
                     disabled={isModalBusyWithActivity || aiOperationsDisabledByKeyOrQuota}
                     className="w-full my-1 py-2 px-3 bg-purple-500 hover:bg-purple-600 text-white font-semibold rounded-md shadow-sm disabled:opacity-50 flex items-center justify-center text-sm"
                 >
                     <span role="img" aria-label="ai image" className="mr-2">🎨</span>
                     {isFetchingModalAIImage ? 'AI 이미지 생성 중...' : 'AI 이미지 생성 보기'}
-                    {imageGenerationActionDisabledReason && <span className="text-xs ml-1">({imageGenerationActionDisabledReason})</span>}
+                    {aiOperationDisabledReason && <span className="text-xs ml-1">({aiOperationDisabledReason})</span>}
                 </button>
                 {isFetchingModalAIImage && <p className="text-purple-600 dark:text-purple-400 text-center text-sm">AI 이미지 로딩 중...</p>}
                 {modalAiImage && (
                     <div className="mt-2 p-2 bg-slate-100 dark:bg-slate-700 rounded-md animate-fadeIn">
                         <img src={modalAiImage} alt={`AI generated for ${editableWord.term}`} className="w-full max-w-xs mx-auto rounded shadow"/>
+                        <button
+                            type="button"
+                            onClick={() => handleGenerateModalAiImage(true)}
+                            disabled={isModalBusyWithActivity || aiOperationsDisabledByKeyOrQuota}
+                            className="block mx-auto mt-2 text-xs text-purple-600 dark:text-purple-400 hover:underline disabled:opacity-50"
+                        >
+                            🔄 새로 그리기
+                        </button>
                     </div>
                 )}
 
                 <div className="flex justify-end space-x-3 pt-2">
+                    {isCustomized && onRevert && (
+                        <button type="button" onClick={onRevert} className="mr-auto px-4 py-2 bg-amber-500 hover:bg-amber-600 rounded text-white" disabled={isModalBusyWithActivity}>원래대로 되돌리기</button>
+                    )}
                     <button type="button" onClick={onCancel} className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 rounded text-slate-700 dark:text-white">취소</button>
-                    {canEditFields && <button type="submit" className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white" disabled={isModalBusyWithActivity}>
+                    <button type="submit" className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white" disabled={isModalBusyWithActivity}>
                       {isSubmitting ? '저장 중...' : '저장'}
-                    </button>}
+                    </button>
                 </div>
             </form>
         </div>
@@ -1981,27 +3856,31 @@ const EditWordModal = React.memo(({
 
 // AllWordsScreen WordRow component (Memoized)
 interface WordRowProps {
-  wordData: Word & { stat: WordStat };
+  wordData: Word & { stat: WordStat; isCustomized: boolean };
   toggleMastered: (word: Word) => void;
   handleEditWord: (word: Word) => void;
   handleDeleteClick: (word: Word) => void;
+  hasImage: boolean; // Only rows with a stored image look it up
 }
-const WordRow: React.FC<WordRowProps> = React.memo(({ wordData, toggleMastered, handleEditWord, handleDeleteClick }) => {
+const WordRow: React.FC<WordRowProps> = React.memo(({ wordData, toggleMastered, handleEditWord, handleDeleteClick, hasImage }) => {
     const { userSettings } = useAppContext();
     const word = wordData; 
+    const imageUrl = useWordImageUrl(word.id, hasImage);
     return (
         <li className={`p-4 rounded-lg shadow transition-colors ${word.stat.isMastered ? 'bg-slate-200/70 dark:bg-slate-700/70 hover:bg-slate-300/70 dark:hover:bg-slate-600/70' : 'bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600'}`}>
             <div className="flex justify-between items-start">
-                <div>
+                {imageUrl && <img src={imageUrl} alt={word.term} className="w-14 h-14 object-cover rounded mr-3 flex-shrink-0" />}
+                <div className="flex-grow">
                     <h3 className={`text-xl font-semibold ${word.stat.isMastered ? 'text-green-600 dark:text-green-400' : 'text-cyan-700 dark:text-cyan-300'}`}>
                         {word.term} 
                         {word.stat.isMastered && <span className="text-xs bg-green-500 text-white dark:text-slate-900 px-1.5 py-0.5 rounded-full ml-2">완료</span>}
                         {word.isCustom && !word.stat.isMastered && <span className="text-xs bg-yellow-500 text-slate-900 px-1.5 py-0.5 rounded-full ml-2">나의 단어</span>}
                         {word.isCustom && word.stat.isMastered && <span className="text-xs bg-yellow-500 text-slate-900 px-1.5 py-0.5 rounded-full ml-2">나의 단어</span>}
+                        {word.isCustomized && <span className="text-xs bg-amber-500 text-slate-900 px-1.5 py-0.5 rounded-full ml-2" title="기본 단어를 직접 수정했습니다">수정됨</span>}
                         {word.unit && <span className="text-xs bg-blue-500 text-white dark:text-slate-900 px-1.5 py-0.5 rounded-full ml-2">Unit {word.unit}</span>}
                     </h3>
                     <p className="text-sm text-slate-600 dark:text-slate-300">{word.partOfSpeech} - {word.meaning}</p>
-                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">학년: {word.gradeLevel} | 복습: {word.stat.lastReviewed ? new Date(word.stat.lastReviewed).toLocaleDateString() : '안함'} | 오답: {word.stat.quizIncorrectCount}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">학년: {word.gradeLevel} | 복습: {word.stat.lastReviewed ? new Date(word.stat.lastReviewed).toLocaleDateString() : '안함'} | 다음 복습: {word.stat.dueDate ? new Date(word.stat.dueDate).toLocaleDateString() : '미정'} | 오답: {word.stat.quizIncorrectCount}</p>
                 </div>
                 <div className="flex flex-col sm:flex-row space-y-1 sm:space-y-0 sm:space-x-1 flex-shrink-0 ml-2 items-end">
                     <button onClick={() => speak(word.term, undefined, userSettings.speechRate)} className="text-slate-500 dark:text-slate-400 hover:text-cyan-500 dark:hover:text-cyan-400 text-xl p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-500" aria-label={`${word.term} 발음 듣기`}>
@@ -2014,25 +3893,17 @@ const WordRow: React.FC<WordRowProps> = React.memo(({ wordData, toggleMastered,
                     >
                         {word.stat.isMastered ? '🔄 학습 필요' : '✅ 완료'}
                     </button>
-                    {word.isCustom ? (
-                        <>
-                            <button 
-                                onClick={() => handleEditWord(word)} 
-                                className="text-yellow-600 dark:text-yellow-400 hover:text-yellow-500 dark:hover:text-yellow-300 p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-500 text-sm whitespace-nowrap"
-                                aria-label={`${word.term} 수정`}
-                            >✏️ 수정</button>
-                            <button 
-                                onClick={() => handleDeleteClick(word)} 
-                                className="text-red-500 dark:text-red-400 hover:text-red-600 dark:hover:text-red-300 p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-500 text-sm whitespace-nowrap"
-                                aria-label={`${word.term} 삭제`}
-                            >🗑️ 삭제</button>
-                        </>
-                    ) : (
+                    <button 
+                        onClick={() => handleEditWord(word)} 
+                        className="text-yellow-600 dark:text-yellow-400 hover:text-yellow-500 dark:hover:text-yellow-300 p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-500 text-sm whitespace-nowrap"
+                        aria-label={`${word.term} 수정`}
+                    >✏️ 수정</button>
+                    {word.isCustom && (
                         <button 
-                            onClick={() => handleEditWord(word)} 
-                            className="text-sky-600 dark:text-sky-400 hover:text-sky-500 dark:hover:text-sky-300 p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-500 text-sm whitespace-nowrap"
-                            aria-label={`${word.term} 세부 정보 보기`}
-                        >ℹ️ 정보</button>
+                            onClick={() => handleDeleteClick(word)} 
+                            className="text-red-500 dark:text-red-400 hover:text-red-600 dark:hover:text-red-300 p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-500 text-sm whitespace-nowrap"
+                            aria-label={`${word.term} 삭제`}
+                        >🗑️ 삭제</button>
                     )}
                 </div>
             </div>
@@ -2052,8 +3923,9 @@ const WordRow: React.FC<WordRowProps> = React.memo(({ wordData, toggleMastered,
 
 // AllWords Screen Component
 const AllWordsScreen: React.FC = () => {
-    const { userSettings, allWords, wordStats, handleDeleteCustomWord, handleSaveCustomWord, updateWordStat } = useAppContext();
+    const { userSettings, allWords, wordStats, wordOverrides, handleDeleteCustomWord, handleSaveCustomWord, handleSaveWordOverride, handleRevertWordOverride, updateWordStat } = useAppContext();
     const { addToast } = useToasts();
+    const imageIds = useWordImageIds();
     
     const [searchTerm, setSearchTerm] = useState('');
     const [filterGrade, setFilterGrade] = useState<string>(userSettings.grade || 'all');
@@ -2079,9 +3951,9 @@ const AllWordsScreen: React.FC = () => {
         .filter(word => filterGrade === 'all' || word.gradeLevel === filterGrade)
         .filter(word => filterUnit === 'all' || String(word.unit) === filterUnit)
         .filter(word => word.term.toLowerCase().includes(searchTerm.toLowerCase()) || word.meaning.toLowerCase().includes(searchTerm.toLowerCase()))
-        .map(word => ({ ...word, stat: getWordStat(word.id) })) 
+        .map(word => ({ ...word, stat: getWordStat(word.id), isCustomized: !word.isCustom && !!wordOverrides[word.id] })) 
         .sort((a,b) => a.term.localeCompare(b.term));
-    }, [allWords, filterGrade, filterUnit, searchTerm, getWordStat]);
+    }, [allWords, filterGrade, filterUnit, searchTerm, getWordStat, wordOverrides]);
 
 
     const handleEditWord = useCallback((word: Word) => {
@@ -2098,12 +3970,23 @@ const AllWordsScreen: React.FC = () => {
                 addToast(`단어 수정 실패: '${updatedWord.term}'은(는) 다른 단어와 중복될 수 없습니다.`, "error");
             }
             return result;
-        } else {
-            addToast("기본 제공 단어는 이 화면에서 직접 수정할 수 없습니다. '나의 단어'만 수정 가능합니다.", "info");
+        }
+        const result = handleSaveWordOverride(updatedWord);
+        if (result.success) {
             setEditingWord(null);
-            return { success: true };
+            addToast(`'${updatedWord.term}' 단어의 수정 내용을 저장했습니다.`, "success");
+        } else {
+            addToast(`단어 수정 실패: ${result.reason}`, "error");
         }
-    }, [handleSaveCustomWord, addToast]);
+        return result;
+    }, [handleSaveCustomWord, handleSaveWordOverride, addToast]);
+
+    const handleRevertEdit = useCallback(() => {
+        if (!editingWord) return;
+        handleRevertWordOverride(editingWord.id);
+        setEditingWord(null);
+        addToast(`'${editingWord.term}' 단어를 원래 내용으로 되돌렸습니다.`, "info");
+    }, [editingWord, handleRevertWordOverride, addToast]);
 
     const handleDeleteClick = useCallback((word: Word) => {
         setWordToDelete(word);
@@ -2120,7 +4003,11 @@ const AllWordsScreen: React.FC = () => {
 
     const toggleMastered = useCallback((word: Word) => {
         const currentStat = getWordStat(word.id);
-        updateWordStat(word.id, { isMastered: !currentStat.isMastered });
+        const today = getTodayDateString();
+        // Keep the review schedule consistent with the manual mastery toggle
+        updateWordStat(word.id, currentStat.isMastered
+            ? { isMastered: false, interval: 0, repetitions: 0, dueDate: today }
+            : { isMastered: true, interval: SRS_MASTERED_INTERVAL_DAYS, dueDate: addDaysToDateString(today, SRS_MASTERED_INTERVAL_DAYS) });
         addToast(
             `'${word.term}' 단어를 ${!currentStat.isMastered ? '완료' : '학습 필요'} 상태로 변경했습니다.`,
             !currentStat.isMastered ? "success" : "info"
@@ -2171,13 +4058,22 @@ const AllWordsScreen: React.FC = () => {
                             toggleMastered={toggleMastered}
                             handleEditWord={handleEditWord}
                             handleDeleteClick={handleDeleteClick}
+                            hasImage={imageIds.has(String(word.id))}
                         />
                     ))}
                 </ul>
             ) : (
                 <p className="text-center text-slate-500 dark:text-slate-400 py-8">해당 조건에 맞는 단어가 없습니다.</p>
             )}
-            {editingWord && <EditWordModal word={editingWord} onSave={handleSaveEdit} onCancel={() => setEditingWord(null)} isCustomWordOnly={!editingWord.isCustom} />}
+            {editingWord && (
+                <EditWordModal
+                    word={editingWord}
+                    onSave={handleSaveEdit}
+                    onCancel={() => setEditingWord(null)}
+                    isCustomized={!editingWord.isCustom && !!wordOverrides[editingWord.id]}
+                    onRevert={handleRevertEdit}
+                />
+            )}
             {wordToDelete && (
                 <ConfirmationModal
                     isOpen={showConfirmDeleteModal}
@@ -2192,9 +4088,192 @@ const AllWordsScreen: React.FC = () => {
 };
 
 // Stats Screen Component
+interface ActivityCalendarProps {
+    activityCounts: Record<string, number>;
+    frozenDates: string[];
+}
+
+// Month view heatmap: cell colour scales with the number of answers logged that day
+const ActivityCalendar: React.FC<ActivityCalendarProps> = ({ activityCounts, frozenDates }) => {
+    const [monthOffset, setMonthOffset] = useState(0);
+    const today = getTodayDateString();
+
+    const { year, month, cells } = useMemo(() => {
+        const now = new Date();
+        const firstOfMonth = new Date(now.getFullYear(), now.getMonth() + monthOffset, 1);
+        const daysInMonth = new Date(firstOfMonth.getFullYear(), firstOfMonth.getMonth() + 1, 0).getDate();
+        const leadingBlanks: (string | null)[] = Array(firstOfMonth.getDay()).fill(null);
+        const days = Array.from({ length: daysInMonth }, (_, i) =>
+            formatLocalDateString(new Date(firstOfMonth.getFullYear(), firstOfMonth.getMonth(), i + 1))
+        );
+        return { year: firstOfMonth.getFullYear(), month: firstOfMonth.getMonth() + 1, cells: [...leadingBlanks, ...days] };
+    }, [monthOffset]);
+
+    const getCellClass = (count: number) => {
+        if (count === 0) return 'bg-slate-200 dark:bg-slate-600';
+        if (count < 10) return 'bg-cyan-200 dark:bg-cyan-900';
+        if (count < 30) return 'bg-cyan-400 dark:bg-cyan-700';
+        return 'bg-cyan-600 dark:bg-cyan-500 text-white';
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <button onClick={() => setMonthOffset(prev => prev - 1)} className="px-2 py-1 text-sm rounded hover:bg-slate-200 dark:hover:bg-slate-600" aria-label="이전 달">◀</button>
+                <span className="font-semibold text-slate-700 dark:text-slate-200">{year}년 {month}월</span>
+                <button onClick={() => setMonthOffset(prev => prev + 1)} disabled={monthOffset >= 0} className="px-2 py-1 text-sm rounded hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-30" aria-label="다음 달">▶</button>
+            </div>
+            <div className="grid grid-cols-7 gap-1 text-center text-xs">
+                {['일', '월', '화', '수', '목', '금', '토'].map(day => (
+                    <div key={day} className="text-slate-500 dark:text-slate-400">{day}</div>
+                ))}
+                {cells.map((date, index) => {
+                    if (!date) return <div key={`blank-${index}`} />;
+                    const count = activityCounts[date] || 0;
+                    const isFrozen = frozenDates.includes(date);
+                    return (
+                        <div
+                            key={date}
+                            className={`aspect-square flex items-center justify-center rounded ${isFrozen && count === 0 ? 'bg-sky-100 dark:bg-sky-900' : getCellClass(count)} ${date === today ? 'ring-2 ring-cyan-500' : ''}`}
+                            title={isFrozen && count === 0 ? `${date}: 스트릭 프리즈 사용` : `${date}: ${count}문항`}
+                        >
+                            {isFrozen && count === 0 ? '❄️' : Number(date.slice(8))}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+interface ImportDataModalProps {
+    isOpen: boolean;
+    onCancel: () => void;
+}
+
+const ImportDataModal: React.FC<ImportDataModalProps> = ({ isOpen, onCancel }) => {
+    const { allWords, handleImportLearningData } = useAppContext();
+    const [backup, setBackup] = useState<LearningDataBackup | null>(null);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [mode, setMode] = useState<BackupImportMode>('merge');
+
+    useEffect(() => {
+        if (isOpen) {
+            setBackup(null);
+            setErrors([]);
+            setMode('merge');
+        }
+    }, [isOpen]);
+
+    const plan = useMemo(() => backup ? planBackupImport(backup, allWords) : null, [backup, allWords]);
+
+    if (!isOpen) return null;
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        try {
+            const result = parseLearningDataBackup(JSON.parse(await file.text()));
+            setBackup(result.backup);
+            setErrors(result.errors);
+        } catch (error) {
+            console.error("Error reading backup file:", error);
+            setBackup(null);
+            setErrors(["JSON 파일을 읽을 수 없습니다."]);
+        }
+    };
+
+    const handleConfirm = () => {
+        if (!backup) return;
+        handleImportLearningData(backup, mode);
+        onCancel();
+    };
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="import-data-modal-title" className="fixed inset-0 bg-slate-900/75 dark:bg-slate-900/80 flex justify-center items-center p-4 z-[60] animate-fadeIn">
+            <div className="bg-white dark:bg-slate-800 p-6 sm:p-8 rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar">
+                <h3 id="import-data-modal-title" className="text-2xl font-bold text-cyan-600 dark:text-cyan-400 mb-6 text-center">학습 데이터 가져오기</h3>
+                <input
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleFileChange}
+                    className="w-full text-sm text-slate-700 dark:text-slate-300 file:mr-3 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-cyan-500 file:text-white hover:file:bg-cyan-600"
+                />
+
+                {errors.length > 0 && (
+                    <ul className="mt-4 p-3 bg-red-100 dark:bg-red-900/40 rounded-md text-sm text-red-700 dark:text-red-300 space-y-1">
+                        {errors.slice(0, 10).map((error, index) => <li key={index}>• {error}</li>)}
+                        {errors.length > 10 && <li>외 {errors.length - 10}개 오류</li>}
+                    </ul>
+                )}
+
+                {backup && plan && (
+                    <div className="mt-4 space-y-4 text-sm text-slate-700 dark:text-slate-300">
+                        <div className="p-3 bg-slate-100 dark:bg-slate-700 rounded-md space-y-1">
+                            <p>사용자: <span className="font-semibold">{backup.userSettings.username}</span> (레벨 {backup.userSettings.level})</p>
+                            {backup.exportedAt && <p>내보낸 시각: {new Date(backup.exportedAt).toLocaleString('ko-KR')}</p>}
+                            <p>나의 단어 {backup.customWords.length}개 · 학습 상태 {Object.keys(backup.wordStats).length}개 · 학습 기록 {backup.reviewLog.length}건</p>
+                        </div>
+                        <div className="p-3 bg-slate-100 dark:bg-slate-700 rounded-md space-y-1">
+                            <p>새 단어: <span className="font-semibold text-green-600 dark:text-green-400">{plan.newWords.length}개</span></p>
+                            <p>이미 있는 동일 단어: {plan.identicalWords.length}개</p>
+                            <p>내용이 다른 중복 단어: <span className="font-semibold text-amber-600 dark:text-amber-400">{plan.conflicts.length}개</span></p>
+                            {plan.conflicts.length > 0 && (
+                                <ul className="max-h-32 overflow-y-auto custom-scrollbar mt-2 space-y-1">
+                                    {plan.conflicts.map(({ backupWord, existingWord }) => (
+                                        <li key={String(backupWord.id)} className="p-1.5 bg-slate-200 dark:bg-slate-600 rounded">
+                                            <span className="font-semibold">{backupWord.term}</span>: 현재 "{existingWord.meaning}" ↔ 백업 "{backupWord.meaning}"
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                        <fieldset className="space-y-2">
+                            <legend className="font-medium mb-1">가져오기 방식</legend>
+                            <label className="flex items-start gap-2">
+                                <input type="radio" name="import-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1" />
+                                <span><span className="font-semibold">병합</span> — 새 단어와 학습 기록만 추가합니다. 중복 단어는 현재 내용을 유지하고, 학습 상태는 더 최근 기록을 사용합니다.</span>
+                            </label>
+                            <label className="flex items-start gap-2">
+                                <input type="radio" name="import-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1" />
+                                <span><span className="font-semibold">교체</span> — 설정, 나의 단어, 학습 상태와 기록을 모두 백업 내용으로 바꿉니다.</span>
+                            </label>
+                        </fieldset>
+                    </div>
+                )}
+
+                <div className="flex justify-end space-x-3 mt-6">
+                    <button onClick={onCancel} className="px-4 py-2 rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 dark:text-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500">취소</button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={!backup}
+                        className={`px-4 py-2 rounded-md text-white disabled:opacity-50 ${mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-cyan-500 hover:bg-cyan-600'}`}
+                    >
+                        {mode === 'replace' ? '교체하기' : '병합하기'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 const StatsScreen: React.FC = () => {
-    const { userSettings, allWords, wordStats, memoizedStats } = useAppContext();
+    const { userSettings, allWords, wordStats, memoizedStats, reviewLog, wordOverrides, datasetChanges, handleBuyStreakFreeze } = useAppContext();
     const { addToast } = useToasts();
+    const [historySearchTerm, setHistorySearchTerm] = useState('');
+    const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+
+    const handleExportData = () => {
+        const backup = createLearningDataBackup(userSettings, allWords, wordStats, reviewLog, wordOverrides);
+        const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `word-learning-backup-${getTodayDateString()}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+        addToast("학습 데이터를 내보냈습니다.", "success");
+    };
     
     const totalWords = allWords.length;
     const customWordsCount = allWords.filter(w => w.isCustom).length;
@@ -2221,28 +4300,191 @@ const StatsScreen: React.FC = () => {
         return Object.entries(units).sort((a,b) => parseInt(a[0].replace("Unit ","")) - parseInt(b[0].replace("Unit ","")));
     }, [allWords]);
 
+    const quizSessionCount = useMemo(() => getQuizSessionScores(reviewLog).length, [reviewLog]);
+
+    const achievements = useMemo(() => {
+        const state = getAchievementState(userSettings.achievements);
+        const snapshot: AchievementSnapshot = {
+            words: allWords,
+            wordStats,
+            settings: userSettings,
+            games: GAME_MODES.filter(game => game.isReady).map(game => game.screen),
+        };
+        return ACHIEVEMENT_IDS.map(id => {
+            const progress = ACHIEVEMENT_DEFINITIONS[id].getProgress(state, snapshot);
+            return { id, ...ACHIEVEMENT_DEFINITIONS[id], progress, unlockedAt: state.unlocked[id] };
+        });
+    }, [userSettings, allWords, wordStats]);
+
+    const activityCounts = useMemo(() => getActivityCountsByDate(reviewLog), [reviewLog]);
+
+    const dailyAccuracy = useMemo(() => getDailyAccuracy(reviewLog, 14, getTodayDateString()), [reviewLog]);
+
+    const accuracyBySource = useMemo(() => {
+        const sources: Partial<Record<AppScreen, { total: number; correct: number; totalResponseMs: number; timedCount: number }>> = {};
+        reviewLog.forEach(entry => {
+            const bucket = sources[entry.source] || { total: 0, correct: 0, totalResponseMs: 0, timedCount: 0 };
+            bucket.total++;
+            if (entry.isCorrect) bucket.correct++;
+            if (entry.responseTimeMs !== null) {
+                bucket.totalResponseMs += entry.responseTimeMs;
+                bucket.timedCount++;
+            }
+            sources[entry.source] = bucket;
+        });
+        return Object.entries(sources).sort((a, b) => b[1]!.total - a[1]!.total) as [AppScreen, { total: number; correct: number; totalResponseMs: number; timedCount: number }][];
+    }, [reviewLog]);
+
+    const wordHistory = useMemo(() => {
+        const term = historySearchTerm.trim().toLowerCase();
+        if (!term) return null;
+        const word = allWords.find(w => w.term.toLowerCase() === term) || allWords.find(w => w.term.toLowerCase().startsWith(term));
+        if (!word) return { word: null, entries: [] };
+        const entries = reviewLog.filter(entry => String(entry.wordId) === String(word.id)).reverse();
+        return { word, entries };
+    }, [historySearchTerm, allWords, reviewLog]);
+
+
+    const renderStatCard = (title: string, value: string | number, subtext?: string, icon?: string) => (
+        <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg text-center">
+            {icon && <div className="text-3xl mb-2">{icon}</div>}
+            <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400">{title}</h3>
+            <p className="text-3xl font-bold text-slate-800 dark:text-white">{value}</p>
+            {subtext && <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{subtext}</p>}
+        </div>
+    );
+    
+    return (
+        <div className="p-4 sm:p-6 space-y-6">
+            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400">학습 통계</h1>
+            
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {renderStatCard("총 단어 수", totalWords, `(나의 단어: ${customWordsCount}개)`, "📚")}
+                {renderStatCard("마스터한 단어", masteredWordsCount, `${totalWords > 0 ? ((masteredWordsCount/totalWords)*100).toFixed(1) : 0}% 완료`, "🏆")}
+                {renderStatCard("오늘 학습한 단어", memoizedStats.learnedWordsToday, `일일 목표: ${userSettings.dailyGoal}개`, "📈")}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {renderStatCard("연속 학습일", `${memoizedStats.learningStreak.currentStreak}일`, `최고 기록: ${memoizedStats.learningStreak.bestStreak}일`, "🔥")}
+                {renderStatCard("평균 퀴즈 점수", `${memoizedStats.averageQuizScore.toFixed(1)}%`, `퀴즈 ${quizSessionCount}회 기준`, "🎯")}
+            </div>
+
+            <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg">
+                <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400 mb-3">
+                    업적 배지 <span className="text-sm font-normal text-slate-500 dark:text-slate-400">({achievements.filter(a => a.unlockedAt).length}/{achievements.length})</span>
+                </h3>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    {achievements.map(achievement => (
+                        <div
+                            key={achievement.id}
+                            className={`p-3 rounded-lg text-center ${achievement.unlockedAt ? 'bg-amber-50 dark:bg-amber-900/30 ring-1 ring-amber-400' : 'bg-slate-200 dark:bg-slate-600'}`}
+                        >
+                            <div className={`text-3xl mb-1 ${achievement.unlockedAt ? '' : 'grayscale opacity-50'}`}>{achievement.icon}</div>
+                            <p className="text-sm font-semibold text-slate-800 dark:text-white">{achievement.name}</p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400">{achievement.description}</p>
+                            {achievement.unlockedAt ? (
+                                <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">{new Date(achievement.unlockedAt).toLocaleDateString('ko-KR')} 달성</p>
+                            ) : (
+                                <>
+                                    <div className="w-full bg-slate-300 dark:bg-slate-500 rounded-full h-1.5 mt-2 overflow-hidden" role="progressbar" aria-valuenow={achievement.progress.current} aria-valuemin={0} aria-valuemax={achievement.progress.target}>
+                                        <div className="bg-amber-400 h-full rounded-full" style={{ width: `${Math.min(100, (achievement.progress.current / Math.max(1, achievement.progress.target)) * 100)}%` }}></div>
+                                    </div>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                        {achievement.progress.detail && `${achievement.progress.detail} · `}{Math.min(achievement.progress.current, achievement.progress.target)}/{achievement.progress.target}
+                                    </p>
+                                </>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg">
+                <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 mb-3">
+                    <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400">학습 달력</h3>
+                    <div className="flex items-center gap-2 text-sm">
+                        <span className="text-slate-600 dark:text-slate-300">❄️ 스트릭 프리즈 {memoizedStats.learningStreak.streakFreezes}/{MAX_STREAK_FREEZES}</span>
+                        <button
+                            onClick={handleBuyStreakFreeze}
+                            disabled={memoizedStats.learningStreak.streakFreezes >= MAX_STREAK_FREEZES || userSettings.xp < STREAK_FREEZE_COST_XP}
+                            className="py-1 px-3 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-md shadow-sm disabled:opacity-50"
+                        >
+                            구매 ({STREAK_FREEZE_COST_XP} XP)
+                        </button>
+                    </div>
+                </div>
+                <ActivityCalendar activityCounts={activityCounts} frozenDates={userSettings.frozenDates || []} />
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">하루를 놓쳐도 스트릭 프리즈가 있으면 연속 학습일이 유지됩니다.</p>
+            </div>
+
+            <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg">
+                <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400 mb-3">최근 14일 정답률</h3>
+                <div className="flex justify-between items-end h-32 bg-slate-200 dark:bg-slate-600 p-2 rounded gap-1">
+                    {dailyAccuracy.map(day => (
+                        <div key={day.date} className="flex flex-col items-center justify-end flex-1 h-full">
+                            <div
+                                className={`w-full max-w-[1.5rem] rounded-t-sm ${day.accuracy === null ? 'bg-slate-300 dark:bg-slate-500' : 'bg-cyan-500'}`}
+                                style={{ height: `${day.accuracy === null ? 2 : Math.max(day.accuracy, 2)}%` }}
+                                title={day.accuracy === null ? `${day.date}: 기록 없음` : `${day.date}: ${day.accuracy.toFixed(0)}% (${day.correct}/${day.total})`}
+                            ></div>
+                            <p className="text-[10px] mt-1 text-slate-700 dark:text-slate-300">{day.date.slice(8)}</p>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {accuracyBySource.length > 0 && (
+                <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg">
+                    <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400 mb-3">학습 유형별 정답률</h3>
+                    <ul className="space-y-1 text-sm">
+                        {accuracyBySource.map(([source, bucket]) => (
+                            <li key={source} className="flex justify-between p-1.5 bg-slate-200 dark:bg-slate-600 rounded-md">
+                                <span className="text-slate-700 dark:text-slate-300">{REVIEW_SOURCE_LABELS[source] || source}</span>
+                                <span className="text-slate-600 dark:text-slate-300">
+                                    <span className="font-semibold text-cyan-700 dark:text-cyan-300">{((bucket.correct / bucket.total) * 100).toFixed(1)}%</span>
+                                    {' '}({bucket.correct}/{bucket.total})
+                                    {bucket.timedCount > 0 && ` · 평균 ${(bucket.totalResponseMs / bucket.timedCount / 1000).toFixed(1)}초`}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
 
-    const renderStatCard = (title: string, value: string | number, subtext?: string, icon?: string) => (
-        <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg text-center">
-            {icon && <div className="text-3xl mb-2">{icon}</div>}
-            <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400">{title}</h3>
-            <p className="text-3xl font-bold text-slate-800 dark:text-white">{value}</p>
-            {subtext && <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{subtext}</p>}
-        </div>
-    );
-    
-    return (
-        <div className="p-4 sm:p-6 space-y-6">
-            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400">학습 통계</h1>
-            
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {renderStatCard("총 단어 수", totalWords, `(나의 단어: ${customWordsCount}개)`, "📚")}
-                {renderStatCard("마스터한 단어", masteredWordsCount, `${totalWords > 0 ? ((masteredWordsCount/totalWords)*100).toFixed(1) : 0}% 완료`, "🏆")}
-                {renderStatCard("오늘 학습한 단어", memoizedStats.learnedWordsToday, `일일 목표: ${userSettings.dailyGoal}개`, "📈")}
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {renderStatCard("연속 학습일", `${memoizedStats.learningStreak.currentStreak}일`, `최고 기록: ${memoizedStats.learningStreak.bestStreak}일`, "🔥")}
-                {renderStatCard("평균 퀴즈 점수", `${memoizedStats.averageQuizScore.toFixed(1)}%`, undefined, "🎯")}
+            <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg">
+                <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400 mb-3">단어별 학습 기록</h3>
+                <input
+                    type="text"
+                    placeholder="단어를 입력하세요 (예: apple)"
+                    value={historySearchTerm}
+                    onChange={(e) => setHistorySearchTerm(e.target.value)}
+                    className="w-full p-2 mb-3 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500 focus:ring-2 focus:ring-cyan-500"
+                />
+                {wordHistory && !wordHistory.word && (
+                    <p className="text-sm text-slate-500 dark:text-slate-400">일치하는 단어가 없습니다.</p>
+                )}
+                {wordHistory?.word && (
+                    <>
+                        <p className="text-sm text-slate-700 dark:text-slate-300 mb-2">
+                            <span className="font-semibold">{wordHistory.word.term}</span> ({wordHistory.word.meaning}) — 
+                            총 {wordHistory.entries.length}회, 정답 {wordHistory.entries.filter(entry => entry.isCorrect).length}회
+                        </p>
+                        {wordHistory.entries.length === 0 ? (
+                            <p className="text-sm text-slate-500 dark:text-slate-400">아직 학습 기록이 없습니다.</p>
+                        ) : (
+                            <ul className="max-h-48 overflow-y-auto custom-scrollbar space-y-1 text-sm">
+                                {wordHistory.entries.map((entry, index) => (
+                                    <li key={`${entry.timestamp}-${index}`} className="flex justify-between p-1.5 bg-slate-200 dark:bg-slate-600 rounded-md">
+                                        <span className="text-slate-700 dark:text-slate-300">{new Date(entry.timestamp).toLocaleString('ko-KR')} · {REVIEW_SOURCE_LABELS[entry.source] || entry.source}</span>
+                                        <span className={entry.isCorrect ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                                            {entry.isCorrect ? '정답' : '오답'}
+                                            {entry.responseTimeMs !== null && ` · ${(entry.responseTimeMs / 1000).toFixed(1)}초`}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </>
+                )}
             </div>
 
             <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg">
@@ -2278,21 +4520,369 @@ const StatsScreen: React.FC = () => {
                     </ul>
                 </div>
             )}
-             <button
-                onClick={() => addToast("데이터 내보내기 기능은 준비 중입니다.", "info")}
-                className="w-full mt-4 py-2 px-4 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-md shadow-md"
-            >
-                학습 데이터 내보내기 (준비 중)
-            </button>
+
+            {datasetChanges && (
+                <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg shadow-lg">
+                    <h3 className="text-lg font-semibold text-cyan-600 dark:text-cyan-400 mb-1">기본 단어 데이터 업데이트 내역</h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                        {new Date(datasetChanges.detectedAt).toLocaleString('ko-KR')} 확인 · 추가 {datasetChanges.added.length}개, 수정 {datasetChanges.changed.length}개, 삭제 {datasetChanges.removed.length}개
+                    </p>
+                    <ul className="max-h-60 overflow-y-auto custom-scrollbar space-y-1 text-sm">
+                        {datasetChanges.changed.map(change => (
+                            <li key={`changed-${change.id}`} className="p-1.5 bg-slate-200 dark:bg-slate-600 rounded-md">
+                                <span className="font-semibold text-slate-800 dark:text-slate-200">{change.term}</span>
+                                {change.hasOverride && <span className="ml-2 text-xs text-amber-600 dark:text-amber-400">(직접 수정한 내용이 유지됩니다)</span>}
+                                {change.fields.map(({ field, before, after }) => (
+                                    <p key={field} className="text-xs text-slate-600 dark:text-slate-300">
+                                        {DATASET_FIELD_LABELS[field]}: <span className="line-through">{before || '(없음)'}</span> → {after || '(없음)'}
+                                    </p>
+                                ))}
+                            </li>
+                        ))}
+                        {datasetChanges.added.map(word => (
+                            <li key={`added-${word.id}`} className="p-1.5 bg-slate-200 dark:bg-slate-600 rounded-md text-green-700 dark:text-green-400">+ {word.term}</li>
+                        ))}
+                        {datasetChanges.removed.map(word => (
+                            <li key={`removed-${word.id}`} className="p-1.5 bg-slate-200 dark:bg-slate-600 rounded-md text-red-600 dark:text-red-400">− {word.term}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4">
+                <button
+                    onClick={handleExportData}
+                    className="w-full py-2 px-4 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-md shadow-md"
+                >
+                    학습 데이터 내보내기
+                </button>
+                <button
+                    onClick={() => setIsImportModalOpen(true)}
+                    className="w-full py-2 px-4 bg-slate-500 hover:bg-slate-600 text-white font-semibold rounded-md shadow-md"
+                >
+                    학습 데이터 가져오기
+                </button>
+            </div>
+            <ImportDataModal isOpen={isImportModalOpen} onCancel={() => setIsImportModalOpen(false)} />
         </div>
     );
 };
 
 
 // ManageWords Screen Component
+const BULK_IMPORT_STATUS_LABELS: Record<BulkImportRowStatus, { label: string; className: string }> = {
+    ready: { label: '추가 가능', className: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300' },
+    incomplete: { label: '정보 부족', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300' },
+    duplicate: { label: '이미 있음', className: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300' },
+    duplicateInFile: { label: '파일 내 중복', className: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300' },
+    empty: { label: '단어 없음', className: 'bg-slate-200 text-slate-600 dark:bg-slate-600 dark:text-slate-300' },
+};
+
+const BulkWordImportPanel: React.FC = () => {
+    const { userSettings, allWords, handleBulkAddCustomWords } = useAppContext();
+    const { addToast } = useToasts();
+
+    const [rawText, setRawText] = useState('');
+    const [format, setFormat] = useState<BulkImportFormat>('auto');
+    const [hasHeader, setHasHeader] = useState(false);
+    const [mapping, setMapping] = useState<BulkImportField[]>([]);
+    const [gradeLevel, setGradeLevel] = useState(userSettings.grade);
+    const [unit, setUnit] = useState<number | undefined>(undefined);
+    const [aiFills, setAiFills] = useState<Record<number, Partial<Word>>>({});
+    const [aiProgress, setAiProgress] = useState<{ done: number; total: number } | null>(null);
+    const aiFillControllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => { aiFillControllerRef.current?.abort(); }, []);
+
+    const parsedRows = useMemo(() => parseBulkImportText(rawText, format), [rawText, format]);
+    const columnCount = useMemo(() => parsedRows.reduce((max, row) => Math.max(max, row.length), 0), [parsedRows]);
+
+    // Re-guess the header and column mapping whenever the pasted data changes shape
+    useEffect(() => {
+        const headerRow = parsedRows[0] || null;
+        const looksLikeHeader = looksLikeBulkImportHeader(parsedRows[0]);
+        setHasHeader(looksLikeHeader);
+        setMapping(guessBulkImportMapping(looksLikeHeader ? headerRow : null, columnCount));
+        setAiFills({});
+    }, [parsedRows, columnCount]);
+
+    const dataRows = useMemo(() => hasHeader ? parsedRows.slice(1) : parsedRows, [parsedRows, hasHeader]);
+    const rows = useMemo(
+        () => buildBulkImportRows(dataRows, mapping, allWords, hasHeader ? 2 : 1, aiFills),
+        [dataRows, mapping, allWords, hasHeader, aiFills]
+    );
+    const statusCounts = useMemo(() => {
+        const counts: Record<BulkImportRowStatus, number> = { ready: 0, incomplete: 0, duplicate: 0, duplicateInFile: 0, empty: 0 };
+        rows.forEach(row => { counts[row.status]++; });
+        return counts;
+    }, [rows]);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const text = await file.text();
+        if (/\.tsv$/i.test(file.name)) setFormat('tsv');
+        else if (/\.csv$/i.test(file.name)) setFormat('csv');
+        else setFormat('auto');
+        setRawText(text);
+        e.target.value = '';
+    };
+
+    const handleMappingChange = (column: number, field: BulkImportField) => {
+        setMapping(prev => prev.map((current, index) => {
+            if (index === column) return field;
+            // Each field maps from one column only
+            return field !== 'ignore' && current === field ? 'ignore' : current;
+        }));
+    };
+
+    const handleAIFillMissing = async () => {
+        const targets = rows.filter(row => row.status === 'incomplete');
+        if (targets.length === 0) return;
+        const controller = new AbortController();
+        aiFillControllerRef.current = controller;
+        setAiProgress({ done: 0, total: targets.length });
+
+        // One word at a time; the AI request queue keeps a long list under the rate limit
+        for (let i = 0; i < targets.length; i++) {
+            if (controller.signal.aborted || isAIQuotaExhausted) break;
+            const row = targets[i];
+            const details = await generateWordDetailsWithAI(row.word.term!, addToast, { signal: controller.signal, retries: 1 });
+            if (details) setAiFills(prev => ({ ...prev, [row.lineNumber]: details }));
+            setAiProgress({ done: i + 1, total: targets.length });
+        }
+
+        if (isAIQuotaExhausted) {
+            addToast(`${aiProviderLabel} 할당량 문제로 AI 채우기를 중단했습니다. 나머지 단어는 나중에 다시 시도해주세요.`, "warning");
+        }
+        setAiProgress(null);
+    };
+
+    const handleImport = () => {
+        const readyWords = rows.filter(row => row.status === 'ready').map(row => row.word);
+        if (readyWords.length === 0) {
+            addToast("추가할 수 있는 단어가 없습니다.", "warning");
+            return;
+        }
+        const { addedCount, rejected } = handleBulkAddCustomWords(readyWords, gradeLevel, unit);
+        const skippedCount = rows.length - readyWords.length + rejected.length;
+        addToast(`${addedCount}개 단어를 추가했습니다.${skippedCount > 0 ? ` (${skippedCount}개 건너뜀)` : ''}`, addedCount > 0 ? "success" : "warning");
+        if (addedCount > 0) {
+            setRawText('');
+            setAiFills({});
+        }
+    };
+
+    const canUseAI = !!aiProvider && !isAIQuotaExhausted;
+    const headerRow = hasHeader ? parsedRows[0] : null;
+
+    return (
+        <div className="bg-slate-100 dark:bg-slate-700 p-6 rounded-lg shadow-lg space-y-4 mb-8">
+            <h2 className="text-xl font-semibold text-slate-800 dark:text-white">여러 단어 한 번에 가져오기</h2>
+            <p className="text-sm text-slate-600 dark:text-slate-300">엑셀/구글 시트에서 복사한 내용을 붙여넣거나 CSV, TSV, Anki 텍스트 내보내기 파일을 선택하세요.</p>
+            <textarea
+                value={rawText}
+                onChange={(e) => setRawText(e.target.value)}
+                rows={5}
+                placeholder={"단어,뜻,품사,예문\napple,사과,명사,I eat an apple."}
+                className="w-full p-2 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500 shadow-sm font-mono text-sm"
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+                <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain" onChange={handleFileChange} className="sm:col-span-2 text-slate-700 dark:text-slate-300" />
+                <select value={format} onChange={(e) => setFormat(e.target.value as BulkImportFormat)} className="p-2 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500">
+                    <option value="auto">형식 자동 감지</option>
+                    <option value="csv">CSV (쉼표)</option>
+                    <option value="tsv">TSV (탭)</option>
+                    <option value="anki">Anki 텍스트</option>
+                </select>
+            </div>
+
+            {parsedRows.length > 0 && (
+                <>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                        <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                        첫 줄은 제목(헤더)입니다
+                    </label>
+                    {headerRow && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            제목으로 건너뛰는 첫 줄: <span className="font-mono">{headerRow.filter(cell => cell.trim()).join(', ')}</span> — 단어가 들어 있다면 위 체크를 해제하세요.
+                        </p>
+                    )}
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        {Array.from({ length: columnCount }, (_, column) => (
+                            <div key={column}>
+                                <label className="block text-xs text-slate-500 dark:text-slate-400 truncate" title={headerRow?.[column]}>
+                                    {headerRow?.[column] || `${column + 1}번째 열`} · 예: {dataRows[0]?.[column] || '-'}
+                                </label>
+                                <select
+                                    value={mapping[column] || 'ignore'}
+                                    onChange={(e) => handleMappingChange(column, e.target.value as BulkImportField)}
+                                    className="w-full mt-1 p-2 text-sm bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500"
+                                >
+                                    {(Object.keys(BULK_IMPORT_FIELD_LABELS) as BulkImportField[]).map(field => (
+                                        <option key={field} value={field}>{BULK_IMPORT_FIELD_LABELS[field]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="bulk-grade" className="block text-sm font-medium text-slate-700 dark:text-slate-300">학년</label>
+                            <select id="bulk-grade" value={gradeLevel} onChange={(e) => setGradeLevel(e.target.value)} className="w-full mt-1 p-2 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500 shadow-sm">
+                                <option value="middle1">중1</option>
+                                <option value="middle2">중2</option>
+                                <option value="middle3">중3</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="bulk-unit" className="block text-sm font-medium text-slate-700 dark:text-slate-300">단원 번호 (단원 열이 없을 때)</label>
+                            <input id="bulk-unit" type="number" min="1" step="1" value={unit ?? ''} onChange={(e) => setUnit(e.target.value === '' ? undefined : Number(e.target.value))} placeholder="예: 1" className="w-full mt-1 p-2 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500 shadow-sm" />
+                        </div>
+                    </div>
+
+                    <p className="text-sm text-slate-700 dark:text-slate-300">
+                        총 {rows.length}개 · 추가 가능 <span className="font-semibold text-green-600 dark:text-green-400">{statusCounts.ready}</span>
+                        {' '}· 정보 부족 {statusCounts.incomplete} · 중복 {statusCounts.duplicate + statusCounts.duplicateInFile}
+                        {statusCounts.empty > 0 && ` · 단어 없음 ${statusCounts.empty}`}
+                    </p>
+                    <div className="max-h-64 overflow-y-auto custom-scrollbar border border-slate-200 dark:border-slate-600 rounded-md">
+                        <table className="w-full text-xs text-left">
+                            <thead className="bg-slate-200 dark:bg-slate-600 sticky top-0">
+                                <tr>
+                                    <th className="p-1.5">줄</th>
+                                    <th className="p-1.5">단어</th>
+                                    <th className="p-1.5">뜻</th>
+                                    <th className="p-1.5">품사</th>
+                                    <th className="p-1.5">상태</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.slice(0, 200).map(row => (
+                                    <tr key={row.lineNumber} className="border-t border-slate-200 dark:border-slate-600">
+                                        <td className="p-1.5 text-slate-500">{row.lineNumber}</td>
+                                        <td className="p-1.5 font-semibold">{row.word.term || '-'}</td>
+                                        <td className="p-1.5">{row.word.meaning || '-'}</td>
+                                        <td className="p-1.5">{row.word.partOfSpeech || '-'}</td>
+                                        <td className="p-1.5">
+                                            <span className={`px-1.5 py-0.5 rounded-full ${BULK_IMPORT_STATUS_LABELS[row.status].className}`} title={row.status === 'incomplete' ? `누락: ${row.missingFields.map(f => BULK_IMPORT_FIELD_LABELS[f]).join(', ')}` : undefined}>
+                                                {BULK_IMPORT_STATUS_LABELS[row.status].label}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {rows.length > 200 && <p className="p-2 text-xs text-slate-500">처음 200개만 표시합니다.</p>}
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {aiProgress ? (
+                            <button type="button" onClick={() => aiFillControllerRef.current?.abort()} className="py-2 px-4 bg-slate-500 hover:bg-slate-600 text-white font-semibold rounded-md shadow-sm">
+                                AI 채우는 중 ({aiProgress.done}/{aiProgress.total}) · 중지
+                            </button>
+                        ) : (
+                            <button
+                                type="button"
+                                onClick={handleAIFillMissing}
+                                disabled={!canUseAI || statusCounts.incomplete === 0}
+                                className="py-2 px-4 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-md shadow-sm disabled:opacity-50"
+                            >
+                                ✨ 부족한 정보 AI로 채우기 ({statusCounts.incomplete}개)
+                            </button>
+                        )}
+                        <button
+                            type="button"
+                            onClick={handleImport}
+                            disabled={statusCounts.ready === 0 || !!aiProgress}
+                            className="py-2 px-4 bg-green-500 hover:bg-green-600 text-white font-semibold rounded-md shadow-sm disabled:opacity-50"
+                        >
+                            {statusCounts.ready}개 단어 추가
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+// Review queue and controls for the built-in example enrichment job, which itself runs in App
+const ExampleEnrichmentPanel: React.FC = () => {
+    const { exampleEnrichment } = useAppContext();
+    const { job, remainingCount, start, pause, approve, reject } = exampleEnrichment;
+    const canUseAI = !!aiProvider;
+    const pendingIds = job.pending.map(suggestion => suggestion.wordId);
+
+    if (remainingCount === 0 && job.pending.length === 0 && !job.isRunning) return null;
+
+    return (
+        <div className="bg-slate-100 dark:bg-slate-700 p-6 rounded-lg shadow-lg space-y-4 mb-8">
+            <div>
+                <h2 className="text-xl font-semibold text-slate-800 dark:text-white">기본 단어 예문 다듬기 (AI)</h2>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                    "This is a kind."처럼 틀에 맞춰 만든 기본 단어의 예문을 AI가 학년에 맞는 자연스러운 예문과 발음기호로 바꿔 제안합니다.
+                    제안은 승인해야 적용되며, 앱을 닫았다 열어도 이어서 진행합니다.
+                </p>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-slate-700 dark:text-slate-300">
+                    남은 단어 {remainingCount}개 · 검토 대기 {job.pending.length}개
+                    {job.failedIds.length > 0 && <span className="text-red-500"> · 실패 {job.failedIds.length}개 (다시 시작하면 재시도)</span>}
+                    {job.isRunning && <span className="ml-2 text-sky-600 dark:text-sky-400 animate-pulse">진행 중...</span>}
+                </p>
+                {job.isRunning ? (
+                    <button type="button" onClick={pause} className="py-2 px-4 bg-slate-500 hover:bg-slate-600 text-white font-semibold rounded-md shadow-sm">일시 정지</button>
+                ) : (
+                    <button
+                        type="button"
+                        onClick={start}
+                        disabled={!canUseAI || (remainingCount === 0 && job.failedIds.length === 0) || job.pending.length >= MAX_PENDING_SUGGESTIONS}
+                        className="py-2 px-4 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-md shadow-sm disabled:opacity-50"
+                    >
+                        {canUseAI ? '시작' : '시작 (API Key 필요)'}
+                    </button>
+                )}
+            </div>
+            {job.pending.length >= MAX_PENDING_SUGGESTIONS && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">검토 대기 중인 제안이 {MAX_PENDING_SUGGESTIONS}개를 넘지 않도록 일시 정지했습니다. 제안을 검토하면 다시 시작할 수 있습니다.</p>
+            )}
+            {job.pending.length > 0 && (
+                <>
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => approve(pendingIds)} className="py-1 px-3 text-sm bg-green-500 hover:bg-green-600 text-white font-semibold rounded-md shadow-sm">모두 승인</button>
+                        <button type="button" onClick={() => reject(pendingIds)} className="py-1 px-3 text-sm bg-red-500 hover:bg-red-600 text-white font-semibold rounded-md shadow-sm">모두 거절</button>
+                    </div>
+                    <ul className="max-h-96 overflow-y-auto custom-scrollbar space-y-2">
+                        {job.pending.map(suggestion => (
+                            <li key={suggestion.wordId} className="p-3 bg-white dark:bg-slate-600 rounded-md">
+                                <div className="flex justify-between items-start gap-2">
+                                    <div className="text-sm">
+                                        <p className="font-semibold text-slate-800 dark:text-white">
+                                            {suggestion.term}
+                                            {suggestion.pronunciation && <span className="ml-2 font-normal text-slate-500 dark:text-slate-400">{suggestion.pronunciation}</span>}
+                                        </p>
+                                        <p className="text-slate-500 dark:text-slate-400 line-through">{suggestion.previousExampleSentence}</p>
+                                        <p className="text-slate-700 dark:text-slate-200">{suggestion.exampleSentence}</p>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">{suggestion.exampleSentenceMeaning}</p>
+                                    </div>
+                                    <div className="flex flex-col gap-1 shrink-0">
+                                        <button type="button" onClick={() => approve([suggestion.wordId])} className="py-1 px-2 text-xs bg-green-500 hover:bg-green-600 text-white rounded">승인</button>
+                                        <button type="button" onClick={() => reject([suggestion.wordId])} className="py-1 px-2 text-xs bg-slate-400 hover:bg-slate-500 text-white rounded">거절</button>
+                                    </div>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
+
 const ManageWordsScreen: React.FC = () => {
-    const { userSettings, onNavigate, handleSaveCustomWord, setGlobalLoading } = useAppContext();
+    const { userSettings, onNavigate, handleSaveCustomWord } = useAppContext();
     const { addToast } = useToasts();
+    const getUnmountSignal = useUnmountSignal();
 
     const [newWord, setNewWord] = useState<Partial<Word>>({ term: '', meaning: '', partOfSpeech: '', exampleSentence: '', gradeLevel: userSettings.grade, isCustom: true, unit: undefined });
     const [isAddingViaAI, setIsAddingViaAI] = useState(false);
@@ -2313,7 +4903,7 @@ const ManageWordsScreen: React.FC = () => {
             return;
         }
         setIsAddingViaAI(true);
-        const details = await generateWordDetailsWithGemini(newWord.term.trim(), addToast, setGlobalLoading);
+        const details = await generateWordDetailsWithAI(newWord.term.trim(), addToast, { signal: getUnmountSignal() });
         if (details) {
             setNewWord(prev => ({
                 ...prev,
@@ -2346,8 +4936,8 @@ const ManageWordsScreen: React.FC = () => {
         setIsSubmittingManual(false);
     };
     
-    const canUseAI = process.env.API_KEY && !isCurrentlyGeminiQuotaExhausted;
-    const aiButtonDisabledReason = !process.env.API_KEY ? "(API Key 필요)" : isCurrentlyGeminiQuotaExhausted ? "(Quota 소진)" : "";
+    const canUseAI = !!aiProvider && !isAIQuotaExhausted;
+    const aiButtonDisabledReason = !aiProvider ? "(API Key 필요)" : isAIQuotaExhausted ? "(Quota 소진)" : "";
 
     return (
         <div className="p-4 sm:p-6">
@@ -2411,6 +5001,10 @@ const ManageWordsScreen: React.FC = () => {
                 </button>
             </form>
 
+            <BulkWordImportPanel />
+
+            <ExampleEnrichmentPanel />
+
             <p className="text-sm text-slate-500 dark:text-slate-400 text-center">
                 '전체 단어' 목록에서 사용자 추가 단어(나의 단어)를 수정하거나 삭제할 수 있습니다.
                 <button onClick={() => onNavigate('allWords')} className="ml-2 text-cyan-600 dark:text-cyan-400 hover:underline">전체 단어 목록으로 이동</button>
@@ -2427,16 +5021,16 @@ interface ChatMessage {
 }
 
 const TutorChatScreen: React.FC = () => {
-    const { setGlobalLoading } = useAppContext();
     const { addToast } = useToasts();
-    const [chat, setChat] = useState<Chat | null>(null);
+    const getUnmountSignal = useUnmountSignal();
+    const [chat, setChat] = useState<AIChatSession | null>(null);
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [userInput, setUserInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const chatContainerRef = useRef<HTMLDivElement>(null);
 
     const initializeChat = useCallback(() => {
-        if (!ai) return;
+        if (!aiProvider) return;
         const systemInstruction = `You are a friendly and encouraging AI tutor specializing in English for Korean middle school students. Your name is 'VocaTutor'. 
         Always respond in Korean, unless the user specifically asks for English text.
         Keep your answers concise, clear, and easy to understand for a young learner. 
@@ -2444,13 +5038,7 @@ const TutorChatScreen: React.FC = () => {
         When explaining grammar or vocabulary, provide simple examples. 
         Your goal is to help students learn English in a fun and supportive way. Start the first message with a friendly greeting introducing yourself as VocaTutor.`;
         
-        const newChat = ai.chats.create({
-            model: 'gemini-2.5-flash-preview-04-17',
-            config: {
-                systemInstruction,
-            },
-        });
-        setChat(newChat);
+        setChat(aiProvider.createChat(systemInstruction));
     }, []);
 
     // Initial greeting from AI
@@ -2480,33 +5068,37 @@ const TutorChatScreen: React.FC = () => {
         setUserInput('');
         setMessages(prev => [...prev, { role: 'user', text: trimmedInput }]);
         setIsLoading(true);
-        setGlobalLoading(true);
 
         try {
-            const stream = await chat.sendMessageStream({ message: trimmedInput });
             let accumulatedText = '';
             setMessages(prev => [...prev, { role: 'model', text: '...' }]); // Placeholder
 
-            for await (const chunk of stream) {
-                accumulatedText += chunk.text;
-                setMessages(prev => {
-                    const newMessages = [...prev];
-                    newMessages[newMessages.length - 1] = { role: 'model', text: accumulatedText };
-                    return newMessages;
-                });
-            }
+            await aiRequestQueue.enqueue({
+                label: 'AI 튜터 답변',
+                signal: getUnmountSignal(),
+                run: async requestSignal => {
+                    for await (const chunk of chat.sendMessageStream(trimmedInput, requestSignal)) {
+                        accumulatedText += chunk;
+                        setMessages(prev => {
+                            const newMessages = [...prev];
+                            newMessages[newMessages.length - 1] = { role: 'model', text: accumulatedText };
+                            return newMessages;
+                        });
+                    }
+                },
+            });
         } catch (error: any) {
+            if (error instanceof AIJobAbortedError) return;
             console.error("AI Tutor chat error:", error);
-            const { displayErrorMsg } = parseGeminiError(error);
+            const { displayErrorMsg } = parseAIError(error);
             addToast(`AI 튜터와의 대화 중 오류가 발생했습니다: ${displayErrorMsg}`, "error");
             setMessages(prev => prev.slice(0, -1)); // Remove placeholder
         } finally {
             setIsLoading(false);
-            setGlobalLoading(false);
         }
     };
 
-    if (!ai) {
+    if (!aiProvider) {
         return (
             <div className="p-8 text-center text-slate-600 dark:text-slate-300">
                 AI 튜터 기능을 사용하려면 API 키가 필요합니다.
@@ -2578,12 +5170,7 @@ const TutorChatScreen: React.FC = () => {
 
 
 // --- Game Mode Screens ---
-// GameSelectionScreen
-const GameSelectionScreen: React.FC = () => {
-    const { onNavigate } = useAppContext();
-    const { addToast } = useToasts();
-    
-    const games = [
+const GAME_MODES = [
         { id: 'wordMatchGame', name: '짝맞추기 게임', description: '단어와 뜻을 빠르게 연결하세요!', icon: '🔗', screen: 'wordMatchGame' as AppScreen, isReady: true},
         { id: 'typingPracticeGame', name: '타자 연습 게임', description: '단어를 정확하고 빠르게 입력해보세요.', icon: '⌨️', screen: 'typingPracticeGame' as AppScreen, isReady: true },
         { id: 'speedQuizGame', name: '스피드 퀴즈', description: '제한 시간 내에 많은 문제를 풀어보세요!', icon: '⏱️', screen: 'speedQuizGame' as AppScreen, isReady: true },
@@ -2591,13 +5178,18 @@ const GameSelectionScreen: React.FC = () => {
         { id: 'wordBombGame', name: '단어 폭탄 제거', description: '떨어지는 폭탄의 뜻을 보고 단어를 입력하여 제거하세요!', icon: '💣', screen: 'wordBombGame' as AppScreen, isReady: true },
         { id: 'wordZombieDefense', name: '단어 좀비 디펜스', description: '단어의 뜻을 보고 좀비를 막아내세요!', icon: '🧟', screen: 'wordZombieDefense' as AppScreen, isReady: true },
         { id: 'timedWordLinkGame', name: '시간 연결 게임', description: '단어와 뜻을 선으로 연결하여 시간 내에 제출하세요.', icon: '↔️', screen: 'timedWordLinkGame' as AppScreen, isReady: true },
-    ];
+];
+
+// GameSelectionScreen
+const GameSelectionScreen: React.FC = () => {
+    const { onNavigate } = useAppContext();
+    const { addToast } = useToasts();
 
     return (
         <div className="p-4 sm:p-6">
             <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6 text-center">🎮 게임 모드 선택</h1>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-                {games.map(game => (
+                {GAME_MODES.map(game => (
                     <button
                         key={game.id}
                         onClick={() => {
@@ -2631,11 +5223,12 @@ type MeaningOption = { meaning: string; id: string; originalWordId: string | num
 type GameOption = TermOption | MeaningOption;
 
 const WordMatchGame: React.FC = () => {
-    const { allWords, onNavigate, handleGameComplete } = useAppContext();
+    const { allWords, wordStats, onNavigate, handleGameComplete } = useAppContext();
+    const { startSession, markQuestionShown, recordAnswer } = useReviewRecorder('wordMatchGame');
     const { addToast } = useToasts();
     
     const [gameState, setGameState] = useState<'setup' | 'playing'>('setup');
-    const [selectedUnit, setSelectedUnit] = useState<string|number>('all');
+    const [filters, setFilters] = useState<WordFilters>(DEFAULT_WORD_FILTERS);
     
     const [gameWords, setGameWords] = useState<Word[]>([]);
     const [options, setOptions] = useState<GameOption[]>([]);
@@ -2647,14 +5240,6 @@ const WordMatchGame: React.FC = () => {
     
     const NUM_PAIRS = 8;
 
-    const units = useMemo(() => {
-        const unitSet = new Set<string | number>();
-        allWords.forEach(word => {
-            if (word.unit) unitSet.add(word.unit);
-        });
-        return Array.from(unitSet).sort((a, b) => Number(a) - Number(b));
-    }, [allWords]);
-
     const initializeGame = useCallback((wordsForGame: Word[]) => {
         const selectedGameWords = shuffleArray(wordsForGame).slice(0, NUM_PAIRS);
         setGameWords(selectedGameWords);
@@ -2669,15 +5254,12 @@ const WordMatchGame: React.FC = () => {
         setIncorrectAttempts(0);
         setStartTime(Date.now());
         setGameState('playing');
-    }, []);
+        startSession();
+        markQuestionShown();
+    }, [startSession, markQuestionShown]);
 
     const handleStartGame = () => {
-        let sourceWords = [];
-        if (selectedUnit === 'all') {
-            sourceWords = allWords;
-        } else {
-            sourceWords = allWords.filter(w => String(w.unit) === String(selectedUnit));
-        }
+        const sourceWords = applyWordFilters(allWords, wordStats, filters);
 
         if (sourceWords.length < NUM_PAIRS) {
             addToast(`짝맞추기 게임을 위해 단어가 최소 ${NUM_PAIRS}개 필요합니다. (현재: ${sourceWords.length}개)`, "warning");
@@ -2692,6 +5274,8 @@ const WordMatchGame: React.FC = () => {
             const originalIdFromMeaningOption = String(selectedMeaning.originalWordId);
 
             if (originalIdFromTerm === originalIdFromMeaningOption) { // Correct match
+                recordAnswer(selectedMeaning.originalWordId, 'good');
+                markQuestionShown();
                 const newMatchedPairs = [...matchedPairs, selectedTerm.id, selectedMeaning.id];
                 setMatchedPairs(newMatchedPairs);
                 setSelectedTerm(null);
@@ -2702,12 +5286,15 @@ const WordMatchGame: React.FC = () => {
                     const timeTaken = Math.round((endTime - (startTime || endTime)) / 1000);
                     const score = Math.max(0, (gameWords.length * 10) - (incorrectAttempts * 2) - Math.floor(timeTaken / 10)); 
                     
-                    handleGameComplete(score, gameWords.length, incorrectAttempts, timeTaken);
+                    handleGameComplete(score, gameWords.length, incorrectAttempts, timeTaken, 'wordMatchGame');
                     onNavigate('gameResult', { score, correct: gameWords.length, incorrect: incorrectAttempts, timeTaken, gameName: '짝맞추기 게임' });
                 }
             } else { // Incorrect match
                 addToast("땡! 다시 시도하세요.", "error");
                 setIncorrectAttempts(prev => prev + 1);
+                const mismatchedWord = gameWords.find(w => String(w.id) === originalIdFromTerm);
+                if (mismatchedWord) recordAnswer(mismatchedWord.id, 'again');
+                markQuestionShown();
                 
                 const termElement = document.getElementById(selectedTerm.id);
                 const meaningElement = document.getElementById(selectedMeaning.id);
@@ -2740,20 +5327,8 @@ const WordMatchGame: React.FC = () => {
             <div className="p-4 sm:p-8 flex flex-col items-center">
                 <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6">🔗 짝맞추기 게임 설정</h1>
                 <div className="w-full max-w-md bg-slate-100 dark:bg-slate-700 p-6 rounded-lg shadow-lg space-y-6">
-                    <div>
-                        <label htmlFor="unit-select-match" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">모드 선택</label>
-                        <select
-                            id="unit-select-match"
-                            value={String(selectedUnit)}
-                            onChange={(e) => setSelectedUnit(e.target.value)}
-                            className="w-full p-3 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500"
-                        >
-                            <option value="all">전체 단어 ({NUM_PAIRS}쌍 랜덤)</option>
-                            <optgroup label="단원별 게임">
-                                {units.map(unit => <option key={unit} value={unit}>단원 {unit}</option>)}
-                            </optgroup>
-                        </select>
-                    </div>
+                    <WordFilterPanel idPrefix="match" filters={filters} onFiltersChange={setFilters} />
+                    <p className="text-xs text-slate-500 dark:text-slate-400">조건에 맞는 단어 중 {NUM_PAIRS}쌍이 랜덤으로 나옵니다.</p>
                     <button onClick={handleStartGame} className="w-full py-3 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-md shadow-md">
                         게임 시작
                     </button>
@@ -2809,11 +5384,12 @@ type LinkGameCard = {
 };
 
 const TimedWordLinkGame: React.FC = () => {
-    const { allWords, onNavigate, handleGameComplete } = useAppContext();
+    const { allWords, wordStats, onNavigate, handleGameComplete } = useAppContext();
+    const { startSession, recordAnswer } = useReviewRecorder('timedWordLinkGame');
     const { addToast } = useToasts();
     
     const [gameState, setGameState] = useState<'setup' | 'playing' | 'finished'>('setup');
-    const [selectedUnit, setSelectedUnit] = useState<string|number>('all');
+    const [filters, setFilters] = useState<WordFilters>(DEFAULT_WORD_FILTERS);
     
     const [wordCards, setWordCards] = useState<LinkGameCard[]>([]);
     const [meaningCards, setMeaningCards] = useState<LinkGameCard[]>([]);
@@ -2830,14 +5406,6 @@ const TimedWordLinkGame: React.FC = () => {
     const NUM_PAIRS = 8;
     const GAME_DURATION = 60;
 
-    const units = useMemo(() => {
-        const unitSet = new Set<string | number>();
-        allWords.forEach(word => {
-            if (word.unit) unitSet.add(word.unit);
-        });
-        return Array.from(unitSet).sort((a, b) => Number(a) - Number(b));
-    }, [allWords]);
-
     const getCardCenter = useCallback((cardRef: React.RefObject<HTMLDivElement>) => {
         if (!cardRef.current || !gameAreaRef.current) return { x: 0, y: 0 };
         const gameRect = gameAreaRef.current.getBoundingClientRect();
@@ -2849,12 +5417,7 @@ const TimedWordLinkGame: React.FC = () => {
     }, []);
 
     const handleStartGame = () => {
-        let sourceWords = [];
-        if (selectedUnit === 'all') {
-            sourceWords = allWords;
-        } else {
-            sourceWords = allWords.filter(w => String(w.unit) === String(selectedUnit));
-        }
+        const sourceWords = applyWordFilters(allWords, wordStats, filters);
 
         if (sourceWords.length < NUM_PAIRS) {
             addToast(`시간 연결 게임을 위해 단어가 최소 ${NUM_PAIRS}개 필요합니다. (현재: ${sourceWords.length}개)`, "warning");
@@ -2873,6 +5436,7 @@ const TimedWordLinkGame: React.FC = () => {
         setCorrectCount(0);
         setIncorrectCount(0);
         setGameState('playing');
+        startSession();
     };
     
     const handleSubmit = useCallback(() => {
@@ -2897,17 +5461,23 @@ const TimedWordLinkGame: React.FC = () => {
         
         // Unconnected words are also incorrect
         incorrect += wordCards.length - connectedWordIds.size;
+
+        wordCards.forEach(card => {
+            const connection = connections.find(c => c.fromId === card.id);
+            const isCorrect = !!connection && connection.toId.replace('meaning-', '') === String(card.originalId);
+            recordAnswer(card.originalId, isCorrect ? 'good' : 'again');
+        });
         
         const calculatedScore = Math.max(0, correct * 10 - incorrect * 5);
         setCorrectCount(correct);
         setIncorrectCount(incorrect);
         setFeedbackMode(true);
         
-        handleGameComplete(calculatedScore, correct, incorrect, GAME_DURATION - timeLeft);
+        handleGameComplete(calculatedScore, correct, incorrect, GAME_DURATION - timeLeft, 'timedWordLinkGame');
         setTimeout(() => {
             onNavigate('gameResult', { score: calculatedScore, correct, incorrect, timeTaken: GAME_DURATION - timeLeft, gameName: '시간 연결 게임' });
         }, 2000); // Show feedback for 2 seconds
-    }, [gameState, connections, wordCards.length, timeLeft, handleGameComplete, onNavigate]);
+    }, [gameState, connections, wordCards, timeLeft, handleGameComplete, recordAnswer, onNavigate]);
 
     useEffect(() => {
         if (gameState === 'playing' && timeLeft > 0) {
@@ -2982,20 +5552,8 @@ const TimedWordLinkGame: React.FC = () => {
             <div className="p-4 sm:p-8 flex flex-col items-center">
                 <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6">⏱️ 시간 연결 게임 설정</h1>
                 <div className="w-full max-w-md bg-slate-100 dark:bg-slate-700 p-6 rounded-lg shadow-lg space-y-6">
-                    <div>
-                        <label htmlFor="unit-select-link" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">모드 선택</label>
-                        <select
-                            id="unit-select-link"
-                            value={String(selectedUnit)}
-                            onChange={(e) => setSelectedUnit(e.target.value)}
-                            className="w-full p-3 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500"
-                        >
-                            <option value="all">전체 단어 ({NUM_PAIRS}쌍 랜덤)</option>
-                            <optgroup label="단원별 게임">
-                                {units.map(unit => <option key={unit} value={unit}>단원 {unit}</option>)}
-                            </optgroup>
-                        </select>
-                    </div>
+                    <WordFilterPanel idPrefix="link" filters={filters} onFiltersChange={setFilters} />
+                    <p className="text-xs text-slate-500 dark:text-slate-400">조건에 맞는 단어 중 {NUM_PAIRS}쌍이 랜덤으로 나옵니다.</p>
                     <button onClick={handleStartGame} className="w-full py-3 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-md shadow-md">
                         게임 시작
                     </button>
@@ -3079,11 +5637,11 @@ const TimedWordLinkGame: React.FC = () => {
 
 // GameResultScreen
 interface GameResultScreenProps {
-    routeParams?: any;
+    routeParams: RouteParamsMap['gameResult'];
 }
 const GameResultScreen: React.FC<GameResultScreenProps> = ({ routeParams }) => {
     const { onNavigate } = useAppContext();
-    const { score = 0, correct = 0, incorrect = 0, timeTaken = 0, gameName = "게임", wpm } = routeParams || {};
+    const { score, correct, incorrect, timeTaken, gameName, wpm } = routeParams;
 
     return (
         <div className="p-4 sm:p-8 text-center flex flex-col items-center justify-center min-h-[calc(100vh-150px)] sm:min-h-0">
@@ -3123,12 +5681,17 @@ interface WordInTypingGameInfo {
     firstTryCorrect: boolean;
 }
 
-const TypingPracticeGame: React.FC = () => {
-    const { allWords, onNavigate, handleGameComplete } = useAppContext();
+interface TypingPracticeGameProps {
+    routeParams?: RouteParamsMap['typingPracticeGame'];
+}
+const TypingPracticeGame: React.FC<TypingPracticeGameProps> = ({ routeParams }) => {
+    const { userSettings, allWords, wordStats, onNavigate, handleGameComplete } = useAppContext();
+    const { startSession, markQuestionShown, recordAnswer } = useReviewRecorder('typingPracticeGame');
+    const { savedSession, saveSession, clearSession } = useSavedSession('typingPracticeGame');
     const { addToast } = useToasts();
 
     const [gameState, setGameState] = useState<'setup' | 'playing'>('setup');
-    const [selectedUnit, setSelectedUnit] = useState<string|number>('all');
+    const [filters, setFilters] = useState<WordFilters>(DEFAULT_WORD_FILTERS);
     
     const [gameWordsInfo, setGameWordsInfo] = useState<WordInTypingGameInfo[]>([]);
     const [currentWordIndex, setCurrentWordIndex] = useState(0);
@@ -3140,17 +5703,12 @@ const TypingPracticeGame: React.FC = () => {
 
     const MAX_WORDS_IN_GAME = 15;
     const MIN_WORDS_FOR_GAME = 5;
+    const [questionCount, setQuestionCount] = useState<QuestionCount>(MAX_WORDS_IN_GAME);
 
-    const units = useMemo(() => {
-        const unitSet = new Set<string | number>();
-        allWords.forEach(word => {
-            if (word.unit) unitSet.add(word.unit);
-        });
-        return Array.from(unitSet).sort((a, b) => Number(a) - Number(b));
-    }, [allWords]);
+    const typeableWords = useMemo(() => allWords.filter(w => /^[a-zA-Z\s'-]+$/.test(w.term)), [allWords]);
 
     const initializeGame = useCallback((wordsForGame: Word[]) => {
-        const selectedRawWords = shuffleArray(wordsForGame).slice(0, MAX_WORDS_IN_GAME);
+        const selectedRawWords = limitQuestionCount(shuffleArray(wordsForGame), questionCount);
         setGameWordsInfo(selectedRawWords.map(word => ({
             originalWord: word,
             submissions: 0,
@@ -3163,22 +5721,18 @@ const TypingPracticeGame: React.FC = () => {
         setGameStartTime(Date.now());
         setInputFeedbackStyle('border-slate-300 dark:border-slate-500 focus:ring-cyan-500 focus:border-cyan-500');
         setGameState('playing');
-    }, []);
+        startSession();
+    }, [startSession, questionCount]);
     
     useEffect(() => {
         if(gameState === 'playing') {
             inputRef.current?.focus();
+            markQuestionShown();
         }
-    }, [gameState, currentWordIndex]);
+    }, [gameState, currentWordIndex, markQuestionShown]);
 
     const handleStartGame = () => {
-        const alphabetOnly = (term: string) => /^[a-zA-Z\s'-]+$/.test(term);
-        let sourceWords: Word[] = [];
-        if (selectedUnit === 'all') {
-            sourceWords = allWords.filter(w => alphabetOnly(w.term));
-        } else {
-            sourceWords = allWords.filter(w => String(w.unit) === String(selectedUnit) && alphabetOnly(w.term));
-        }
+        const sourceWords = applyWordFilters(typeableWords, wordStats, filters);
 
         if (sourceWords.length < MIN_WORDS_FOR_GAME) {
             addToast(`타자 연습을 위해 알파벳 단어가 최소 ${MIN_WORDS_FOR_GAME}개 필요합니다. (현재: ${sourceWords.length}개)`, "warning");
@@ -3187,6 +5741,45 @@ const TypingPracticeGame: React.FC = () => {
         initializeGame(sourceWords);
     };
 
+    const resumeSavedGame = () => {
+        if (!savedSession) {
+            addToast("이어서 할 게임이 없습니다.", "info");
+            return;
+        }
+        const words = resolveSessionWords(savedSession.words.map(w => w.id), allWords);
+        if (!words) {
+            addToast("저장된 게임의 단어 일부가 삭제되어 이어서 할 수 없습니다.", "warning");
+            clearSession();
+            return;
+        }
+        setFilters(savedSession.unit === 'all' ? DEFAULT_WORD_FILTERS : { ...DEFAULT_WORD_FILTERS, units: [savedSession.unit] }); // Keeps the session's label when it's saved again
+        setGameWordsInfo(savedSession.words.map(({ id: _id, ...progress }, index) => ({ originalWord: words[index], ...progress })));
+        setCurrentWordIndex(savedSession.currentWordIndex);
+        setInputValue('');
+        setCurrentScore(savedSession.score);
+        setGameStartTime(Date.now() - savedSession.elapsedMs);
+        setInputFeedbackStyle('border-slate-300 dark:border-slate-500 focus:ring-cyan-500 focus:border-cyan-500');
+        setGameState('playing');
+        startSession();
+    };
+
+    // Opened from the dashboard's resume list
+    useEffect(() => {
+        if (routeParams?.resume) resumeSavedGame();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    useEffect(() => {
+        if (gameState !== 'playing' || gameWordsInfo.length === 0 || gameStartTime === null) return;
+        saveSession({
+            unit: getSelectedUnit(filters),
+            words: gameWordsInfo.map(({ originalWord, submissions, isCorrectlyTyped, firstTryCorrect }) => ({ id: originalWord.id, submissions, isCorrectlyTyped, firstTryCorrect })),
+            currentWordIndex,
+            score: currentScore,
+            elapsedMs: Date.now() - gameStartTime,
+        });
+    }, [gameState, filters, gameWordsInfo, currentWordIndex, currentScore, gameStartTime, saveSession]);
+
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setInputValue(e.target.value);
         setInputFeedbackStyle('border-slate-300 dark:border-slate-500 focus:ring-cyan-500 focus:border-cyan-500');
@@ -3205,16 +5798,18 @@ const TypingPracticeGame: React.FC = () => {
         const timeInMinutes = timeTaken / 60;
         const wpm = timeInMinutes > 0 ? Math.round((correctlyTypedChars / 5) / timeInMinutes) : 0;
         
-        handleGameComplete(currentScore, correctWords, incorrectWords, timeTaken);
+        clearSession();
+        handleGameComplete(currentScore, correctWords, incorrectWords, timeTaken, 'typingPracticeGame', { typedCharacters: correctlyTypedChars });
         onNavigate('gameResult', { score: currentScore, correct: correctWords, incorrect: incorrectWords, timeTaken, gameName: '타자 연습 게임', wpm });
-    }, [gameStartTime, currentScore, gameWordsInfo, handleGameComplete, onNavigate]);
+    }, [gameStartTime, currentScore, gameWordsInfo, handleGameComplete, onNavigate, clearSession]);
 
     const handleFormSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (gameState !== 'playing' || !gameWordsInfo[currentWordIndex]) return;
 
         const currentWordInfo = gameWordsInfo[currentWordIndex];
-        const isCorrect = inputValue.trim().toLowerCase() === currentWordInfo.originalWord.term.toLowerCase();
+        const { verdict } = checkSpellingAnswer(inputValue, currentWordInfo.originalWord.term, userSettings.answerStrictness);
+        const isCorrect = verdict !== 'incorrect';
 
         const updatedGameWordsInfo = [...gameWordsInfo];
         const updatedWordInfo = { ...updatedGameWordsInfo[currentWordIndex] };
@@ -3227,11 +5822,13 @@ const TypingPracticeGame: React.FC = () => {
             }
             updatedGameWordsInfo[currentWordIndex] = updatedWordInfo;
             setGameWordsInfo(updatedGameWordsInfo);
+            recordAnswer(currentWordInfo.originalWord.id, updatedWordInfo.firstTryCorrect && verdict === 'correct' ? 'good' : 'hard');
 
-            const points = updatedWordInfo.firstTryCorrect ? 15 : 5;
+            const points = updatedWordInfo.firstTryCorrect ? (verdict === 'correct' ? 15 : 10) : 5;
             setCurrentScore(prev => prev + points);
-            setInputFeedbackStyle('border-green-500 ring-2 ring-green-500');
+            setInputFeedbackStyle(TYPED_ANSWER_STYLES[verdict]);
             setInputValue('');
+            if (verdict === 'almost') addToast(`거의 맞았어요! 정확한 철자: ${currentWordInfo.originalWord.term}`, "warning");
             
             setTimeout(() => {
                 if (currentWordIndex + 1 < gameWordsInfo.length) {
@@ -3253,21 +5850,11 @@ const TypingPracticeGame: React.FC = () => {
         return (
             <div className="p-4 sm:p-8 flex flex-col items-center">
                 <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6">⌨️ 타자 연습 게임 설정</h1>
+                {savedSession && <ResumeSessionPrompt entry={{ screen: 'typingPracticeGame', session: savedSession }} onResume={resumeSavedGame} onDiscard={clearSession} />}
                 <div className="w-full max-w-md bg-slate-100 dark:bg-slate-700 p-6 rounded-lg shadow-lg space-y-6">
                     <div>
-                        <label htmlFor="unit-select-typing" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">모드 선택</label>
-                        <select
-                            id="unit-select-typing"
-                            value={String(selectedUnit)}
-                            onChange={(e) => setSelectedUnit(e.target.value)}
-                            className="w-full p-3 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500"
-                        >
-                            <option value="all">전체 단어 ({MAX_WORDS_IN_GAME}개 랜덤)</option>
-                            <optgroup label="단원별 게임">
-                                {units.map(unit => <option key={unit} value={unit}>단원 {unit}</option>)}
-                            </optgroup>
-                        </select>
-                         <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">알파벳으로만 구성된 단어만 출제됩니다.</p>
+                        <WordFilterPanel idPrefix="typing" filters={filters} onFiltersChange={setFilters} eligibleWords={typeableWords} questionCount={questionCount} onQuestionCountChange={setQuestionCount} />
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">알파벳으로만 구성된 단어만 출제됩니다.</p>
                     </div>
                     <button onClick={handleStartGame} className="w-full py-3 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-md shadow-md">
                         게임 시작
@@ -3318,11 +5905,12 @@ const TypingPracticeGame: React.FC = () => {
 
 // SpeedQuizGame
 const SpeedQuizGame: React.FC = () => {
-    const { allWords, onNavigate, handleGameComplete } = useAppContext();
+    const { allWords, wordStats, reviewLog, onNavigate, handleGameComplete } = useAppContext();
+    const { startSession, markQuestionShown, recordAnswer } = useReviewRecorder('speedQuizGame');
     const { addToast } = useToasts();
     
     const [gameState, setGameState] = useState<'setup' | 'playing' | 'finished'>('setup');
-    const [selectedUnit, setSelectedUnit] = useState<string|number>('all');
+    const [filters, setFilters] = useState<WordFilters>(DEFAULT_WORD_FILTERS);
     const [timeLeft, setTimeLeft] = useState(60);
     const [shuffledWords, setShuffledWords] = useState<Word[]>([]);
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -3333,34 +5921,13 @@ const SpeedQuizGame: React.FC = () => {
 
     const timerRef = useRef<number | null>(null);
 
-    const units = useMemo(() => {
-        const unitSet = new Set<string | number>();
-        allWords.forEach(word => {
-            if (word.unit) unitSet.add(word.unit);
-        });
-        return Array.from(unitSet).sort((a, b) => Number(a) - Number(b));
-    }, [allWords]);
-
     const [optionSource, setOptionSource] = useState<Word[]>([]);
 
+    const confusions = useMemo(() => buildConfusionIndex(reviewLog), [reviewLog]);
+
     const generateOptions = useCallback((correctWord: Word, optionSourceWords: Word[]) => {
-        let incorrectMeaningPool = shuffleArray(
-            optionSourceWords
-                .filter(w => w.id !== correctWord.id)
-                .map(w => w.meaning.split('/')[0].trim())
-        );
-        const uniqueIncorrectOptions = Array.from(new Set(incorrectMeaningPool)).slice(0, 3);
-        
-        let placeholderIndex = 1;
-        while (uniqueIncorrectOptions.length < 3) {
-            const placeholder = `오답 ${placeholderIndex++}`;
-             if(!uniqueIncorrectOptions.includes(placeholder) && placeholder !== correctWord.meaning.split('/')[0].trim()) {
-                 uniqueIncorrectOptions.push(placeholder);
-            }
-        }
-        
-        setOptions(shuffleArray([correctWord.meaning.split('/')[0].trim(), ...uniqueIncorrectOptions]));
-    }, []);
+        setOptions(buildChoiceOptions(correctWord, optionSourceWords, { answerWith: 'meaning', confusions }));
+    }, [confusions]);
     
     const setupNextQuestion = useCallback((index: number) => {
         if (shuffledWords.length === 0 || optionSource.length === 0) return;
@@ -3382,7 +5949,7 @@ const SpeedQuizGame: React.FC = () => {
         const score = correctCount * 10 - incorrectCount * 5;
         const finalScore = Math.max(0, score);
 
-        handleGameComplete(finalScore, correctCount, incorrectCount, 60);
+        handleGameComplete(finalScore, correctCount, incorrectCount, 60, 'speedQuizGame');
 
         setGameState('finished');
         onNavigate('gameResult', {
@@ -3408,12 +5975,7 @@ const SpeedQuizGame: React.FC = () => {
     }, [gameState, timeLeft, endGame]);
 
     const startGame = () => {
-        let sourceWords: Word[] = [];
-        if (selectedUnit === 'all') {
-            sourceWords = allWords;
-        } else {
-            sourceWords = allWords.filter(w => String(w.unit) === String(selectedUnit));
-        }
+        const sourceWords = applyWordFilters(allWords, wordStats, filters);
 
         if (sourceWords.length < 4) {
             addToast(`스피드 퀴즈를 위해 단어가 최소 4개 필요합니다.`, "warning");
@@ -3422,13 +5984,15 @@ const SpeedQuizGame: React.FC = () => {
         
         const gameWords = shuffleArray(sourceWords);
         setShuffledWords(gameWords);
-        setOptionSource(sourceWords);
+        setOptionSource(allWords); // The distractor engine prefers words from the question's unit
         setTimeLeft(60);
         setCorrectCount(0);
         setIncorrectCount(0);
         setCurrentQuestionIndex(0);
-        generateOptions(gameWords[0], sourceWords);
+        generateOptions(gameWords[0], allWords);
         setGameState('playing');
+        startSession();
+        markQuestionShown();
     };
 
     const handleAnswer = (selectedMeaning: string) => {
@@ -3439,6 +6003,8 @@ const SpeedQuizGame: React.FC = () => {
         const isCorrect = correctAnswers.includes(selectedMeaning);
         
         setFeedback(isCorrect ? 'correct' : 'incorrect');
+        const confusedWord = isCorrect ? undefined : findWordForChoice(selectedMeaning, currentWord, allWords, 'meaning');
+        recordAnswer(currentWord.id, isCorrect ? 'good' : 'again', confusedWord?.id);
 
         if (isCorrect) {
             setCorrectCount(prev => prev + 1);
@@ -3453,29 +6019,17 @@ const SpeedQuizGame: React.FC = () => {
             const nextIndex = currentQuestionIndex + 1;
             setCurrentQuestionIndex(nextIndex);
             setupNextQuestion(nextIndex);
+            markQuestionShown();
         }, 300);
     };
-    
-    if (gameState === 'setup') {
-        return (
-            <div className="p-4 sm:p-8 flex flex-col items-center justify-center min-h-[calc(100vh-150px)] sm:min-h-0">
-                <h1 className="text-3xl sm:text-4xl font-bold text-cyan-600 dark:text-cyan-400 mb-4">⏱️ 스피드 퀴즈 설정</h1>
-                 <p className="text-slate-600 dark:text-slate-300 mb-8 max-w-md text-center">60초 동안 최대한 많은 단어의 뜻을 맞춰보세요! 정답 시 +2초, 오답 시 -3초.</p>
-                <div className="w-full max-w-md bg-slate-100 dark:bg-slate-700 p-6 rounded-lg shadow-lg space-y-6">
-                    <div>
-                        <label htmlFor="unit-select-speed" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">모드 선택</label>
-                        <select
-                            id="unit-select-speed"
-                            value={String(selectedUnit)}
-                            onChange={(e) => setSelectedUnit(e.target.value)}
-                            className="w-full p-3 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500"
-                        >
-                            <option value="all">전체 단어</option>
-                            <optgroup label="단원별 게임">
-                                {units.map(unit => <option key={unit} value={unit}>단원 {unit}</option>)}
-                            </optgroup>
-                        </select>
-                    </div>
+    
+    if (gameState === 'setup') {
+        return (
+            <div className="p-4 sm:p-8 flex flex-col items-center justify-center min-h-[calc(100vh-150px)] sm:min-h-0">
+                <h1 className="text-3xl sm:text-4xl font-bold text-cyan-600 dark:text-cyan-400 mb-4">⏱️ 스피드 퀴즈 설정</h1>
+                 <p className="text-slate-600 dark:text-slate-300 mb-8 max-w-md text-center">60초 동안 최대한 많은 단어의 뜻을 맞춰보세요! 정답 시 +2초, 오답 시 -3초.</p>
+                <div className="w-full max-w-md bg-slate-100 dark:bg-slate-700 p-6 rounded-lg shadow-lg space-y-6">
+                    <WordFilterPanel idPrefix="speed" filters={filters} onFiltersChange={setFilters} />
                     <button onClick={startGame} className="w-full py-3 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-md shadow-md">
                         게임 시작!
                     </button>
@@ -3539,11 +6093,12 @@ interface FallingWord {
 }
 
 const WordShooterGame: React.FC = () => {
-    const { allWords, onNavigate, handleGameComplete } = useAppContext();
+    const { allWords, wordStats, onNavigate, handleGameComplete } = useAppContext();
+    const { startSession, markQuestionShown, recordAnswer } = useReviewRecorder('wordShooterGame');
     const { addToast } = useToasts();
     
     const [gameState, setGameState] = useState<'setup' | 'playing' | 'finished'>('setup');
-    const [selectedUnit, setSelectedUnit] = useState<string|number>('all');
+    const [filters, setFilters] = useState<WordFilters>(DEFAULT_WORD_FILTERS);
     
     const [questions, setQuestions] = useState<Word[]>([]);
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -3555,21 +6110,17 @@ const WordShooterGame: React.FC = () => {
 
     const NUM_QUESTIONS = 15;
     const MIN_WORDS_FOR_GAME = 5;
+    const [questionCount, setQuestionCount] = useState<QuestionCount>(NUM_QUESTIONS);
 
-    const units = useMemo(() => {
-        const unitSet = new Set<string | number>();
-        allWords.forEach(word => {
-            if (word.unit) unitSet.add(word.unit);
-        });
-        return Array.from(unitSet).sort((a, b) => Number(a) - Number(b));
-    }, [allWords]);
+    // Filters can't change mid-game, so wrong targets keep coming from the same words as the questions
+    const sourceWords = useMemo(() => applyWordFilters(allWords, wordStats, filters), [allWords, wordStats, filters]);
 
     const currentQuestionWord = useMemo(() => questions[currentQuestionIndex], [questions, currentQuestionIndex]);
 
     const endGame = useCallback(() => {
         const correctAnswers = score / 10;
         const incorrectAnswers = Math.max(0, currentQuestionIndex - correctAnswers);
-        handleGameComplete(score, correctAnswers, incorrectAnswers, 0);
+        handleGameComplete(score, correctAnswers, incorrectAnswers, 0, 'wordShooterGame');
         onNavigate('gameResult', { score, correct: correctAnswers, incorrect: incorrectAnswers, timeTaken: 0, gameName: '뜻 사격 게임' });
         setGameState('finished');
     }, [score, currentQuestionIndex, handleGameComplete, onNavigate]);
@@ -3599,44 +6150,42 @@ const WordShooterGame: React.FC = () => {
             delay: Math.random() * 1.5,
             duration: 8 + Math.random() * 4,
         })));
-    }, [endGame]);
+        markQuestionShown();
+    }, [endGame, markQuestionShown]);
 
     const handleStartGame = () => {
-        const sourceWords = selectedUnit === 'all' 
-            ? allWords 
-            : allWords.filter(w => String(w.unit) === String(selectedUnit));
-
         if (sourceWords.length < MIN_WORDS_FOR_GAME) {
             addToast(`사격 게임을 위해 단어가 최소 ${MIN_WORDS_FOR_GAME}개 필요합니다.`, "warning");
             return;
         }
 
-        const gameQuestions = shuffleArray(sourceWords).slice(0, NUM_QUESTIONS);
+        const gameQuestions = limitQuestionCount(shuffleArray(sourceWords), questionCount);
         setQuestions(gameQuestions);
         setScore(0);
         setLives(3);
         setCurrentQuestionIndex(0);
         setFeedback(null);
+        startSession();
         setupQuestion(0, gameQuestions, sourceWords);
         setGameState('playing');
     };
     
     const goToNextQuestion = useCallback(() => {
         const nextQIndex = currentQuestionIndex + 1;
-        const sourceWords = selectedUnit === 'all' ? allWords : allWords.filter(w => String(w.unit) === String(selectedUnit));
         
         setTimeout(() => {
             setFeedback(null);
             setCurrentQuestionIndex(nextQIndex);
             setupQuestion(nextQIndex, questions, sourceWords);
         }, 800);
-    }, [currentQuestionIndex, questions, selectedUnit, allWords, setupQuestion]);
+    }, [currentQuestionIndex, questions, sourceWords, setupQuestion]);
 
 
     const handleWordSelection = (selectedWord: Word) => {
         if (feedback) return;
 
         const isCorrect = selectedWord.id === currentQuestionWord.id;
+        recordAnswer(currentQuestionWord.id, isCorrect ? 'good' : 'again');
         if (isCorrect) {
             setScore(s => s + 10);
             setFeedback('correct');
@@ -3649,6 +6198,7 @@ const WordShooterGame: React.FC = () => {
 
     const handleAnimationEnd = (wordId: string | number) => {
         if (wordId === currentQuestionWord?.id && !feedback) {
+            recordAnswer(currentQuestionWord.id, 'again');
             setLives(l => l - 1);
             setFeedback('miss');
             goToNextQuestion();
@@ -3660,20 +6210,7 @@ const WordShooterGame: React.FC = () => {
             <div className="p-4 sm:p-8 flex flex-col items-center">
                 <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6">🎯 뜻 사격 게임 설정</h1>
                 <div className="w-full max-w-md bg-slate-100 dark:bg-slate-700 p-6 rounded-lg shadow-lg space-y-6">
-                    <div>
-                        <label htmlFor="unit-select-shooter" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">모드 선택</label>
-                        <select
-                            id="unit-select-shooter"
-                            value={String(selectedUnit)}
-                            onChange={(e) => setSelectedUnit(e.target.value)}
-                            className="w-full p-3 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500"
-                        >
-                            <option value="all">전체 단어 ({NUM_QUESTIONS}문제 랜덤)</option>
-                            <optgroup label="단원별 게임">
-                                {units.map(unit => <option key={unit} value={unit}>단원 {unit}</option>)}
-                            </optgroup>
-                        </select>
-                    </div>
+                    <WordFilterPanel idPrefix="shooter" filters={filters} onFiltersChange={setFilters} questionCount={questionCount} onQuestionCountChange={setQuestionCount} />
                     <button onClick={handleStartGame} className="w-full py-3 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-md shadow-md">
                         게임 시작
                     </button>
@@ -3697,7 +6234,7 @@ const WordShooterGame: React.FC = () => {
             <div className="p-4 bg-slate-100 dark:bg-slate-800/80 shadow-md z-10">
                 <div className="flex justify-between items-center max-w-4xl mx-auto">
                     <p className="text-lg font-semibold text-slate-700 dark:text-slate-200">점수: <span className="text-cyan-500">{score}</span></p>
-                    <p className="text-lg font-semibold text-slate-700 dark:text-slate-200">문제: {Math.min(currentQuestionIndex + 1, NUM_QUESTIONS)} / {NUM_QUESTIONS}</p>
+                    <p className="text-lg font-semibold text-slate-700 dark:text-slate-200">문제: {Math.min(currentQuestionIndex + 1, questions.length)} / {questions.length}</p>
                     <p className="text-lg font-semibold text-slate-700 dark:text-slate-200">생명: {'❤️'.repeat(lives)}{'🤍'.repeat(Math.max(0, 3 - lives))}</p>
                 </div>
                 <div className="mt-4 text-center">
@@ -3730,11 +6267,12 @@ const WordShooterGame: React.FC = () => {
 
 // WordBombGame
 const WordBombGame: React.FC = () => {
-    const { allWords, onNavigate, handleGameComplete } = useAppContext();
+    const { userSettings, allWords, wordStats, onNavigate, handleGameComplete } = useAppContext();
+    const { startSession, markQuestionShown, recordAnswer } = useReviewRecorder('wordBombGame');
     const { addToast } = useToasts();
     
     const [gameState, setGameState] = useState<'setup' | 'playing' | 'finished'>('setup');
-    const [selectedUnit, setSelectedUnit] = useState<string|number>('all');
+    const [filters, setFilters] = useState<WordFilters>(DEFAULT_WORD_FILTERS);
     
     const [questions, setQuestions] = useState<Word[]>([]);
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -3752,14 +6290,9 @@ const WordBombGame: React.FC = () => {
     const NUM_QUESTIONS = 20;
     const MIN_WORDS_FOR_GAME = 5;
     const ANIMATION_DURATION = '10s';
+    const [questionCount, setQuestionCount] = useState<QuestionCount>(NUM_QUESTIONS);
 
-    const units = useMemo(() => {
-        const unitSet = new Set<string | number>();
-        allWords.forEach(word => {
-            if (word.unit) unitSet.add(word.unit);
-        });
-        return Array.from(unitSet).sort((a, b) => Number(a) - Number(b));
-    }, [allWords]);
+    const typeableWords = useMemo(() => allWords.filter(w => /^[a-zA-Z\s'-]+$/.test(w.term)), [allWords]);
 
     const currentQuestion = useMemo(() => questions[currentQuestionIndex], [questions, currentQuestionIndex]);
 
@@ -3776,7 +6309,7 @@ const WordBombGame: React.FC = () => {
         
         const correctAnswers = score / 10;
         const incorrectAnswers = Math.max(0, currentQuestionIndex - correctAnswers);
-        handleGameComplete(score, correctAnswers, incorrectAnswers, 0);
+        handleGameComplete(score, correctAnswers, incorrectAnswers, 0, 'wordBombGame');
         onNavigate('gameResult', { score, correct: correctAnswers, incorrect: incorrectAnswers, timeTaken: 0, gameName: '단어 폭탄 제거' });
         setGameState('finished');
     }, [score, currentQuestionIndex, handleGameComplete, onNavigate, gameState, cleanUp]);
@@ -3803,13 +6336,20 @@ const WordBombGame: React.FC = () => {
         setBombKey(k => k + 1);
         setIsSubmitting(false);
         inputRef.current?.focus();
-    }, [questions, endGame]);
+        markQuestionShown();
+    }, [questions, endGame, markQuestionShown]);
 
-    const handleAnswer = useCallback((isCorrect: boolean) => {
+    const handleAnswer = useCallback((verdict: AnswerVerdict) => {
         if (isSubmitting) return;
         setIsSubmitting(true);
+        const isCorrect = verdict !== 'incorrect';
+        if (currentQuestion) recordAnswer(currentQuestion.id, ANSWER_VERDICT_GRADES[verdict]);
 
-        if (isCorrect) {
+        if (verdict === 'almost') {
+            setScore(s => s + 5);
+            setFeedbackClass('bg-yellow-500/20 dark:bg-yellow-500/10');
+            if (currentQuestion) addToast(`거의 맞았어요! 정확한 철자: ${currentQuestion.term}`, "warning");
+        } else if (isCorrect) {
             setScore(s => s + 10);
             setFeedbackClass('bg-green-500/20 dark:bg-green-500/10');
         } else {
@@ -3827,11 +6367,12 @@ const WordBombGame: React.FC = () => {
                 setupNextQuestion(currentQuestionIndex + 1);
             }
         }, 500);
-    }, [isSubmitting, lives, endGame, setupNextQuestion, currentQuestionIndex]);
+    }, [isSubmitting, lives, endGame, setupNextQuestion, currentQuestionIndex, currentQuestion, recordAnswer, addToast]);
 
     const handleAnimationEnd = useCallback(() => {
         if (isSubmitting) return;
         setIsSubmitting(true);
+        if (currentQuestion) recordAnswer(currentQuestion.id, 'again');
         setLives(l => l - 1);
         setFeedbackClass('bg-yellow-500/20 dark:bg-yellow-500/10');
         
@@ -3843,35 +6384,32 @@ const WordBombGame: React.FC = () => {
                 setupNextQuestion(currentQuestionIndex + 1);
             }
         }, 500);
-    }, [isSubmitting, lives, endGame, setupNextQuestion, currentQuestionIndex]);
+    }, [isSubmitting, lives, endGame, setupNextQuestion, currentQuestionIndex, currentQuestion, recordAnswer]);
     
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const value = e.target.value;
         setInputValue(value);
+        // Only an exact spelling defuses the bomb while typing; near misses are judged on submit
         if (currentQuestion && value.trim().toLowerCase() === currentQuestion.term.toLowerCase()) {
-            handleAnswer(true);
+            handleAnswer('correct');
         }
     };
 
     const handleFormSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (isSubmitting || !inputValue.trim()) return;
-        handleAnswer(inputValue.trim().toLowerCase() === currentQuestion.term.toLowerCase());
+        handleAnswer(checkSpellingAnswer(inputValue, currentQuestion.term, userSettings.answerStrictness).verdict);
     };
     
     const handleStartGame = () => {
-        const alphabetOnly = (term: string) => /^[a-zA-Z\s'-]+$/.test(term);
-        const sourceWords = (selectedUnit === 'all' 
-            ? allWords 
-            : allWords.filter(w => String(w.unit) === String(selectedUnit))
-        ).filter(w => alphabetOnly(w.term));
+        const sourceWords = applyWordFilters(typeableWords, wordStats, filters);
 
         if (sourceWords.length < MIN_WORDS_FOR_GAME) {
             addToast(`단어 폭탄 제거 게임을 위해 알파벳 단어가 최소 ${MIN_WORDS_FOR_GAME}개 필요합니다.`, "warning");
             return;
         }
 
-        setQuestions(shuffleArray(sourceWords).slice(0, NUM_QUESTIONS));
+        setQuestions(limitQuestionCount(shuffleArray(sourceWords), questionCount));
         setScore(0);
         setLives(5);
         setCurrentQuestionIndex(0);
@@ -3880,6 +6418,8 @@ const WordBombGame: React.FC = () => {
         setFeedbackClass('');
         setIsSubmitting(false);
         setGameState('playing');
+        startSession();
+        markQuestionShown();
         
         // Focus after state update
         setTimeout(() => inputRef.current?.focus(), 0);
@@ -3891,18 +6431,7 @@ const WordBombGame: React.FC = () => {
                 <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6">💣 단어 폭탄 제거 설정</h1>
                 <div className="w-full max-w-md bg-slate-100 dark:bg-slate-700 p-6 rounded-lg shadow-lg space-y-6">
                     <div>
-                        <label htmlFor="unit-select-bomb" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">모드 선택</label>
-                        <select
-                            id="unit-select-bomb"
-                            value={String(selectedUnit)}
-                            onChange={(e) => setSelectedUnit(e.target.value)}
-                            className="w-full p-3 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500"
-                        >
-                            <option value="all">전체 단어 ({NUM_QUESTIONS}문제 랜덤)</option>
-                            <optgroup label="단원별 게임">
-                                {units.map(unit => <option key={unit} value={unit}>단원 {unit}</option>)}
-                            </optgroup>
-                        </select>
+                        <WordFilterPanel idPrefix="bomb" filters={filters} onFiltersChange={setFilters} eligibleWords={typeableWords} questionCount={questionCount} onQuestionCountChange={setQuestionCount} />
                         <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">알파벳으로만 구성된 단어만 출제됩니다.</p>
                     </div>
                     <button onClick={handleStartGame} className="w-full py-3 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-md shadow-md">
@@ -3918,7 +6447,7 @@ const WordBombGame: React.FC = () => {
             <div className="p-4 bg-slate-100 dark:bg-slate-800/80 shadow-md z-10">
                 <div className="flex justify-between items-center max-w-4xl mx-auto">
                     <p className="text-lg font-semibold text-slate-700 dark:text-slate-200">점수: <span className="text-cyan-500">{score}</span></p>
-                    <p className="text-lg font-semibold text-slate-700 dark:text-slate-200">문제: {Math.min(currentQuestionIndex + 1, NUM_QUESTIONS)} / {NUM_QUESTIONS}</p>
+                    <p className="text-lg font-semibold text-slate-700 dark:text-slate-200">문제: {Math.min(currentQuestionIndex + 1, questions.length)} / {questions.length}</p>
                     <p className="text-lg font-semibold text-slate-700 dark:text-slate-200">생명: {'❤️'.repeat(lives)}{'🤍'.repeat(Math.max(0, 5 - lives))}</p>
                 </div>
             </div>
@@ -3971,14 +6500,15 @@ interface FallingZombie {
 }
 
 const WordZombieDefenseGame: React.FC = () => {
-    const { allWords, onNavigate, handleGameComplete, userSettings } = useAppContext();
+    const { allWords, wordStats, onNavigate, handleGameComplete, userSettings } = useAppContext();
+    const { startSession, markQuestionShown, recordAnswer } = useReviewRecorder('wordZombieDefense');
     const { addToast } = useToasts();
     
     const [gameState, setGameState] = useState<'setup' | 'playing' | 'finished'>('setup');
     const [gameSettings, setGameSettings] = useState({
-        unit: 'all' as string | number,
         inputType: 'click' as 'click' | 'typing',
     });
+    const [filters, setFilters] = useState<WordFilters>(DEFAULT_WORD_FILTERS);
     
     const [questions, setQuestions] = useState<Word[]>([]);
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -3997,14 +6527,14 @@ const WordZombieDefenseGame: React.FC = () => {
     const MIN_WORDS_FOR_GAME = 5;
     const ZOMBIE_ANIMATION_DURATION_MIN = 10;
     const ZOMBIE_ANIMATION_DURATION_MAX = 15;
+    const [questionCount, setQuestionCount] = useState<QuestionCount>(NUM_QUESTIONS);
 
-    const units = useMemo(() => {
-        const unitSet = new Set<string | number>();
-        allWords.forEach(word => {
-            if (word.unit) unitSet.add(word.unit);
-        });
-        return Array.from(unitSet).sort((a, b) => Number(a) - Number(b));
-    }, [allWords]);
+    // Typing mode only asks words that can be typed on an English keyboard
+    const eligibleWords = useMemo(
+        () => gameSettings.inputType === 'typing' ? allWords.filter(w => /^[a-zA-Z\s'-]+$/.test(w.term)) : allWords,
+        [allWords, gameSettings.inputType],
+    );
+    const sourceWords = useMemo(() => applyWordFilters(eligibleWords, wordStats, filters), [eligibleWords, wordStats, filters]);
 
     const currentQuestionWord = useMemo(() => questions[currentQuestionIndex], [questions, currentQuestionIndex]);
 
@@ -4021,7 +6551,7 @@ const WordZombieDefenseGame: React.FC = () => {
         
         const correctAnswers = score / 10;
         const incorrectAnswers = Math.max(0, currentQuestionIndex - correctAnswers);
-        handleGameComplete(score, correctAnswers, incorrectAnswers, 0);
+        handleGameComplete(score, correctAnswers, incorrectAnswers, 0, 'wordZombieDefense');
         onNavigate('gameResult', { score, correct: correctAnswers, incorrect: incorrectAnswers, timeTaken: 0, gameName: '단어 좀비 디펜스' });
         setGameState('finished');
     }, [gameState, cleanUpTimers, score, currentQuestionIndex, handleGameComplete, onNavigate]);
@@ -4048,7 +6578,7 @@ const WordZombieDefenseGame: React.FC = () => {
         const incorrectOptions = shuffleArray(optionSource.filter(w => w.id !== correctWord.id)).slice(0, MIN_WORDS_FOR_GAME - 1);
         const optionsForScreen = shuffleArray([correctWord, ...incorrectOptions]);
 
-        const speedMultiplier = 1 - (qIndex / (NUM_QUESTIONS * 2)); // Gets faster over time
+        const speedMultiplier = 1 - (qIndex / (gameWords.length * 2)); // Gets faster over time, up to twice the starting speed
 
         setFallingZombies(optionsForScreen.map((word, index) => ({
             word,
@@ -4060,28 +6590,25 @@ const WordZombieDefenseGame: React.FC = () => {
         })));
         setIsSubmitting(false);
         setInputValue('');
+        markQuestionShown();
         if (gameSettings.inputType === 'typing') {
             setTimeout(() => inputRef.current?.focus(), 100);
         }
-    }, [endGame, gameSettings.inputType, NUM_QUESTIONS]);
+    }, [endGame, gameSettings.inputType, markQuestionShown]);
     
     const goToNextQuestion = useCallback(() => {
         const nextQIndex = currentQuestionIndex + 1;
-        const alphabetOnly = (term: string) => /^[a-zA-Z\s'-]+$/.test(term);
-        const sourceWords = gameSettings.unit === 'all' 
-            ? allWords 
-            : allWords.filter(w => String(w.unit) === String(gameSettings.unit));
-        const filteredSource = gameSettings.inputType === 'typing' ? sourceWords.filter(w => alphabetOnly(w.term)) : sourceWords;
 
         timerIdRef.current = setTimeout(() => {
             setFeedbackClass('');
             setCurrentQuestionIndex(nextQIndex);
-            setupQuestion(nextQIndex, questions, filteredSource);
+            setupQuestion(nextQIndex, questions, sourceWords);
         }, 800);
-    }, [currentQuestionIndex, gameSettings.unit, gameSettings.inputType, allWords, setupQuestion, questions]);
+    }, [currentQuestionIndex, sourceWords, setupQuestion, questions]);
 
     const processAnswer = useCallback((isCorrect: boolean) => {
         if (isSubmitting) return;
+        recordAnswer(currentQuestionWord.id, isCorrect ? 'good' : 'again');
 
         if (isCorrect) {
             setIsSubmitting(true);
@@ -4106,7 +6633,7 @@ const WordZombieDefenseGame: React.FC = () => {
                 setInputValue('');
             }
         }
-    }, [isSubmitting, cleanUpTimers, currentQuestionWord, userSettings.speechRate, goToNextQuestion, gameSettings.inputType, lives]);
+    }, [isSubmitting, cleanUpTimers, currentQuestionWord, userSettings.speechRate, goToNextQuestion, gameSettings.inputType, lives, recordAnswer]);
 
     const handleZombieClick = (selectedWord: Word) => {
         processAnswer(selectedWord.id === currentQuestionWord.id);
@@ -4131,6 +6658,7 @@ const WordZombieDefenseGame: React.FC = () => {
         if (wordId === currentQuestionWord?.id && !isSubmitting) {
             setIsSubmitting(true);
             cleanUpTimers();
+            recordAnswer(currentQuestionWord.id, 'again');
             setLives(l => l - 1);
             setFeedbackClass('bg-yellow-500/20 dark:bg-yellow-500/10');
             addToast("좀비를 놓쳤습니다!", "warning");
@@ -4139,24 +6667,19 @@ const WordZombieDefenseGame: React.FC = () => {
     };
 
     const handleStartGame = () => {
-        const alphabetOnly = (term: string) => /^[a-zA-Z\s'-]+$/.test(term);
-        const sourceWords = (gameSettings.unit === 'all' 
-            ? allWords 
-            : allWords.filter(w => String(w.unit) === String(gameSettings.unit))
-        ).filter(w => gameSettings.inputType === 'typing' ? alphabetOnly(w.term) : true);
-
         if (sourceWords.length < MIN_WORDS_FOR_GAME) {
             addToast(`좀비 디펜스 게임을 위해 단어가 최소 ${MIN_WORDS_FOR_GAME}개 필요합니다. (사용 가능 단어: ${sourceWords.length}개)`, "warning");
             return;
         }
 
-        const gameQuestions = shuffleArray(sourceWords).slice(0, NUM_QUESTIONS);
+        const gameQuestions = limitQuestionCount(shuffleArray(sourceWords), questionCount);
         setQuestions(gameQuestions);
         setScore(0);
         setLives(5);
         setCurrentQuestionIndex(0);
         setFeedbackClass('');
         setIsSubmitting(false);
+        startSession();
         setupQuestion(0, gameQuestions, sourceWords);
         setGameState('playing');
     };
@@ -4171,16 +6694,7 @@ const WordZombieDefenseGame: React.FC = () => {
             <div className="p-4 sm:p-8 flex flex-col items-center">
                 <h1 className="text-2xl sm:text-3xl font-bold text-cyan-600 dark:text-cyan-400 mb-6">🧟 단어 좀비 디펜스 설정</h1>
                 <div className="w-full max-w-md bg-slate-100 dark:bg-slate-700 p-6 rounded-lg shadow-lg space-y-6">
-                    <div>
-                        <label htmlFor="unit" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">단어 범위 선택</label>
-                        <select name="unit" id="unit" value={String(gameSettings.unit)} onChange={handleSettingChange}
-                            className="w-full p-3 bg-white dark:bg-slate-600 rounded-md border-slate-300 dark:border-slate-500">
-                            <option value="all">전체 단어 ({NUM_QUESTIONS}문제 랜덤)</option>
-                            <optgroup label="단원별 게임">
-                                {units.map(unit => <option key={unit} value={unit}>단원 {unit}</option>)}
-                            </optgroup>
-                        </select>
-                    </div>
+                    <WordFilterPanel idPrefix="zombie" filters={filters} onFiltersChange={setFilters} eligibleWords={eligibleWords} questionCount={questionCount} onQuestionCountChange={setQuestionCount} />
 
                     <div>
                         <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">입력 방식 선택</label>
@@ -4210,7 +6724,7 @@ const WordZombieDefenseGame: React.FC = () => {
             <div className="p-4 bg-slate-100 dark:bg-slate-800/80 shadow-md z-10">
                  <div className="flex justify-between items-center max-w-4xl mx-auto">
                      <p className="text-lg font-semibold text-slate-700 dark:text-slate-200">점수: <span className="text-cyan-500">{score}</span></p>
-                    <p className="text-lg font-semibold text-slate-700 dark:text-slate-200">문제: {Math.min(currentQuestionIndex + 1, NUM_QUESTIONS)} / {NUM_QUESTIONS}</p>
+                    <p className="text-lg font-semibold text-slate-700 dark:text-slate-200">문제: {Math.min(currentQuestionIndex + 1, questions.length)} / {questions.length}</p>
                     <p className="text-lg font-semibold text-slate-700 dark:text-slate-200">생명: {'❤️'.repeat(lives)}{'🤍'.repeat(Math.max(0, 5 - lives))}</p>
                  </div>
                  <div className="mt-4 text-center">
@@ -4262,89 +6776,134 @@ const WordZombieDefenseGame: React.FC = () => {
 
 
 // Main App Component
-const App: React.FC = () => {
+const AppContent: React.FC<{ initialLoad: AppDataLoadResult; profileControls: ProfileControls }> = ({ initialLoad, profileControls }) => {
     const { addToast } = useToasts();
     
-    // State initialization from localStorage or defaults
-    const [userSettings, setUserSettings] = useState<UserSettings | null>(() => {
-        try {
-            const savedSettings = localStorage.getItem('userSettings');
-            return savedSettings ? JSON.parse(savedSettings) : null;
-        } catch (error) {
-            console.error("Could not parse userSettings from localStorage:", error);
-            return null;
-        }
-    });
+    // State is seeded from what App loaded (and migrated, if needed) from storage before mounting this component
+    const [userSettings, setUserSettings] = useState<UserSettings | null>(initialLoad.data.userSettings);
 
-    const [allWords, setAllWords] = useState<Word[]>(() => {
-        try {
-            const savedWords = localStorage.getItem('allWords');
-            if (savedWords) return JSON.parse(savedWords);
-            // On first load, combine sample words and an example custom word
-            return [
-                ...sampleWords,
-            ];
-        } catch (error) {
-            console.error("Could not parse allWords from localStorage:", error);
-            return [...sampleWords];
-        }
-    });
+    // Only custom words and edits to built-in words are stored; built-in words come from the bundled dataset
+    const [customWords, setCustomWords] = useState<Word[]>(initialLoad.data.customWords ?? []);
+    const [wordOverrides, setWordOverrides] = useState<Record<string | number, WordOverride>>(initialLoad.data.wordOverrides ?? {});
+    const [datasetChanges, setDatasetChanges] = useState<DatasetChanges | null>(initialLoad.data.datasetChanges);
+
+    const allWords = useMemo(
+        () => [...applyWordOverrides(sampleWords, wordOverrides), ...customWords],
+        [customWords, wordOverrides]
+    );
 
     const [wordStats, setWordStats] = useState<Record<string | number, WordStat>>(() => {
-        try {
-            const savedStats = localStorage.getItem('wordStats');
-            if(savedStats) {
-                return JSON.parse(savedStats);
-            }
-            // Initialize stats for all default words on first load
-            const initialStats: Record<string|number, WordStat> = {};
-            allWords.forEach(word => {
-                initialStats[word.id] = getDefaultWordStat(word.id);
-            });
-            return initialStats;
-        } catch (error) {
-            console.error("Could not parse wordStats from localStorage:", error);
-            return {};
-        }
+        if (initialLoad.data.wordStats) return initialLoad.data.wordStats;
+        // Initialize stats for all default words on first load
+        const initialStats: Record<string|number, WordStat> = {};
+        allWords.forEach(word => {
+            initialStats[word.id] = getDefaultWordStat(word.id);
+        });
+        return initialStats;
     });
 
-    const [appScreen, setAppScreen] = useState<AppScreen>(userSettings ? 'dashboard' : 'loginSetup');
-    const [routeParams, setRouteParams] = useState<any>({});
+    const [reviewLog, setReviewLog] = useState<ReviewLogEntry[]>(initialLoad.data.reviewLog ?? []);
+
+    // The screen comes from the URL hash so a refresh or shared link reopens it; see router.ts
+    const [initialHash] = useState(() => parseRouteHash(window.location.hash));
+    const [route, setRoute] = useState<AppRoute>(() => {
+        if (!userSettings) return { screen: 'loginSetup', params: {} };
+        return initialHash.route.screen === 'loginSetup' ? { screen: 'dashboard', params: {} } : initialHash.route;
+    });
+    const { screen: appScreen, params: routeParams } = route;
     const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
-    const [globalLoading, setGlobalLoading] = useState(false);
 
-    // Persist to localStorage whenever critical data changes
+    // Last saved versions of words and stats; the repository diffs against these to write only changed records
+    const persistedWordsRef = useRef<Word[]>(initialLoad.data.customWords ?? []);
+    const persistedWordStatsRef = useRef<Record<string | number, WordStat>>(initialLoad.data.wordStats ?? {});
+
+    // Persist whenever critical data changes
     useEffect(() => {
-        try {
-            if (userSettings) {
-                localStorage.setItem('userSettings', JSON.stringify(userSettings));
-            } else {
-                localStorage.removeItem('userSettings');
-            }
-        } catch (error) {
+        saveUserSettings(userSettings).catch(error => {
             addToast("설정 저장에 실패했습니다. 저장 공간이 부족할 수 있습니다.", "error");
-            console.error("Error saving userSettings to localStorage:", error);
-        }
+            console.error("Error saving userSettings:", error);
+        });
     }, [userSettings, addToast]);
     
     useEffect(() => {
-        try {
-            localStorage.setItem('allWords', JSON.stringify(allWords));
-        } catch (error) {
-             addToast("단어 목록 저장에 실패했습니다. 저장 공간이 부족할 수 있습니다.", "error");
-            console.error("Error saving allWords to localStorage:", error);
-        }
-    }, [allWords, addToast]);
+        const previousWords = persistedWordsRef.current;
+        persistedWordsRef.current = customWords;
+        saveCustomWords(previousWords, customWords).catch(error => {
+            addToast("단어 목록 저장에 실패했습니다. 저장 공간이 부족할 수 있습니다.", "error");
+            console.error("Error saving customWords:", error);
+        });
+    }, [customWords, addToast]);
 
     useEffect(() => {
-        try {
-            localStorage.setItem('wordStats', JSON.stringify(wordStats));
-        } catch (error) {
+        saveWordOverrides(wordOverrides).catch(error => {
+            addToast("단어 수정 내역 저장에 실패했습니다. 저장 공간이 부족할 수 있습니다.", "error");
+            console.error("Error saving wordOverrides:", error);
+        });
+    }, [wordOverrides, addToast]);
+
+    useEffect(() => {
+        const previousStats = persistedWordStatsRef.current;
+        persistedWordStatsRef.current = wordStats;
+        saveWordStats(previousStats, wordStats).catch(error => {
             addToast("학습 상태 저장에 실패했습니다. 저장 공간이 부족할 수 있습니다.", "error");
-            console.error("Error saving wordStats to localStorage:", error);
-        }
+            console.error("Error saving wordStats:", error);
+        });
     }, [wordStats, addToast]);
 
+    useEffect(() => {
+        saveReviewLog(reviewLog).catch(error => {
+            addToast("학습 기록 저장에 실패했습니다. 저장 공간이 부족할 수 있습니다.", "error");
+            console.error("Error saving reviewLog:", error);
+        });
+    }, [reviewLog, addToast]);
+
+    useEffect(() => {
+        if (initialLoad.corruptKeys.length > 0) {
+            addToast(`저장된 데이터 일부(${initialLoad.corruptKeys.join(', ')})를 읽을 수 없어 따로 보관하고 초기화했습니다.`, "error");
+        }
+        if (initialLoad.isReadOnly) {
+            addToast("이 학습 데이터는 더 새로운 버전의 앱에서 저장되었습니다. 데이터를 지키기 위해 읽기 전용으로 열었으며, 변경 내용은 저장되지 않습니다.", "warning");
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    // Compare the bundled dataset with the one seen last session and record what an app update changed
+    useEffect(() => {
+        const snapshot = createDatasetSnapshot(sampleWords);
+        const previousSnapshot = initialLoad.data.datasetSnapshot;
+        if (previousSnapshot?.hash === snapshot.hash) return;
+        const changes = previousSnapshot ? diffDatasetSnapshots(previousSnapshot, snapshot, wordOverrides) : null;
+        saveDatasetUpdate(snapshot, changes).catch(error => console.error("Error saving dataset snapshot:", error));
+        if (changes) {
+            setDatasetChanges(changes);
+            addToast(`기본 단어 데이터가 업데이트되었습니다. (추가 ${changes.added.length}, 수정 ${changes.changed.length}, 삭제 ${changes.removed.length}) 통계 화면에서 확인하세요.`, "info");
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    // Normalize the URL on load (unknown paths fall back to the dashboard) and follow the browser's back/forward buttons
+    useEffect(() => {
+        window.history.replaceState(null, '', buildRouteHash(appScreen, routeParams));
+        if (initialHash.wasRejected && userSettings) addToast("링크의 일부 설정이 올바르지 않아 무시했습니다.", "warning");
+        const handlePopState = () => setRoute(parseRouteHash(window.location.hash).route);
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    // Keep the profile switcher's name in step with the username shown everywhere else
+    useEffect(() => {
+        const activeProfile = profileControls.profiles.find(p => p.id === profileControls.activeProfileId);
+        if (userSettings && activeProfile && activeProfile.name !== userSettings.username) {
+            profileControls.onUpdateProfile(activeProfile.id, { name: userSettings.username });
+        }
+    }, [userSettings?.username, profileControls]);
+
+    // Apply missed days to the streak when the app opens, so a lapsed streak isn't shown as still running
+    useEffect(() => {
+        setUserSettings(prev => prev ? settleStreak(prev, getTodayDateString()) : prev);
+    }, []);
+
      // Theme handler
     useEffect(() => {
         if (userSettings?.theme === 'dark') {
@@ -4366,26 +6925,36 @@ const App: React.FC = () => {
     };
 
     const handleResetData = () => {
-        // Clear everything from localStorage
-        localStorage.removeItem('userSettings');
-        localStorage.removeItem('allWords');
-        localStorage.removeItem('wordStats');
+        // Clear everything from storage; built-in words need no saving since they come from the dataset
+        persistedWordsRef.current = [];
+        persistedWordStatsRef.current = {};
+        clearAppData().catch(error => console.error("Error clearing stored data:", error));
         // Reset state
         setUserSettings(null);
-        setAllWords([...sampleWords]);
+        setCustomWords([]);
+        setWordOverrides({});
         setWordStats({});
-        setAppScreen('loginSetup');
-        addToast("모든 데이터가 초기화되었습니다.", "success");
+        setReviewLog([]);
+        setRoute({ screen: 'loginSetup', params: {} });
+        window.history.replaceState(null, '', buildRouteHash('loginSetup'));
+        addToast("이 프로필의 모든 데이터가 초기화되었습니다.", "success");
     };
 
-    const handleSetupComplete = (settings: UserSettings) => {
+    const handleSetupComplete = (settings: UserSettings, pin: string | null) => {
         setUserSettings(settings);
-        setAppScreen('dashboard');
+        setRoute({ screen: 'dashboard', params: {} });
+        window.history.replaceState(null, '', buildRouteHash('dashboard'));
+        if (pin) {
+            const profileId = profileControls.activeProfileId;
+            hashPin(profileId, pin).then(pinHash => profileControls.onUpdateProfile(profileId, { pinHash }));
+        }
     };
 
-    const handleNavigate = (screen: AppScreen, params?: any) => {
-        setAppScreen(screen);
-        setRouteParams(params || {});
+    const handleNavigate: NavigateFn = <S extends AppScreen>(screen: S, ...[params]: NavigateArgs<S>) => {
+        const nextRoute = { screen, params: params ?? {} } as AppRoute;
+        setRoute(nextRoute);
+        const hash = buildRouteHash(nextRoute.screen, nextRoute.params);
+        if (hash !== window.location.hash) window.history.pushState(null, '', hash);
         window.scrollTo(0, 0); // Scroll to top on navigation
     };
     
@@ -4399,14 +6968,65 @@ const App: React.FC = () => {
         }));
     };
     
-    const handleWordLearned = (wordId: string | number) => {
+    const recordWordReview = useCallback((wordId: string | number, grade: ReviewGrade, context: ReviewContext) => {
         const today = getTodayDateString();
-        updateWordStat(wordId, { lastReviewed: today });
-        if(userSettings && userSettings.lastLearnedDate !== today) {
-             setUserSettings(prev => prev ? ({...prev, lastLearnedDate: today, currentStreak: (prev.currentStreak || 0) + 1 }) : prev);
-        } else {
-             setUserSettings(prev => prev ? ({...prev, lastLearnedDate: today }) : prev);
+        setWordStats(prev => ({
+            ...prev,
+            [wordId]: scheduleReview(prev[wordId] || getDefaultWordStat(wordId), grade, today),
+        }));
+        const entry: ReviewLogEntry = {
+            wordId,
+            source: context.source,
+            isCorrect: grade !== 'again',
+            responseTimeMs: context.responseTimeMs,
+            timestamp: Date.now(),
+            sessionId: context.sessionId,
+            ...(context.confusedWithId !== undefined ? { confusedWithId: context.confusedWithId } : {}),
+        };
+        setReviewLog(prev => {
+            const next = [...prev, entry];
+            return next.length > REVIEW_LOG_MAX_ENTRIES ? next.slice(next.length - REVIEW_LOG_MAX_ENTRIES) : next;
+        });
+        // Any answered question - learning, quiz or game - counts as activity for the streak
+        setUserSettings(prev => prev ? registerStreakActivity(prev, today) : prev);
+    }, []);
+    
+    // Feeds the daily challenges and the achievement totals
+    const recordLearningEvent = useCallback((event: ChallengeEvent) => {
+        setUserSettings(prev => {
+            if (!prev) return prev;
+            // A finished wrong-answer review brings its challenge into the day's list if the saved list predates the misses
+            const isIncorrectReview = event.type === 'quizCompleted' && event.mode === 'incorrect';
+            const todaysChallenges = getTodaysChallenges(prev.dailyChallenges, getTodayDateString(), prev, isIncorrectReview);
+            const updatedChallenges = applyChallengeEvent(todaysChallenges, event);
+            const achievements = getAchievementState(prev.achievements);
+            const updatedAchievements = applyAchievementEvent(achievements, event);
+            if (updatedChallenges === prev.dailyChallenges && updatedAchievements === achievements) return prev;
+            return {
+                ...prev,
+                dailyChallenges: updatedChallenges,
+                ...(updatedAchievements !== achievements ? { achievements: updatedAchievements } : {}),
+            };
+        });
+    }, []);
+
+    const handleWordLearned = (wordId: string | number) => {
+        updateWordStat(wordId, { lastReviewed: getTodayDateString() });
+        recordLearningEvent({ type: 'wordLearned', wordId });
+    };
+
+    const handleBuyStreakFreeze = () => {
+        if (!userSettings) return;
+        if ((userSettings.streakFreezes || 0) >= MAX_STREAK_FREEZES) {
+            addToast(`스트릭 프리즈는 최대 ${MAX_STREAK_FREEZES}개까지 보유할 수 있습니다.`, "warning");
+            return;
+        }
+        if (userSettings.xp < STREAK_FREEZE_COST_XP) {
+            addToast(`XP가 부족합니다. (필요: ${STREAK_FREEZE_COST_XP} XP)`, "warning");
+            return;
         }
+        setUserSettings(prev => prev ? ({ ...prev, xp: prev.xp - STREAK_FREEZE_COST_XP, streakFreezes: (prev.streakFreezes || 0) + 1 }) : prev);
+        addToast("스트릭 프리즈를 구매했습니다! ❄️", "success");
     };
     
     const addXp = useCallback((amount: number) => {
@@ -4424,30 +7044,72 @@ const App: React.FC = () => {
                 addToast(`레벨 업! 🎉 레벨 ${newLevel} 달성!`, 'success');
             }
 
-            const updatedBestStreak = Math.max(prev.bestStreak || 0, prev.currentStreak || 0);
-
-            return { ...prev, xp: newXp, level: newLevel, bestStreak: updatedBestStreak };
+            return { ...prev, xp: newXp, level: newLevel };
         });
     }, [userSettings, addToast]);
 
-    const handleQuizComplete = (score: number, total: number, incorrectWords: Word[]) => {
+    // Pays out challenges as they complete. The ref stops a second run before the `rewarded` flags are committed
+    // from paying twice; the saved flags cover reloads.
+    const rewardedChallengeKeysRef = useRef(new Set<string>());
+    useEffect(() => {
+        const challengeState = userSettings?.dailyChallenges;
+        if (!challengeState || challengeState.date !== getTodayDateString()) return;
+        const getKey = (kind: ChallengeKind) => `${profileControls.activeProfileId}:${challengeState.date}:${kind}`;
+        const completed = getUnrewardedChallenges(challengeState).filter(challenge => !rewardedChallengeKeysRef.current.has(getKey(challenge.kind)));
+        if (completed.length === 0) return;
+
+        completed.forEach(challenge => rewardedChallengeKeysRef.current.add(getKey(challenge.kind)));
+        const kinds = completed.map(challenge => challenge.kind);
+        setUserSettings(prev => prev?.dailyChallenges ? { ...prev, dailyChallenges: markChallengesRewarded(prev.dailyChallenges, kinds) } : prev);
+        addXp(completed.reduce((sum, challenge) => sum + CHALLENGE_DEFINITIONS[challenge.kind].reward, 0));
+        completed.forEach(challenge => {
+            const { describe, reward } = CHALLENGE_DEFINITIONS[challenge.kind];
+            addToast(`⭐ 도전 과제 달성: ${describe(challenge.target)} (+${reward} XP)`, 'success');
+        });
+    }, [userSettings?.dailyChallenges, profileControls.activeProfileId, addXp, addToast]);
+
+    // Unlocks achievements as soon as they are reached, guarded by a ref the same way as the challenge rewards
+    const unlockedAchievementKeysRef = useRef(new Set<string>());
+    useEffect(() => {
+        if (!userSettings) return;
+        const snapshot: AchievementSnapshot = {
+            words: allWords,
+            wordStats,
+            settings: { currentStreak: userSettings.currentStreak, bestStreak: userSettings.bestStreak },
+            games: GAME_MODES.filter(game => game.isReady).map(game => game.screen),
+        };
+        const getKey = (id: AchievementId) => `${profileControls.activeProfileId}:${id}`;
+        const reached = findNewAchievements(getAchievementState(userSettings.achievements), snapshot)
+            .filter(id => !unlockedAchievementKeysRef.current.has(getKey(id)));
+        if (reached.length === 0) return;
+
+        reached.forEach(id => unlockedAchievementKeysRef.current.add(getKey(id)));
+        const unlockedAt = new Date().toISOString();
+        setUserSettings(prev => prev ? { ...prev, achievements: markAchievementsUnlocked(getAchievementState(prev.achievements), reached, unlockedAt) } : prev);
+        reached.forEach(id => {
+            const { icon, name } = ACHIEVEMENT_DEFINITIONS[id];
+            addToast(`🏅 업적 달성: ${icon} ${name}`, 'success');
+        });
+    }, [userSettings, allWords, wordStats, profileControls.activeProfileId, addToast]);
+
+    // Misses are counted per answer as the quiz goes (see getQuizAnswerStatUpdate), not again here
+    const handleQuizComplete: AppContextType['handleQuizComplete'] = (score, total, details) => {
         if (!userSettings) return;
         const today = getTodayDateString();
         const accuracy = total > 0 ? (score / total) * 100 : 0;
         
         addXp(Math.round(accuracy/5)); // Award XP based on quiz score
         
-        setUserSettings(prev => prev ? ({...prev, lastQuizDate: today, lastQuizScore: accuracy}) : prev);
-        incorrectWords.forEach(word => {
-            updateWordStat(word.id, { quizIncorrectCount: (wordStats[word.id]?.quizIncorrectCount || 0) + 1 });
-        });
+        setUserSettings(prev => prev ? ({...prev, lastQuizDate: today}) : prev);
+        recordLearningEvent({ type: 'quizCompleted', correct: score, total, ...details });
     };
 
-    const handleGameComplete = (score: number, correct: number, incorrect: number, timeTaken: number) => {
+    const handleGameComplete = (score: number, correct: number, incorrect: number, timeTaken: number, game: AppScreen, details?: { typedCharacters?: number }) => {
          if (!userSettings) return;
         const today = getTodayDateString();
         addXp(score);
         setUserSettings(prev => prev ? ({...prev, lastGameDate: today }) : prev);
+        recordLearningEvent({ type: 'gamePlayed', game, correct, incorrect, typedCharacters: details?.typedCharacters });
         addToast(`${score} XP를 획득했습니다!`, 'info');
     };
 
@@ -4466,7 +7128,7 @@ const App: React.FC = () => {
         const grade = gradeLevel || userSettings?.grade || 'middle1';
 
         if (word.id) { // Editing existing word
-            setAllWords(prev => prev.map(w => w.id === word.id ? { ...w, ...word, gradeLevel: grade, unit } as Word : w));
+            setCustomWords(prev => prev.map(w => w.id === word.id ? { ...w, ...word, gradeLevel: grade, unit } as Word : w));
         } else { // Adding new word
             const newWord: Word = {
                 id: `custom-${new Date().getTime()}`,
@@ -4480,17 +7142,60 @@ const App: React.FC = () => {
                 isCustom: true,
                 unit: unit
             };
-            setAllWords(prev => [...prev, newWord]);
+            setCustomWords(prev => [...prev, newWord]);
             setWordStats(prev => ({...prev, [newWord.id]: getDefaultWordStat(newWord.id)}));
         }
         return { success: true };
     };
     
+    // Adds many custom words in one state update; ids get an index suffix since they're all created in the same millisecond
+    const handleBulkAddCustomWords = (words: Partial<Word>[], gradeLevel: string, unit?: number): { addedCount: number; rejected: { term: string; reason: string }[] } => {
+        const knownTerms = new Set(allWords.map(w => w.term.toLowerCase()));
+        const rejected: { term: string; reason: string }[] = [];
+        const createdAt = new Date().getTime();
+        const newWords: Word[] = [];
+
+        words.forEach((word, index) => {
+            const term = word.term?.trim() || '';
+            if (!term || !word.meaning?.trim() || !word.partOfSpeech?.trim() || !word.exampleSentence?.trim()) {
+                rejected.push({ term, reason: "필수 필드 누락" });
+                return;
+            }
+            if (knownTerms.has(term.toLowerCase())) {
+                rejected.push({ term, reason: "이미 존재하는 단어" });
+                return;
+            }
+            knownTerms.add(term.toLowerCase());
+            newWords.push({
+                id: `custom-${createdAt}-${index}`,
+                term,
+                meaning: word.meaning.trim(),
+                partOfSpeech: word.partOfSpeech.trim(),
+                exampleSentence: word.exampleSentence.trim(),
+                pronunciation: word.pronunciation?.trim() || '',
+                exampleSentenceMeaning: word.exampleSentenceMeaning?.trim() || '',
+                gradeLevel,
+                isCustom: true,
+                unit: word.unit ?? unit,
+            });
+        });
+
+        if (newWords.length > 0) {
+            setCustomWords(prev => [...prev, ...newWords]);
+            setWordStats(prev => {
+                const next = { ...prev };
+                newWords.forEach(w => { next[w.id] = getDefaultWordStat(w.id); });
+                return next;
+            });
+        }
+        return { addedCount: newWords.length, rejected };
+    };
+    
     const handleDeleteCustomWord = (wordId: string | number, options = { silent: false }) => {
         const wordToDelete = allWords.find(w => w.id === wordId);
         if (!wordToDelete) return;
 
-        setAllWords(prev => prev.filter(w => w.id !== wordId));
+        setCustomWords(prev => prev.filter(w => w.id !== wordId));
         setWordStats(prev => {
             const newStats = { ...prev };
             delete newStats[wordId];
@@ -4501,6 +7206,224 @@ const App: React.FC = () => {
             addToast(`'${wordToDelete.term}' 단어가 삭제되었습니다.`, "success");
         }
     };
+
+    // Built-in words can't be changed in place; edits are kept as an override on top of the bundled word
+    const handleSaveWordOverride = (word: Word): { success: boolean; reason?: string } => {
+        const original = sampleWords.find((w: Word) => w.id === word.id);
+        if (!original) {
+            return { success: false, reason: "기본 제공 단어를 찾을 수 없습니다." };
+        }
+        if (!word.meaning?.trim() || !word.partOfSpeech?.trim() || !word.exampleSentence?.trim()) {
+            return { success: false, reason: "필수 필드를 모두 입력해주세요." };
+        }
+
+        const override = createWordOverride(original, word);
+        setWordOverrides(prev => {
+            const next = { ...prev };
+            if (Object.keys(override).length > 0) {
+                next[word.id] = override;
+            } else {
+                delete next[word.id];
+            }
+            return next;
+        });
+        return { success: true };
+    };
+
+    // Pins an example as the word's own, through the same path as editing the word
+    const handleSetExampleSentence: AppContextType['handleSetExampleSentence'] = async (wordId, example) => {
+        const word = allWords.find(w => String(w.id) === String(wordId));
+        if (!word) return { success: false, reason: "단어를 찾을 수 없습니다." };
+        const updatedWord = { ...word, exampleSentence: example.sentence, exampleSentenceMeaning: example.meaning };
+        return word.isCustom
+            ? handleSaveCustomWord(updatedWord, updatedWord.gradeLevel, updatedWord.unit ? Number(updatedWord.unit) : undefined)
+            : handleSaveWordOverride(updatedWord);
+    };
+
+    // --- Built-in example enrichment job ---
+    // Runs in the background for as long as the app is open, one request at a time; see exampleEnrichment.ts
+    const [exampleEnrichmentJob, setExampleEnrichmentJob] = useState<ExampleEnrichmentJob>(EMPTY_ENRICHMENT_JOB);
+    const exampleEnrichmentJobRef = useRef(exampleEnrichmentJob); // The running loop reads the latest job from here
+    const isEnrichmentJobLoadedRef = useRef(false);
+    const isEnrichmentLoopActiveRef = useRef(false);
+    const isEnrichmentUnmountedRef = useRef(false);
+    const enrichmentAbortControllerRef = useRef<AbortController | null>(null); // Drops the queued request on unmount
+    const enrichmentCandidates = useMemo(() => allWords.filter(word => !word.isCustom && isTemplateExample(word)), [allWords]);
+    const enrichmentCandidatesRef = useRef(enrichmentCandidates);
+    enrichmentCandidatesRef.current = enrichmentCandidates;
+    const enrichmentGradeRef = useRef(userSettings?.grade || 'middle1');
+    enrichmentGradeRef.current = userSettings?.grade || 'middle1';
+
+    const updateExampleEnrichmentJob = useCallback((update: (job: ExampleEnrichmentJob) => ExampleEnrichmentJob) => {
+        exampleEnrichmentJobRef.current = update(exampleEnrichmentJobRef.current);
+        setExampleEnrichmentJob(exampleEnrichmentJobRef.current);
+    }, []);
+
+    const runExampleEnrichment = useCallback(async () => {
+        if (isEnrichmentLoopActiveRef.current) return;
+        isEnrichmentLoopActiveRef.current = true;
+        try {
+            while (exampleEnrichmentJobRef.current.isRunning && !isEnrichmentUnmountedRef.current) {
+                const job = exampleEnrichmentJobRef.current;
+                if (!aiProvider) {
+                    updateExampleEnrichmentJob(prev => ({ ...prev, isRunning: false }));
+                    break;
+                }
+                if (job.pending.length >= MAX_PENDING_SUGGESTIONS) {
+                    updateExampleEnrichmentJob(prev => ({ ...prev, isRunning: false }));
+                    addToast(`검토를 기다리는 예문이 ${MAX_PENDING_SUGGESTIONS}개 쌓여 예문 다듬기를 일시 정지했습니다.`, "info");
+                    break;
+                }
+                const [word] = getRemainingEnrichmentWords(enrichmentCandidatesRef.current, job);
+                if (!word) {
+                    updateExampleEnrichmentJob(prev => ({ ...prev, isRunning: false }));
+                    addToast("기본 단어 예문 다듬기를 마쳤습니다. 검토 대기 목록을 확인해주세요.", "success");
+                    break;
+                }
+
+                enrichmentAbortControllerRef.current = new AbortController();
+                const result = await generateEnrichedExampleWithAI(word, enrichmentGradeRef.current, addToast, enrichmentAbortControllerRef.current.signal);
+                if (isEnrichmentUnmountedRef.current) break;
+                if (result.status === 'ok') {
+                    updateExampleEnrichmentJob(prev => addEnrichmentSuggestion(prev, {
+                        wordId: word.id,
+                        term: word.term,
+                        previousExampleSentence: word.exampleSentence,
+                        exampleSentence: result.exampleSentence,
+                        exampleSentenceMeaning: result.exampleSentenceMeaning,
+                        pronunciation: result.pronunciation,
+                        createdAt: Date.now(),
+                    }));
+                } else if (result.status === 'failed') {
+                    updateExampleEnrichmentJob(prev => addEnrichmentFailure(prev, word.id));
+                }
+                // While the quota cooldown is active the request isn't even sent, so this also paces the wait for it
+                await new Promise(resolve => setTimeout(resolve, result.status === 'retryLater' ? ENRICHMENT_RETRY_DELAY_MS : ENRICHMENT_REQUEST_DELAY_MS));
+            }
+        } finally {
+            isEnrichmentLoopActiveRef.current = false;
+        }
+    }, [addToast, updateExampleEnrichmentJob]);
+
+    // Resume a job that was still running when the app was last closed
+    useEffect(() => {
+        isEnrichmentUnmountedRef.current = false;
+        loadExampleEnrichmentJob()
+            .then(saved => {
+                if (isEnrichmentUnmountedRef.current) return;
+                isEnrichmentJobLoadedRef.current = true;
+                if (!saved) return;
+                updateExampleEnrichmentJob(() => getEnrichmentJob(saved));
+                if (saved.isRunning) runExampleEnrichment();
+            })
+            .catch(error => console.error("Error loading example enrichment job:", error));
+        return () => {
+            isEnrichmentUnmountedRef.current = true;
+            enrichmentAbortControllerRef.current?.abort();
+        };
+    }, [updateExampleEnrichmentJob, runExampleEnrichment]);
+
+    useEffect(() => {
+        if (!isEnrichmentJobLoadedRef.current) return;
+        saveExampleEnrichmentJob(exampleEnrichmentJob).catch(error => console.error("Error saving example enrichment job:", error));
+    }, [exampleEnrichmentJob]);
+
+    const startExampleEnrichment = () => {
+        updateExampleEnrichmentJob(startEnrichmentJob);
+        runExampleEnrichment();
+    };
+
+    const pauseExampleEnrichment = () => {
+        updateExampleEnrichmentJob(prev => ({ ...prev, isRunning: false }));
+    };
+
+    const approveEnrichmentSuggestions = (wordIds: (string | number)[]) => {
+        const keys = new Set(wordIds.map(String));
+        let appliedCount = 0;
+        exampleEnrichmentJobRef.current.pending.filter(suggestion => keys.has(String(suggestion.wordId))).forEach(suggestion => {
+            const word = allWords.find(w => String(w.id) === String(suggestion.wordId));
+            if (!word) return;
+            const result = handleSaveWordOverride({
+                ...word,
+                exampleSentence: suggestion.exampleSentence,
+                exampleSentenceMeaning: suggestion.exampleSentenceMeaning,
+                pronunciation: word.pronunciation || suggestion.pronunciation,
+            });
+            if (result.success) appliedCount++;
+        });
+        updateExampleEnrichmentJob(prev => removeEnrichmentSuggestions(prev, wordIds));
+        addToast(`${appliedCount}개 단어의 예문을 바꿨습니다.`, appliedCount > 0 ? "success" : "warning");
+    };
+
+    const rejectEnrichmentSuggestions = (wordIds: (string | number)[]) => {
+        updateExampleEnrichmentJob(prev => removeEnrichmentSuggestions(prev, wordIds));
+    };
+
+    const handleRevertWordOverride = (wordId: string | number) => {
+        setWordOverrides(prev => {
+            const next = { ...prev };
+            delete next[wordId];
+            return next;
+        });
+    };
+
+    const handleImportLearningData = (backup: LearningDataBackup, mode: BackupImportMode) => {
+        if (mode === 'replace') {
+            setUserSettings({ ...backup.userSettings });
+            setCustomWords(backup.customWords);
+            setWordOverrides(backup.wordOverrides);
+            setWordStats(backup.wordStats);
+            setReviewLog(backup.reviewLog.slice(-REVIEW_LOG_MAX_ENTRIES));
+            addToast("백업 데이터로 모든 학습 데이터를 교체했습니다.", "success");
+            return;
+        }
+
+        // Merge: map every backup word id onto a word that will exist after the import, or drop it
+        const plan = planBackupImport(backup, allWords);
+        const existingIds = new Set(allWords.map(w => String(w.id)));
+        const idMap = new Map<string, string | number>();
+        const importedWords = plan.newWords.map((word, index) => {
+            const id = existingIds.has(String(word.id)) ? `custom-${Date.now()}-${index}` : word.id;
+            idMap.set(String(word.id), id);
+            return { ...word, id };
+        });
+        const backupCustomIds = new Set(backup.customWords.map(w => String(w.id)));
+        plan.identicalWords.forEach(word => {
+            const existingWord = allWords.find(w => w.term.toLowerCase() === word.term.toLowerCase());
+            if (existingWord) idMap.set(String(word.id), existingWord.id);
+        });
+        const translateId = (wordId: string | number): string | number | undefined => {
+            const key = String(wordId);
+            if (idMap.has(key)) return idMap.get(key);
+            if (backupCustomIds.has(key)) return undefined; // Conflicting word, not imported
+            return allWords.find(w => String(w.id) === key && !w.isCustom)?.id;
+        };
+
+        setCustomWords(prev => [...prev, ...importedWords]);
+        setWordOverrides(prev => ({ ...backup.wordOverrides, ...prev })); // Edits made on this device win
+        setWordStats(prev => {
+            const merged = { ...prev };
+            Object.values(backup.wordStats).forEach(stat => {
+                const targetId = translateId(stat.id);
+                if (targetId === undefined) return;
+                const current = merged[targetId];
+                // Keep whichever copy was reviewed more recently
+                if (!current || (stat.lastReviewed || '') > (current.lastReviewed || '')) {
+                    merged[targetId] = { ...stat, id: targetId };
+                }
+            });
+            return merged;
+        });
+        setReviewLog(prev => {
+            const seen = new Set(prev.map(getReviewLogEntryKey));
+            const imported = backup.reviewLog
+                .map(entry => ({ entry, targetId: translateId(entry.wordId) }))
+                .filter(({ entry, targetId }) => targetId !== undefined && !seen.has(getReviewLogEntryKey(entry)))
+                .map(({ entry, targetId }) => ({ ...entry, wordId: targetId! }));
+            return [...prev, ...imported].sort((a, b) => a.timestamp - b.timestamp).slice(-REVIEW_LOG_MAX_ENTRIES);
+        });
+        addToast(`백업을 병합했습니다. 새 단어 ${importedWords.length}개 추가, 충돌 ${plan.conflicts.length}개는 기존 단어를 유지했습니다.`, "success");
+    };
     
     // Derived state for dashboard, memoized for performance
     const memoizedStats = useMemo(() => {
@@ -4508,8 +7431,6 @@ const App: React.FC = () => {
         
         let learnedWordsToday = 0;
         let totalWordsLearned = 0;
-        let totalQuizScore = 0;
-        let quizCount = 0;
         let hasIncorrectWordsToReview = false;
 
         Object.values(wordStats).forEach(stat => {
@@ -4524,15 +7445,11 @@ const App: React.FC = () => {
             }
         });
         
-        // This is a simplified way to track quiz history. A more robust app might store an array of scores.
-        if(userSettings?.lastQuizDate && userSettings?.lastQuizScore !== undefined) {
-             totalQuizScore += userSettings.lastQuizScore;
-             quizCount++;
-        }
-        
-        const averageQuizScore = quizCount > 0 ? totalQuizScore / quizCount : 0;
-        const quizTakenToday = userSettings?.lastQuizDate === today;
-        const gamePlayedToday = userSettings?.lastGameDate === today;
+        const quizSessionScores = getQuizSessionScores(reviewLog);
+        const averageQuizScore = quizSessionScores.length > 0
+            ? quizSessionScores.reduce((sum, session) => sum + session.accuracy, 0) / quizSessionScores.length
+            : 0;
+        const dueTodayCount = getDueWords(allWords, wordStats, today).length;
         
         return {
             learnedWordsToday,
@@ -4540,13 +7457,13 @@ const App: React.FC = () => {
             learningStreak: { 
                 currentStreak: userSettings?.currentStreak || 0,
                 bestStreak: userSettings?.bestStreak || 0,
+                streakFreezes: userSettings?.streakFreezes || 0,
             },
             averageQuizScore,
-            quizTakenToday,
-            gamePlayedToday,
             hasIncorrectWordsToReview,
+            dueTodayCount,
         };
-    }, [wordStats, userSettings]);
+    }, [allWords, wordStats, userSettings, reviewLog]);
     
 
     const appContextValue: AppContextType = {
@@ -4555,36 +7472,54 @@ const App: React.FC = () => {
         handleResetData,
         onNavigate: handleNavigate,
         allWords,
+        wordOverrides,
+        datasetChanges,
         wordStats,
         handleWordLearned,
+        recordWordReview,
+        reviewLog,
+        handleBuyStreakFreeze,
+        handleImportLearningData,
         handleQuizComplete,
         updateWordStat,
         handleDeleteCustomWord,
         handleSaveCustomWord,
+        handleBulkAddCustomWords,
+        handleSaveWordOverride,
+        handleRevertWordOverride,
+        handleSetExampleSentence,
+        exampleEnrichment: {
+            job: exampleEnrichmentJob,
+            remainingCount: getRemainingEnrichmentWords(enrichmentCandidates, exampleEnrichmentJob).length,
+            start: startExampleEnrichment,
+            pause: pauseExampleEnrichment,
+            approve: approveEnrichmentSuggestions,
+            reject: rejectEnrichmentSuggestions,
+        },
         memoizedStats,
-        setGlobalLoading,
         addXp,
         handleGameComplete,
         isSettingsModalOpen,
         handleOpenSettings: () => setIsSettingsModalOpen(true),
         handleCloseSettings: () => setIsSettingsModalOpen(false),
         appScreen,
-        routeParams
+        routeParams,
+        profileControls,
     };
 
 
     if (!userSettings) {
-        return <LoginSetupScreen onSetupComplete={handleSetupComplete} />;
+        return <LoginSetupScreen onSetupComplete={handleSetupComplete} profileControls={profileControls} />;
     }
 
     const renderScreen = () => {
-        switch (appScreen) {
+        switch (route.screen) {
             case 'dashboard':
                 return <DashboardScreen {...memoizedStats} />;
             case 'learnWords':
-                return <LearnWordsScreen routeParams={routeParams} />;
+                return <LearnWordsScreen routeParams={route.params} />;
             case 'quiz':
-                return <QuizScreen routeParams={routeParams} />;
+                return <QuizScreen routeParams={route.params} />;
             case 'allWords':
                 return <AllWordsScreen />;
             case 'stats':
@@ -4598,7 +7533,7 @@ const App: React.FC = () => {
             case 'wordMatchGame':
                 return <WordMatchGame />;
             case 'typingPracticeGame':
-                return <TypingPracticeGame />;
+                return <TypingPracticeGame routeParams={route.params} />;
             case 'speedQuizGame':
                 return <SpeedQuizGame />;
             case 'wordShooterGame':
@@ -4610,7 +7545,7 @@ const App: React.FC = () => {
             case 'timedWordLinkGame':
                 return <TimedWordLinkGame />;
             case 'gameResult':
-                return <GameResultScreen routeParams={routeParams}/>;
+                return <GameResultScreen routeParams={route.params}/>;
             default:
                 return <DashboardScreen {...memoizedStats} />;
         }
@@ -4618,11 +7553,14 @@ const App: React.FC = () => {
 
     return (
         <AppContext.Provider value={appContextValue}>
-            <GlobalSpinner isLoading={globalLoading} />
+            <AIActivityIndicator />
             <div className={`app-container bg-slate-50 dark:bg-slate-900 min-h-screen`}>
                 <NavBar currentScreen={appScreen} onOpenSettings={() => setIsSettingsModalOpen(true)} />
                 <main className="container mx-auto">
-                    {renderScreen()}
+                    {/* Keyed by URL so back/forward between two routes of the same screen starts it afresh */}
+                    <React.Fragment key={buildRouteHash(appScreen, routeParams)}>
+                        {renderScreen()}
+                    </React.Fragment>
                 </main>
                 <EditSettingsModal isOpen={isSettingsModalOpen} onCancel={() => setIsSettingsModalOpen(false)} />
             </div>
@@ -4630,6 +7568,113 @@ const App: React.FC = () => {
     );
 };
 
+// Owns the device's profile list and loads the active profile's data (IndexedDB, or localStorage as a fallback)
+// before that profile's app state is created. AppContent is keyed by profile so switching starts from fresh state.
+const App: React.FC = () => {
+    const { addToast } = useToasts();
+    const [profileRegistry, setProfileRegistry] = useState<ProfileRegistry>(() => loadProfileRegistry());
+    const [initialLoad, setInitialLoad] = useState<{ profileId: string; result: AppDataLoadResult } | null>(null);
+    const [isLoadBlocked, setIsLoadBlocked] = useState(false);
+    // Only the profile restored on page load is locked; switching to a PIN profile already asks for its PIN
+    const [isLocked, setIsLocked] = useState(() => !!profileRegistry.profiles.find(p => p.id === profileRegistry.activeProfileId)?.pinHash);
+    const activeProfileId = profileRegistry.activeProfileId;
+
+    useEffect(() => {
+        setUpgradeBlockedHandler(() => setIsLoadBlocked(true));
+        return () => setUpgradeBlockedHandler(null);
+    }, []);
+
+    useEffect(() => {
+        try {
+            saveProfileRegistry(profileRegistry);
+        } catch (error) {
+            addToast("프로필 목록 저장에 실패했습니다. 저장 공간이 부족할 수 있습니다.", "error");
+            console.error("Error saving profiles:", error);
+        }
+    }, [profileRegistry, addToast]);
+
+    useEffect(() => {
+        let isCancelled = false;
+        loadAppData(activeProfileId)
+            .catch(error => {
+                console.error("Error loading stored data, falling back to localStorage:", error);
+                return loadAppDataFromLocalStorage(activeProfileId);
+            })
+            .then(result => {
+                if (isCancelled) return;
+                setIsLoadBlocked(false);
+                setInitialLoad({ profileId: activeProfileId, result });
+            });
+        return () => { isCancelled = true; };
+    }, [activeProfileId]);
+
+    const removeProfileData = useCallback((profileId: string) => {
+        deleteProfileData(profileId).catch(error => console.error(`Error deleting data for profile ${profileId}:`, error));
+    }, []);
+
+    const profileControls = useMemo<ProfileControls>(() => {
+        const activeProfile = profileRegistry.profiles.find(p => p.id === activeProfileId);
+        // A profile that was created but never set up is dropped when the user leaves it
+        const isActiveProfileUnused = !!activeProfile && !activeProfile.name;
+        return {
+            profiles: profileRegistry.profiles,
+            activeProfileId,
+            onSwitchProfile: (profileId) => {
+                if (profileId === activeProfileId || !profileRegistry.profiles.some(p => p.id === profileId)) return;
+                setProfileRegistry({
+                    profiles: profileRegistry.profiles.filter(p => !(isActiveProfileUnused && p.id === activeProfileId)),
+                    activeProfileId: profileId,
+                });
+                if (isActiveProfileUnused) removeProfileData(activeProfileId);
+            },
+            onCreateProfile: () => {
+                if (isActiveProfileUnused) return; // Already on a fresh profile
+                const profile = createProfile();
+                setProfileRegistry({ profiles: [...profileRegistry.profiles, profile], activeProfileId: profile.id });
+            },
+            onUpdateProfile: (profileId, changes) => {
+                setProfileRegistry(prev => ({
+                    ...prev,
+                    profiles: prev.profiles.map(p => p.id === profileId ? { ...p, ...changes } : p),
+                }));
+            },
+            onDeleteProfile: (profileId) => {
+                const remaining = profileRegistry.profiles.filter(p => p.id !== profileId);
+                if (remaining.length === 0) return; // The last profile is reset instead of deleted
+                setProfileRegistry({
+                    profiles: remaining,
+                    activeProfileId: profileId === activeProfileId ? remaining[0].id : activeProfileId,
+                });
+                removeProfileData(profileId);
+                addToast("프로필을 삭제했습니다.", "success");
+            },
+        };
+    }, [profileRegistry, activeProfileId, removeProfileData, addToast]);
+
+    if (isLocked) {
+        return <ProfileLockScreen profileControls={profileControls} onUnlock={() => setIsLocked(false)} />;
+    }
+
+    if (!initialLoad || initialLoad.profileId !== activeProfileId) {
+        return (
+            <div className="min-h-screen flex flex-col justify-center items-center bg-slate-50 dark:bg-slate-900" role="status">
+                <svg className="animate-spin h-10 w-10 text-cyan-600 dark:text-cyan-400 mb-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                <p className="text-slate-600 dark:text-slate-300">학습 데이터를 불러오는 중...</p>
+                {isLoadBlocked && (
+                    <p className="mt-2 px-4 text-center text-sm text-amber-600 dark:text-amber-400">
+                        다른 탭에 이전 버전의 앱이 열려 있어 기다리는 중입니다. 그 탭을 닫으면 계속됩니다.
+                    </p>
+                )}
+            </div>
+        );
+    }
+
+    return <AppContent key={activeProfileId} initialLoad={initialLoad.result} profileControls={profileControls} />;
+};
+
 
 const rootElement = document.getElementById('root');
 if (rootElement) {
@@ -0,0 +1,103 @@
+// --- Device profiles ---
+// Several students can share one device. The profile list lives in localStorage because it has to be read
+// before any profile's data is opened; each profile's own data is namespaced by wordRepository.ts.
+
+export const DEFAULT_PROFILE_ID = 'default'; // Owns the data saved before profiles existed
+const PROFILES_KEY = 'profiles';
+
+export interface Profile {
+    id: string;
+    name: string; // Empty until the profile finishes the setup screen
+    pinHash: string | null; // Optional 4-digit PIN, hashed with the profile id
+    createdAt: number;
+}
+
+export interface ProfileRegistry {
+    profiles: Profile[];
+    activeProfileId: string;
+}
+
+const createDefaultRegistry = (): ProfileRegistry => ({
+    profiles: [{ id: DEFAULT_PROFILE_ID, name: '', pinHash: null, createdAt: Date.now() }],
+    activeProfileId: DEFAULT_PROFILE_ID,
+});
+
+const isProfile = (value: any): value is Profile =>
+    typeof value === 'object' && value !== null && typeof value.id === 'string' && typeof value.name === 'string'
+    && (value.pinHash === null || typeof value.pinHash === 'string');
+
+export const loadProfileRegistry = (storage: Storage = localStorage): ProfileRegistry => {
+    const raw = storage.getItem(PROFILES_KEY);
+    if (raw === null) return createDefaultRegistry();
+    try {
+        const parsed = JSON.parse(raw);
+        const profiles = Array.isArray(parsed?.profiles) ? parsed.profiles.filter(isProfile) : [];
+        if (profiles.length === 0) return createDefaultRegistry();
+        const activeProfileId = profiles.some((p: Profile) => p.id === parsed.activeProfileId) ? parsed.activeProfileId : profiles[0].id;
+        return { profiles, activeProfileId };
+    } catch (error) {
+        // Profile data itself is untouched, so falling back to the default profile loses nothing but the names
+        console.error("Stored profile list is unreadable; starting from the default profile.", error);
+        return createDefaultRegistry();
+    }
+};
+
+export const saveProfileRegistry = (registry: ProfileRegistry, storage: Storage = localStorage) => {
+    storage.setItem(PROFILES_KEY, JSON.stringify(registry));
+};
+
+export const createProfile = (): Profile => ({
+    id: `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: '',
+    pinHash: null,
+    createdAt: Date.now(),
+});
+
+export const isValidPin = (pin: string) => /^\d{4}$/.test(pin);
+
+// FNV-1a, used only where SubtleCrypto is unavailable (pages served over plain http on a classroom network)
+const fallbackHash = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `fnv:${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+// A 4-digit PIN only keeps classmates out of each other's progress; it is not meant to protect secrets.
+export const hashPin = async (profileId: string, pin: string): Promise<string> => {
+    const text = `${profileId}:${pin}`;
+    if (typeof crypto === 'undefined' || !crypto.subtle) return fallbackHash(text);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyProfilePin = async (profile: Profile, pin: string): Promise<boolean> => {
+    if (!profile.pinHash) return true;
+    const expected = profile.pinHash.startsWith('fnv:') ? fallbackHash(`${profile.id}:${pin}`) : await hashPin(profile.id, pin);
+    return expected === profile.pinHash;
+};
+
+// Wraps localStorage so every key is prefixed with the profile id. The default profile keeps the unprefixed
+// keys it has always used, so data saved before profiles existed stays where it is.
+export const getProfileStorage = (profileId: string, storage: Storage = localStorage): Storage => {
+    if (profileId === DEFAULT_PROFILE_ID) return storage;
+    const prefix = `profile:${profileId}:`;
+    const ownKeys = () => {
+        const keys: string[] = [];
+        for (let i = 0; i < storage.length; i++) {
+            const key = storage.key(i);
+            if (key?.startsWith(prefix)) keys.push(key);
+        }
+        return keys;
+    };
+    return {
+        get length() { return ownKeys().length; },
+        key: (index: number) => ownKeys()[index]?.slice(prefix.length) ?? null,
+        getItem: (key: string) => storage.getItem(prefix + key),
+        setItem: (key: string, value: string) => storage.setItem(prefix + key, value),
+        removeItem: (key: string) => storage.removeItem(prefix + key),
+        clear: () => ownKeys().forEach(key => storage.removeItem(key)),
+    };
+};
@@ -0,0 +1,188 @@
+import type { AppScreen } from './index.tsx';
+
+// --- Hash router ---
+// Every screen has a URL of the form `#/path?param=value`, so the browser's back/forward buttons, a refresh and
+// links shared by a teacher all land on the same screen. Hash URLs work on static hosting without server rewrites.
+
+export const QUIZ_TYPES = ['multiple', 'typing', 'reverseMultiple', 'reverseTyping', 'listening', 'cloze'] as const;
+export type QuizType = typeof QUIZ_TYPES[number];
+
+// Params each screen accepts. Screens without params take an empty object.
+export interface RouteParamsMap {
+    loginSetup: {};
+    dashboard: {};
+    learnWords: { unitToLearn?: string | number; reviewDue?: boolean; resume?: boolean };
+    quiz: { unitToLearn?: string | number; reviewDue?: boolean; reviewIncorrect?: boolean; quizType?: QuizType; resume?: boolean };
+    allWords: {};
+    stats: {};
+    manageWords: {};
+    tutorChat: {};
+    gameSelection: {};
+    wordMatchGame: {};
+    typingPracticeGame: { resume?: boolean }; // `resume` reopens the session saved in sessions.ts
+    speedQuizGame: {};
+    wordShooterGame: {};
+    wordBombGame: {};
+    wordZombieDefense: {};
+    timedWordLinkGame: {};
+    gameResult: { score: number; correct: number; incorrect: number; timeTaken: number; gameName: string; wpm?: number };
+}
+
+// Discriminated union of every screen with its own params, so narrowing on `screen` types `params`
+export type AppRoute = { [S in AppScreen]: { screen: S; params: RouteParamsMap[S] } }[AppScreen];
+
+// Params may be omitted only for screens where every param is optional
+export type NavigateArgs<S extends AppScreen> = {} extends RouteParamsMap[S] ? [params?: RouteParamsMap[S]] : [params: RouteParamsMap[S]];
+export type NavigateFn = <S extends AppScreen>(screen: S, ...args: NavigateArgs<S>) => void;
+
+const SCREEN_PATHS: Record<AppScreen, string> = {
+    loginSetup: '/setup',
+    dashboard: '/',
+    learnWords: '/learn',
+    quiz: '/quiz',
+    allWords: '/words',
+    stats: '/stats',
+    manageWords: '/words/manage',
+    tutorChat: '/tutor',
+    gameSelection: '/games',
+    wordMatchGame: '/games/word-match',
+    typingPracticeGame: '/games/typing-practice',
+    speedQuizGame: '/games/speed-quiz',
+    wordShooterGame: '/games/word-shooter',
+    wordBombGame: '/games/word-bomb',
+    wordZombieDefense: '/games/zombie-defense',
+    timedWordLinkGame: '/games/word-link',
+    gameResult: '/games/result',
+};
+
+const PATH_SCREENS = new Map(Object.entries(SCREEN_PATHS).map(([screen, path]) => [path, screen as AppScreen]));
+
+// Shorter names for the params that end up in shared links, e.g. `#/quiz?unit=12&type=typing`
+const PARAM_URL_NAMES: Record<string, string> = {
+    unitToLearn: 'unit',
+    quizType: 'type',
+};
+const URL_PARAM_NAMES = new Map(Object.entries(PARAM_URL_NAMES).map(([param, urlName]) => [urlName, param]));
+
+export const DEFAULT_ROUTE: AppRoute = { screen: 'dashboard', params: {} };
+
+// --- Route param validation ---
+// Deep links and saved sessions are user-controlled input; each validator returns the typed params, or null if
+// any value is malformed. Unknown keys are dropped.
+type RawParams = Record<string, unknown>;
+type ParamsValidator<S extends AppScreen> = (raw: RawParams) => RouteParamsMap[S] | null;
+
+const MAX_TEXT_PARAM_LENGTH = 50;
+
+const isUnit = (value: unknown): value is string | number =>
+    (typeof value === 'number' && Number.isInteger(value) && value > 0)
+    || (typeof value === 'string' && value.trim() !== '' && value.length <= MAX_TEXT_PARAM_LENGTH);
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const noParams = (): {} => ({});
+
+const validateResumeParams = (raw: RawParams): { resume?: boolean } | null => {
+    if (raw.resume === undefined) return {};
+    return typeof raw.resume === 'boolean' ? { resume: raw.resume } : null;
+};
+
+const validateUnitParams = (raw: RawParams): { unitToLearn?: string | number; reviewDue?: boolean; resume?: boolean } | null => {
+    const params: { unitToLearn?: string | number; reviewDue?: boolean; resume?: boolean } | null = validateResumeParams(raw);
+    if (!params) return null;
+    if (raw.unitToLearn !== undefined) {
+        if (!isUnit(raw.unitToLearn)) return null;
+        params.unitToLearn = raw.unitToLearn;
+    }
+    if (raw.reviewDue !== undefined) {
+        if (typeof raw.reviewDue !== 'boolean') return null;
+        params.reviewDue = raw.reviewDue;
+    }
+    return params;
+};
+
+const ROUTE_PARAM_VALIDATORS: { [S in AppScreen]: ParamsValidator<S> } = {
+    loginSetup: noParams,
+    dashboard: noParams,
+    learnWords: validateUnitParams,
+    quiz: raw => {
+        const params: RouteParamsMap['quiz'] | null = validateUnitParams(raw);
+        if (!params) return null;
+        if (raw.quizType !== undefined) {
+            if (!QUIZ_TYPES.includes(raw.quizType as QuizType)) return null;
+            params.quizType = raw.quizType as QuizType;
+        }
+        if (raw.reviewIncorrect !== undefined) {
+            if (typeof raw.reviewIncorrect !== 'boolean') return null;
+            params.reviewIncorrect = raw.reviewIncorrect;
+        }
+        return params;
+    },
+    allWords: noParams,
+    stats: noParams,
+    manageWords: noParams,
+    tutorChat: noParams,
+    gameSelection: noParams,
+    wordMatchGame: noParams,
+    typingPracticeGame: validateResumeParams,
+    speedQuizGame: noParams,
+    wordShooterGame: noParams,
+    wordBombGame: noParams,
+    wordZombieDefense: noParams,
+    timedWordLinkGame: noParams,
+    gameResult: raw => {
+        const { score, correct, incorrect, timeTaken, gameName, wpm } = raw;
+        if (typeof score !== 'number' || !Number.isFinite(score) || !isCount(correct) || !isCount(incorrect) || !isCount(timeTaken)) return null;
+        if (typeof gameName !== 'string' || gameName.trim() === '' || gameName.length > MAX_TEXT_PARAM_LENGTH) return null;
+        if (wpm !== undefined && !isCount(wpm)) return null;
+        return { score, correct, incorrect, timeTaken, gameName, ...(wpm !== undefined ? { wpm } : {}) };
+    },
+};
+
+export const validateRouteParams = <S extends AppScreen>(screen: S, raw: RawParams): RouteParamsMap[S] | null =>
+    ROUTE_PARAM_VALIDATORS[screen](raw);
+
+// Builds a typed route from a screen name and untrusted params; null if the screen is unknown or the params are malformed
+export const validateRoute = (screen: unknown, raw: RawParams): AppRoute | null => {
+    if (typeof screen !== 'string' || !(screen in ROUTE_PARAM_VALIDATORS)) return null;
+    const params = validateRouteParams(screen as AppScreen, raw);
+    return params ? { screen, params } as AppRoute : null;
+};
+
+export const buildRouteHash = (screen: AppScreen, params: object = {}): string => {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([name, value]) => {
+        if (value === undefined || value === null || typeof value === 'object') return;
+        query.set(PARAM_URL_NAMES[name] ?? name, String(value));
+    });
+    const queryString = query.toString();
+    return `#${SCREEN_PATHS[screen]}${queryString ? `?${queryString}` : ''}`;
+};
+
+// Query values are untyped text; numbers and booleans are restored so screens see what they were navigated with
+const parseParamValue = (raw: string): string | number | boolean => {
+    if (raw === 'true') return true;
+    if (raw === 'false') return false;
+    if (raw.trim() !== '' && !Number.isNaN(Number(raw))) return Number(raw);
+    return raw;
+};
+
+export interface ParsedRouteHash {
+    route: AppRoute;
+    wasRejected: boolean; // The path or some params were invalid and have been dropped
+}
+
+// Unknown paths fall back to the dashboard. Malformed params are dropped if the screen works without them
+// (e.g. `#/quiz?type=essay` opens the quiz setup), otherwise the dashboard is shown instead.
+export const parseRouteHash = (hash: string): ParsedRouteHash => {
+    const [path, queryString = ''] = hash.replace(/^#/, '').split('?');
+    const screen = PATH_SCREENS.get(path || '/');
+    if (!screen) return { route: DEFAULT_ROUTE, wasRejected: hash.replace(/^#/, '') !== '' };
+    const rawParams: RawParams = {};
+    new URLSearchParams(queryString).forEach((value, urlName) => {
+        rawParams[URL_PARAM_NAMES.get(urlName) ?? urlName] = parseParamValue(value);
+    });
+    const route = validateRoute(screen, rawParams);
+    if (route) return { route, wasRejected: false };
+    return { route: validateRoute(screen, {}) ?? DEFAULT_ROUTE, wasRejected: true };
+};
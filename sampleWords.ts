@@ -47,6 +47,10 @@ const generateExample = (word: { term: string; meaning: string; partOfSpeech: st
     }
 };
 
+// Whether the word still has one of the placeholder sentences above, whatever part of speech it was made for
+export const isTemplateExample = (word: Pick<Word, 'term' | 'exampleSentence'>): boolean =>
+    ['동사', '형용사', '명사'].some(partOfSpeech => generateExample({ term: word.term, meaning: '', partOfSpeech }).exampleSentence === word.exampleSentence);
+
 const createWord = (id: number, korean: string, english: string, unit: number): Word => {
     const partOfSpeech = getPartOfSpeech(korean, english);
     const { exampleSentence, exampleSentenceMeaning } = generateExample({ term: english, meaning: korean, partOfSpeech });
@@ -0,0 +1,142 @@
+import type { Word } from './index.tsx';
+import { QUIZ_TYPES, validateRouteParams, type QuizType } from './router';
+
+// --- Resumable sessions ---
+// A learning card session, quiz or typing game in progress is snapshotted after every step, so leaving the screen or
+// reloading the page doesn't throw it away. Snapshots go to the profile's localStorage rather than IndexedDB because
+// the last one has to be written synchronously before the page unloads. Words are stored by id and looked up again
+// on resume, so an edit made in the meantime shows up in the resumed session.
+
+type WordId = string | number;
+
+export interface LearnSessionSnapshot {
+    unit: string | number; // 'all', 'due' or a unit number, as chosen on the selection screen
+    wordIds: WordId[];
+    currentIndex: number;
+}
+
+export interface QuizSessionSnapshot {
+    unit: string | number;
+    quizType: QuizType;
+    wordIds: WordId[];
+    currentQuestionIndex: number;
+    score: number;
+    incorrectWordIds: WordId[];
+    options: string[]; // Choices for the current question, kept so a resumed question looks the same
+    selectedAnswer: string | null;
+    showResult: boolean; // The current question was answered before leaving
+    typedAnswer: string;
+    timeLimit?: number; // Seconds per question; missing in sessions saved before the setting existed
+}
+
+export interface TypingSessionWord {
+    id: WordId;
+    submissions: number;
+    isCorrectlyTyped: boolean;
+    firstTryCorrect: boolean;
+}
+
+export interface TypingSessionSnapshot {
+    unit: string | number;
+    words: TypingSessionWord[];
+    currentWordIndex: number;
+    score: number;
+    elapsedMs: number; // Play time up to the last snapshot; time spent away from the game doesn't count towards WPM
+}
+
+export interface SessionSnapshotMap {
+    learnWords: LearnSessionSnapshot;
+    quiz: QuizSessionSnapshot;
+    typingPracticeGame: TypingSessionSnapshot;
+}
+
+export type ResumableScreen = keyof SessionSnapshotMap;
+export type SavedSession<S extends ResumableScreen> = SessionSnapshotMap[S] & { savedAt: number };
+export type SavedSessionEntry = { [S in ResumableScreen]: { screen: S; session: SavedSession<S> } }[ResumableScreen];
+
+export const RESUMABLE_SCREENS: ResumableScreen[] = ['learnWords', 'quiz', 'typingPracticeGame'];
+
+const SESSION_KEY_PREFIX = 'session:';
+
+// --- Snapshot validation ---
+// Stored snapshots are as untrusted as deep links: a malformed one is discarded instead of crashing the screen.
+type RawSnapshot = Record<string, unknown>;
+
+const isWordId = (value: unknown): value is WordId => typeof value === 'string' || typeof value === 'number';
+const isWordIdList = (value: unknown): value is WordId[] => Array.isArray(value) && value.every(isWordId);
+const isIndexInto = (value: unknown, list: unknown[]): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < list.length;
+
+// The unit is a route param too, so it goes through the same validator as deep links
+const isValidUnit = (unit: unknown) => isWordId(unit) && validateRouteParams('learnWords', { unitToLearn: unit }) !== null;
+
+const isTypingSessionWord = (value: any): value is TypingSessionWord =>
+    typeof value === 'object' && value !== null && isWordId(value.id) && typeof value.submissions === 'number'
+    && typeof value.isCorrectlyTyped === 'boolean' && typeof value.firstTryCorrect === 'boolean';
+
+const SNAPSHOT_VALIDATORS: { [S in ResumableScreen]: (raw: RawSnapshot) => boolean } = {
+    learnWords: raw => isValidUnit(raw.unit) && isWordIdList(raw.wordIds) && isIndexInto(raw.currentIndex, raw.wordIds),
+    quiz: raw => isValidUnit(raw.unit)
+        && QUIZ_TYPES.includes(raw.quizType as QuizType)
+        && isWordIdList(raw.wordIds) && isIndexInto(raw.currentQuestionIndex, raw.wordIds)
+        && typeof raw.score === 'number' && isWordIdList(raw.incorrectWordIds)
+        && Array.isArray(raw.options) && raw.options.every(option => typeof option === 'string')
+        && (raw.selectedAnswer === null || typeof raw.selectedAnswer === 'string')
+        && typeof raw.showResult === 'boolean' && typeof raw.typedAnswer === 'string'
+        && (raw.timeLimit === undefined || (typeof raw.timeLimit === 'number' && raw.timeLimit >= 0)),
+    typingPracticeGame: raw => isValidUnit(raw.unit)
+        && Array.isArray(raw.words) && raw.words.every(isTypingSessionWord) && isIndexInto(raw.currentWordIndex, raw.words)
+        && typeof raw.score === 'number' && typeof raw.elapsedMs === 'number' && raw.elapsedMs >= 0,
+};
+
+export const loadSessionSnapshot = <S extends ResumableScreen>(screen: S, storage: Storage = localStorage): SavedSession<S> | null => {
+    const key = SESSION_KEY_PREFIX + screen;
+    const raw = storage.getItem(key);
+    if (raw === null) return null;
+    try {
+        const parsed = JSON.parse(raw);
+        if (typeof parsed !== 'object' || parsed === null || typeof parsed.savedAt !== 'number' || !SNAPSHOT_VALIDATORS[screen](parsed)) {
+            throw new Error(`Unexpected shape for '${key}'`);
+        }
+        return parsed as SavedSession<S>;
+    } catch (error) {
+        // Only one interrupted session is lost, so unlike app data it isn't worth setting aside
+        console.warn(`Saved '${screen}' session is unreadable; discarding it.`, error);
+        storage.removeItem(key);
+        return null;
+    }
+};
+
+// Most recently saved first
+export const loadSessionSnapshots = (storage: Storage = localStorage): SavedSessionEntry[] =>
+    RESUMABLE_SCREENS
+        .map(screen => ({ screen, session: loadSessionSnapshot(screen, storage) }) as SavedSessionEntry)
+        .filter(entry => entry.session !== null)
+        .sort((a, b) => b.session.savedAt - a.session.savedAt);
+
+// Best effort: a full quota shouldn't interrupt the session being saved
+export const saveSessionSnapshot = <S extends ResumableScreen>(screen: S, snapshot: SessionSnapshotMap[S], storage: Storage = localStorage): SavedSession<S> => {
+    const saved = { ...snapshot, savedAt: Date.now() };
+    try {
+        storage.setItem(SESSION_KEY_PREFIX + screen, JSON.stringify(saved));
+    } catch (error) {
+        console.error(`Could not save '${screen}' session:`, error);
+    }
+    return saved;
+};
+
+export const clearSessionSnapshot = (screen: ResumableScreen, storage: Storage = localStorage) => {
+    storage.removeItem(SESSION_KEY_PREFIX + screen);
+};
+
+export const clearSessionSnapshots = (storage: Storage = localStorage) => {
+    RESUMABLE_SCREENS.forEach(screen => clearSessionSnapshot(screen, storage));
+};
+
+// Looks the words up again by id. Returns null if any of them has since been deleted, because resuming with
+// words missing would shift every later position.
+export const resolveSessionWords = (wordIds: WordId[], allWords: Word[]): Word[] | null => {
+    const wordsById = new Map(allWords.map(word => [String(word.id), word]));
+    const words = wordIds.map(id => wordsById.get(String(id)));
+    return words.every((word): word is Word => word !== undefined) ? words : null;
+};
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, SCHEMA_VERSION_KEY, STORAGE_KEYS, createEmptyPersistedData, loadPersistedData, runMigrations, savePersistedValue } from './storage';
+
+// Just enough of the Storage interface for the persistence code, backed by a Map
+class MemoryStorage implements Storage {
+    private items = new Map<string, string>();
+    get length() { return this.items.size; }
+    clear() { this.items.clear(); }
+    getItem(key: string) { return this.items.get(key) ?? null; }
+    key(index: number) { return [...this.items.keys()][index] ?? null; }
+    removeItem(key: string) { this.items.delete(key); }
+    setItem(key: string, value: string) { this.items.set(key, String(value)); }
+    keys() { return [...this.items.keys()]; }
+}
+
+const migrate = (version: number, data: Record<string, unknown>) => {
+    const migration = MIGRATIONS.find(entry => entry.version === version);
+    if (!migration) throw new Error(`No migration to version ${version}`);
+    return migration.migrate({ ...createEmptyPersistedData(), ...data });
+};
+
+describe('migrations', () => {
+    it('are ordered and end at the current schema version', () => {
+        expect(MIGRATIONS.map(migration => migration.version)).toEqual([1, 2, 3, 4]);
+        expect(CURRENT_SCHEMA_VERSION).toBe(4);
+    });
+
+    it('v1 keeps the data as it was', () => {
+        const data = { ...createEmptyPersistedData(), userSettings: { username: 'Mina' }, wordStats: { 1: { isMastered: true } } };
+        expect(migrate(1, data)).toEqual(data);
+    });
+
+    it('v2 adds SM-2 fields to word stats without overwriting existing ones', () => {
+        const result = migrate(2, {
+            wordStats: {
+                7: { isMastered: false, quizIncorrectCount: 2 },
+                8: { id: 8, easeFactor: 1.8, interval: 6, repetitions: 3, dueDate: '2024-05-01', lapses: 1 },
+            },
+        });
+        expect(result.wordStats['7']).toEqual({
+            id: '7',
+            isMastered: false,
+            quizIncorrectCount: 2,
+            easeFactor: 2.5,
+            interval: 0,
+            repetitions: 0,
+            dueDate: null,
+            lapses: 0,
+        });
+        expect(result.wordStats['8']).toEqual({ id: 8, easeFactor: 1.8, interval: 6, repetitions: 3, dueDate: '2024-05-01', lapses: 1 });
+    });
+
+    it('v2 leaves missing word stats alone', () => {
+        expect(migrate(2, {}).wordStats).toBeNull();
+    });
+
+    it('v3 adds streak freeze fields and drops lastQuizScore', () => {
+        const result = migrate(3, { userSettings: { username: 'Mina', lastQuizScore: { score: 8, total: 10 } } });
+        expect(result.userSettings).toEqual({ username: 'Mina', streakFreezes: 0, frozenDates: [] });
+    });
+
+    it('v3 keeps streak freezes that are already set', () => {
+        const result = migrate(3, { userSettings: { streakFreezes: 2, frozenDates: ['2024-05-01'] } });
+        expect(result.userSettings).toEqual({ streakFreezes: 2, frozenDates: ['2024-05-01'] });
+    });
+
+    it('v4 keeps only custom words', () => {
+        const result = migrate(4, { customWords: [{ id: 1, term: 'apple' }, { id: 'c1', term: 'kiwi', isCustom: true }, null] });
+        expect(result.customWords).toEqual([{ id: 'c1', term: 'kiwi', isCustom: true }]);
+    });
+
+    it('runMigrations only applies migrations newer than the stored version', () => {
+        const data = { ...createEmptyPersistedData(), customWords: [{ id: 1 }], userSettings: { lastQuizScore: null } };
+        const result = runMigrations(data, 3);
+        expect(result.customWords).toEqual([]);
+        expect(result.userSettings).toEqual({ lastQuizScore: null });
+    });
+});
+
+describe('loadPersistedData', () => {
+    let storage: MemoryStorage;
+
+    beforeEach(() => {
+        storage = new MemoryStorage();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it('stamps the current version on a fresh install', () => {
+        const result = loadPersistedData(storage);
+        expect(result).toEqual({ data: createEmptyPersistedData(), corruptKeys: [], migratedFrom: null, isNewerVersion: false });
+        expect(storage.getItem(SCHEMA_VERSION_KEY)).toBe(String(CURRENT_SCHEMA_VERSION));
+    });
+
+    it('runs every migration on unversioned data and writes the result back', () => {
+        storage.setItem(STORAGE_KEYS.userSettings, JSON.stringify({ username: 'Mina', lastQuizScore: { score: 1, total: 2 } }));
+        storage.setItem(STORAGE_KEYS.wordStats, JSON.stringify({ 1: { isMastered: true } }));
+        storage.setItem(STORAGE_KEYS.customWords, JSON.stringify([{ id: 1, term: 'apple' }, { id: 'c1', term: 'kiwi', isCustom: true }]));
+
+        const result = loadPersistedData(storage);
+
+        expect(result.migratedFrom).toBe(1);
+        expect(result.data.userSettings).toEqual({ username: 'Mina', streakFreezes: 0, frozenDates: [] });
+        expect(result.data.wordStats?.[1]).toMatchObject({ id: '1', isMastered: true, easeFactor: 2.5, dueDate: null });
+        expect(result.data.customWords).toEqual([{ id: 'c1', term: 'kiwi', isCustom: true }]);
+        expect(JSON.parse(storage.getItem(STORAGE_KEYS.userSettings)!)).toEqual(result.data.userSettings);
+        expect(JSON.parse(storage.getItem(STORAGE_KEYS.customWords)!)).toEqual(result.data.customWords);
+        expect(storage.getItem(SCHEMA_VERSION_KEY)).toBe(String(CURRENT_SCHEMA_VERSION));
+    });
+
+    it('sets unreadable blobs aside under <key>.corrupt.<timestamp>', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1700000000000);
+        storage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+        storage.setItem(STORAGE_KEYS.wordStats, '{not json');
+        storage.setItem(STORAGE_KEYS.reviewLog, JSON.stringify({ notAn: 'array' }));
+        storage.setItem(STORAGE_KEYS.userSettings, JSON.stringify({ username: 'Mina' }));
+
+        const result = loadPersistedData(storage);
+
+        expect(result.corruptKeys).toEqual([STORAGE_KEYS.wordStats, STORAGE_KEYS.reviewLog]);
+        expect(result.data.wordStats).toBeNull();
+        expect(result.data.reviewLog).toBeNull();
+        expect(result.data.userSettings).toEqual({ username: 'Mina' });
+        expect(storage.getItem(STORAGE_KEYS.wordStats)).toBeNull();
+        expect(storage.getItem(STORAGE_KEYS.reviewLog)).toBeNull();
+        expect(storage.getItem(`${STORAGE_KEYS.wordStats}.corrupt.1700000000000`)).toBe('{not json');
+        expect(storage.getItem(`${STORAGE_KEYS.reviewLog}.corrupt.1700000000000`)).toBe(JSON.stringify({ notAn: 'array' }));
+    });
+
+    it('leaves data saved by a newer version untouched', () => {
+        const settings = JSON.stringify({ username: 'Mina', lastQuizScore: { score: 1, total: 2 }, futureField: true });
+        const words = JSON.stringify([{ id: 1, term: 'apple' }]);
+        storage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION + 1));
+        storage.setItem(STORAGE_KEYS.userSettings, settings);
+        storage.setItem(STORAGE_KEYS.customWords, words);
+
+        const result = loadPersistedData(storage);
+
+        expect(result.migratedFrom).toBeNull();
+        expect(result.isNewerVersion).toBe(true);
+        expect(result.data.userSettings).toEqual(JSON.parse(settings));
+        expect(result.data.customWords).toEqual(JSON.parse(words));
+        expect(storage.getItem(STORAGE_KEYS.userSettings)).toBe(settings);
+        expect(storage.getItem(STORAGE_KEYS.customWords)).toBe(words);
+        expect(storage.getItem(SCHEMA_VERSION_KEY)).toBe(String(CURRENT_SCHEMA_VERSION + 1));
+        expect(storage.keys().some(key => key.includes('.corrupt.'))).toBe(false);
+    });
+
+    it('does not save over data from a newer version after loading it', () => {
+        const settings = JSON.stringify({ username: 'Mina', futureField: true });
+        storage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION + 1));
+        storage.setItem(STORAGE_KEYS.userSettings, settings);
+
+        const { data } = loadPersistedData(storage);
+        savePersistedValue('userSettings', { ...data.userSettings!, username: 'Changed' }, storage);
+        savePersistedValue('reviewLog', [], storage);
+
+        expect(storage.getItem(SCHEMA_VERSION_KEY)).toBe(String(CURRENT_SCHEMA_VERSION + 1));
+        expect(storage.getItem(STORAGE_KEYS.userSettings)).toBe(settings);
+        expect(storage.getItem(STORAGE_KEYS.reviewLog)).toBeNull();
+    });
+
+    it('stamps the current version when saving over current data', () => {
+        loadPersistedData(storage);
+        savePersistedValue('reviewLog', [], storage);
+        expect(storage.getItem(STORAGE_KEYS.reviewLog)).toBe('[]');
+        expect(storage.getItem(SCHEMA_VERSION_KEY)).toBe(String(CURRENT_SCHEMA_VERSION));
+    });
+});
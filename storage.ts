@@ -0,0 +1,230 @@
+import type { UserSettings, Word, WordStat, ReviewLogEntry, WordOverride, DatasetSnapshot, DatasetChanges } from './index.tsx';
+
+// --- Versioned localStorage persistence ---
+// Every persisted blob shares one schema version. On load, blobs written by an older version of the app
+// are run through the ordered migrations below and written back, so `App` only ever sees the current shape.
+
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+export const STORAGE_KEYS = {
+    userSettings: 'userSettings',
+    customWords: 'allWords', // Key predates v4, when it still held the built-in words too
+    wordStats: 'wordStats',
+    reviewLog: 'reviewLog',
+    wordOverrides: 'wordOverrides',
+    datasetSnapshot: 'datasetSnapshot',
+    datasetChanges: 'datasetChanges',
+} as const;
+
+export type StorageKey = typeof STORAGE_KEYS[keyof typeof STORAGE_KEYS];
+
+export interface PersistedData {
+    userSettings: UserSettings | null;
+    customWords: Word[] | null; // Built-in words are loaded from the bundled dataset each session
+    wordStats: Record<string | number, WordStat> | null;
+    reviewLog: ReviewLogEntry[] | null;
+    wordOverrides: Record<string | number, WordOverride> | null; // User edits to built-in words
+    datasetSnapshot: DatasetSnapshot | null; // Built-in dataset as of the last session, to detect updates
+    datasetChanges: DatasetChanges | null; // What the most recent dataset update changed
+}
+
+// Raw blobs as they come out of JSON.parse; migrations must not assume anything about older shapes.
+type StoredData = { [K in keyof PersistedData]: any };
+
+interface Migration {
+    version: number; // Schema version this migration produces
+    description: string;
+    migrate: (data: StoredData) => StoredData;
+}
+
+// Ordered oldest to newest. Defaults are written out here rather than imported so a migration keeps
+// producing the same result after the app's own defaults change.
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Baseline: settings, words and word stats as stored before versioning',
+        migrate: data => data,
+    },
+    {
+        version: 2,
+        description: 'Add SM-2 scheduling fields to every word stat',
+        migrate: data => {
+            if (!data.wordStats) return data;
+            const wordStats: Record<string, any> = {};
+            Object.entries(data.wordStats as Record<string, any>).forEach(([wordId, stat]) => {
+                wordStats[wordId] = {
+                    easeFactor: 2.5,
+                    interval: 0,
+                    repetitions: 0,
+                    dueDate: null,
+                    lapses: 0,
+                    ...stat,
+                    id: stat?.id ?? wordId,
+                };
+            });
+            return { ...data, wordStats };
+        },
+    },
+    {
+        version: 3,
+        description: 'Add streak freeze fields to settings and drop the single lastQuizScore',
+        migrate: data => {
+            if (!data.userSettings) return data;
+            const { lastQuizScore: _lastQuizScore, ...userSettings } = data.userSettings;
+            return {
+                ...data,
+                userSettings: {
+                    streakFreezes: 0,
+                    frozenDates: [],
+                    ...userSettings,
+                },
+            };
+        },
+    },
+    {
+        version: 4,
+        description: 'Stop storing copies of the built-in words; keep only custom words',
+        migrate: data => {
+            if (!Array.isArray(data.customWords)) return data;
+            return { ...data, customWords: data.customWords.filter((word: any) => word?.isCustom) };
+        },
+    },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const isPlainObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A blob that parses but has the wrong top-level shape is treated the same as unparseable JSON.
+const SHAPE_CHECKS: Record<keyof PersistedData, (value: unknown) => boolean> = {
+    userSettings: isPlainObject,
+    customWords: Array.isArray,
+    wordStats: isPlainObject,
+    reviewLog: Array.isArray,
+    wordOverrides: isPlainObject,
+    datasetSnapshot: isPlainObject,
+    datasetChanges: isPlainObject,
+};
+
+export const createEmptyPersistedData = (): PersistedData => ({
+    userSettings: null,
+    customWords: null,
+    wordStats: null,
+    reviewLog: null,
+    wordOverrides: null,
+    datasetSnapshot: null,
+    datasetChanges: null,
+});
+
+const DATA_FIELDS = Object.keys(STORAGE_KEYS) as (keyof PersistedData)[];
+
+export const runMigrations = (data: StoredData, fromVersion: number): StoredData =>
+    MIGRATIONS
+        .filter(migration => migration.version > fromVersion)
+        .reduce((migrated, migration) => migration.migrate(migrated), data);
+
+// Copies a blob to `<key>.corrupt.<timestamp>` so it can be inspected or recovered later, then clears the original.
+const quarantineBlob = (storage: Storage, key: string, raw: string) => {
+    try {
+        storage.setItem(`${key}.corrupt.${Date.now()}`, raw);
+    } catch (error) {
+        console.error(`Could not set aside corrupt '${key}' data:`, error);
+    }
+    storage.removeItem(key);
+};
+
+const readStoredVersion = (storage: Storage, hasAnyData: boolean): number => {
+    const raw = storage.getItem(SCHEMA_VERSION_KEY);
+    if (raw === null) return hasAnyData ? 1 : CURRENT_SCHEMA_VERSION; // Data saved before versioning existed
+    const version = Number(raw);
+    return Number.isInteger(version) && version > 0 ? version : 1;
+};
+
+export interface LoadResult {
+    data: PersistedData;
+    corruptKeys: StorageKey[]; // Keys whose data was unreadable and has been set aside
+    migratedFrom: number | null; // Previous schema version, if migrations ran
+    isNewerVersion: boolean; // Saved by a newer version of the app; callers must not write anything back
+}
+
+export const loadPersistedData = (storage: Storage = localStorage): LoadResult => {
+    const rawBlobs: Partial<Record<keyof PersistedData, string>> = {};
+    const data: StoredData = createEmptyPersistedData();
+    const corruptKeys: StorageKey[] = [];
+
+    DATA_FIELDS.forEach(field => {
+        const key = STORAGE_KEYS[field];
+        const raw = storage.getItem(key);
+        if (raw === null) return;
+        try {
+            const parsed = JSON.parse(raw);
+            if (!SHAPE_CHECKS[field](parsed)) throw new Error(`Unexpected shape for '${key}'`);
+            data[field] = parsed;
+            rawBlobs[field] = raw;
+        } catch (error) {
+            console.error(`Stored '${key}' is unreadable; setting it aside.`, error);
+            quarantineBlob(storage, key, raw);
+            corruptKeys.push(key);
+        }
+    });
+
+    const hasAnyData = Object.keys(rawBlobs).length > 0;
+    const storedVersion = readStoredVersion(storage, hasAnyData);
+
+    if (storedVersion > CURRENT_SCHEMA_VERSION) {
+        // Written by a newer build; reading it with older code could lose fields, so leave it untouched.
+        console.warn(`Stored schema version ${storedVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}.`);
+        return { data, corruptKeys, migratedFrom: null, isNewerVersion: true };
+    }
+
+    if (storedVersion === CURRENT_SCHEMA_VERSION) {
+        storage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+        return { data, corruptKeys, migratedFrom: null, isNewerVersion: false };
+    }
+
+    let migrated: StoredData;
+    try {
+        migrated = runMigrations(data, storedVersion);
+    } catch (error) {
+        // Never overwrite data we failed to migrate: keep every original blob aside and start clean.
+        console.error(`Migration from schema version ${storedVersion} failed:`, error);
+        DATA_FIELDS.forEach(field => {
+            const raw = rawBlobs[field];
+            if (raw === undefined) return;
+            quarantineBlob(storage, STORAGE_KEYS[field], raw);
+            corruptKeys.push(STORAGE_KEYS[field]);
+        });
+        storage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+        return { data: createEmptyPersistedData(), corruptKeys, migratedFrom: null, isNewerVersion: false };
+    }
+
+    DATA_FIELDS.forEach(field => {
+        if (migrated[field] !== null && migrated[field] !== undefined) {
+            storage.setItem(STORAGE_KEYS[field], JSON.stringify(migrated[field]));
+        }
+    });
+    storage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+    return { data: migrated, corruptKeys, migratedFrom: storedVersion, isNewerVersion: false };
+};
+
+// Throws on quota errors so callers can tell the user; the schema version is stamped alongside every write.
+// Callers skip saving after a load reported isNewerVersion; this check backs that up, since stamping the current
+// version over a newer one would make the newer build read its own data as old.
+export const savePersistedValue = <K extends keyof PersistedData>(field: K, value: PersistedData[K], storage: Storage = localStorage) => {
+    if (Number(storage.getItem(SCHEMA_VERSION_KEY)) > CURRENT_SCHEMA_VERSION) {
+        console.warn(`Not saving '${STORAGE_KEYS[field]}': stored data belongs to a newer version of the app.`);
+        return;
+    }
+    if (value === null) {
+        storage.removeItem(STORAGE_KEYS[field]);
+        return;
+    }
+    storage.setItem(STORAGE_KEYS[field], JSON.stringify(value));
+    storage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+};
+
+// Removes all app data. Blobs set aside as corrupt are kept so they can still be recovered.
+export const clearPersistedData = (storage: Storage = localStorage) => {
+    DATA_FIELDS.forEach(field => storage.removeItem(STORAGE_KEYS[field]));
+    storage.removeItem(SCHEMA_VERSION_KEY);
+};
@@ -0,0 +1,69 @@
+import type { Word, WordStat } from './index.tsx';
+
+// --- Word selection filters ---
+// The quiz and every game pick their words through the same filters, so "units 3 and 4, verbs only, words I got
+// wrong" means the same thing on every setup screen. Empty lists mean no restriction; checked options narrow the
+// selection further, so combining them always yields a subset.
+
+export interface WordFilters {
+    units: (string | number)[]; // Empty means every unit
+    partsOfSpeech: string[]; // Empty means every part of speech
+    onlyUnmastered: boolean;
+    onlyIncorrect: boolean; // Words answered wrong in a quiz at least once
+    onlyCustom: boolean; // Words the user added, not built-in ones
+}
+
+export const DEFAULT_WORD_FILTERS: WordFilters = {
+    units: [],
+    partsOfSpeech: [],
+    onlyUnmastered: false,
+    onlyIncorrect: false,
+    onlyCustom: false,
+};
+
+// 'all' asks every matching word once
+export type QuestionCount = number | 'all';
+
+export const QUESTION_COUNT_OPTIONS: QuestionCount[] = [5, 10, 15, 20, 30, 'all'];
+
+// Seconds per question; 0 means no limit
+export const QUESTION_TIME_LIMIT_OPTIONS = [0, 5, 10, 20, 30];
+
+// Parts of speech are free text and may list several, e.g. "명사/동사"
+const splitPartsOfSpeech = (partOfSpeech: string) => partOfSpeech.split(/[,/]/).map(part => part.trim()).filter(Boolean);
+
+export const getUnitOptions = (words: Word[]): (string | number)[] => {
+    const units = new Map<string, string | number>();
+    words.forEach(word => {
+        if (word.unit) units.set(String(word.unit), word.unit);
+    });
+    return Array.from(units.values()).sort((a, b) => Number(a) - Number(b));
+};
+
+export const getPartOfSpeechOptions = (words: Word[]): string[] =>
+    Array.from(new Set(words.flatMap(word => splitPartsOfSpeech(word.partOfSpeech)))).sort((a, b) => a.localeCompare(b, 'ko'));
+
+export const applyWordFilters = (words: Word[], wordStats: Record<string | number, WordStat>, filters: WordFilters): Word[] => {
+    const units = new Set(filters.units.map(String));
+    const partsOfSpeech = new Set(filters.partsOfSpeech);
+    return words.filter(word => {
+        const stat = wordStats[word.id];
+        if (units.size > 0 && !units.has(String(word.unit))) return false;
+        if (partsOfSpeech.size > 0 && !splitPartsOfSpeech(word.partOfSpeech).some(part => partsOfSpeech.has(part))) return false;
+        if (filters.onlyUnmastered && stat?.isMastered) return false;
+        if (filters.onlyIncorrect && !(stat?.quizIncorrectCount > 0)) return false;
+        if (filters.onlyCustom && !word.isCustom) return false;
+        return true;
+    });
+};
+
+export const countActiveWordFilters = (filters: WordFilters): number =>
+    (filters.units.length > 0 ? 1 : 0) + (filters.partsOfSpeech.length > 0 ? 1 : 0)
+    + [filters.onlyUnmastered, filters.onlyIncorrect, filters.onlyCustom].filter(Boolean).length;
+
+// Words are expected to be shuffled already
+export const limitQuestionCount = <T,>(words: T[], count: QuestionCount): T[] =>
+    count === 'all' ? words : words.slice(0, count);
+
+// Saved sessions record a single unit for their label; several units show as the whole word list
+export const getSelectedUnit = (filters: WordFilters): string | number => filters.units.length === 1 ? filters.units[0] : 'all';
@@ -0,0 +1,529 @@
+import type { UserSettings, Word, WordStat, ReviewLogEntry, WordOverride, DatasetSnapshot, DatasetChanges } from './index.tsx';
+import type { GeneratedExample } from './exampleSentences';
+import type { ExampleEnrichmentJob } from './exampleEnrichment';
+import { isAICacheEntryExpired, pickAICacheEvictions, type AICacheEntry, type AICacheEntryInfo } from './aiCache';
+import { loadPersistedData, savePersistedValue, clearPersistedData, CURRENT_SCHEMA_VERSION, type PersistedData, type StorageKey } from './storage';
+import { DEFAULT_PROFILE_ID, getProfileStorage } from './profiles';
+import { clearSessionSnapshots } from './sessions';
+
+// --- IndexedDB word repository ---
+// Custom words and word stats are stored one record per word so a change to a single word writes a single record.
+// Built-in words are never stored; they come from the bundled dataset, with user edits kept as overrides.
+// Settings, overrides, the review log and dataset snapshots live in a small key-value store. Browsers without IndexedDB (or where opening
+// it fails, e.g. some private modes) fall back to the versioned localStorage layer in storage.ts.
+// Each device profile gets its own database and its own prefixed localStorage keys; see profiles.ts.
+// The AI cache has a database of its own, shared by every profile, so adding it didn't require upgrading the
+// profile databases (which an older tab still holding them open would block).
+
+const DB_NAME = 'word-learning-app';
+const DB_VERSION = 1;
+
+const AI_CACHE_DB_NAME = `${DB_NAME}.ai-cache`;
+const AI_CACHE_DB_VERSION = 1;
+
+const STORES = {
+    words: 'words',
+    wordStats: 'wordStats',
+    images: 'images',
+    kv: 'kv',
+} as const;
+
+const AI_CACHE_STORES = {
+    entries: 'entries', // Entry info only, so listing and pruning never read the cached images
+    values: 'values',
+} as const;
+
+const KV_KEYS = {
+    userSettings: 'userSettings',
+    reviewLog: 'reviewLog',
+    wordOverrides: 'wordOverrides',
+    datasetSnapshot: 'datasetSnapshot',
+    datasetChanges: 'datasetChanges',
+    exampleHistory: 'exampleHistory', // Word id → examples generated for it, see exampleSentences.ts
+    exampleEnrichmentJob: 'exampleEnrichmentJob',
+    schemaVersion: 'schemaVersion',
+    // Set once existing localStorage data has been copied into IndexedDB
+    localStorageMigrated: 'localStorageMigrated',
+} as const;
+
+export type StorageBackend = 'indexedDB' | 'localStorage';
+
+export interface StoredWordImage {
+    wordId: string | number;
+    blob: Blob;
+    createdAt: number;
+}
+
+export interface AppDataLoadResult {
+    data: PersistedData;
+    corruptKeys: StorageKey[];
+    backend: StorageBackend;
+    isReadOnly: boolean; // The data was saved by a newer version of the app, so nothing is written back
+}
+
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+let aiCacheDbPromise: Promise<IDBDatabase> | null = null;
+let upgradeBlockedHandler: (() => void) | null = null;
+let activeBackend: StorageBackend = 'localStorage';
+let isReadOnly = false;
+let activeProfileId = DEFAULT_PROFILE_ID;
+
+// The default profile keeps the database name used before profiles existed
+const getDatabaseName = (profileId: string) => profileId === DEFAULT_PROFILE_ID ? DB_NAME : `${DB_NAME}.${profileId}`;
+
+const getActiveStorage = () => getProfileStorage(activeProfileId);
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+// Called while opening a database waits for another tab, still running an older version, to close it
+export const setUpgradeBlockedHandler = (handler: (() => void) | null) => {
+    upgradeBlockedHandler = handler;
+};
+
+// Without a version, opens the database at whatever version it already has
+const openIndexedDB = (name: string, version: number | undefined, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        // Not an error: the open goes through once the other tab lets go. Falling back to localStorage instead would
+        // show an empty profile and save into storage that later loads never read.
+        request.onblocked = () => {
+            console.warn(`Opening '${name}' is waiting for another tab to close it`);
+            upgradeBlockedHandler?.();
+        };
+    });
+
+const openDatabase = (profileId: string = activeProfileId): Promise<IDBDatabase> => {
+    const existing = dbPromises.get(profileId);
+    if (existing) return existing;
+    const dbPromise = openIndexedDB(getDatabaseName(profileId), DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(STORES.words)) db.createObjectStore(STORES.words, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORES.wordStats)) db.createObjectStore(STORES.wordStats, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORES.images)) db.createObjectStore(STORES.images, { keyPath: 'wordId' });
+        if (!db.objectStoreNames.contains(STORES.kv)) db.createObjectStore(STORES.kv);
+    }).catch(error => {
+        if (!(error instanceof DOMException && error.name === 'VersionError')) throw error;
+        // A newer version of the app upgraded the database; read what it saved, but write nothing back
+        console.warn("IndexedDB was upgraded by a newer version of the app; opening it read-only.");
+        isReadOnly = true;
+        return openIndexedDB(getDatabaseName(profileId), undefined, () => {});
+    }).then(db => {
+        // Let a newer version of the app, opened in another tab, upgrade the database
+        db.onversionchange = () => {
+            db.close();
+            dbPromises.delete(profileId);
+        };
+        return db;
+    });
+    dbPromises.set(profileId, dbPromise);
+    dbPromise.catch(() => { dbPromises.delete(profileId); });
+    return dbPromise;
+};
+
+const openAICacheDatabase = (): Promise<IDBDatabase> => {
+    if (aiCacheDbPromise) return aiCacheDbPromise;
+    const dbPromise = openIndexedDB(AI_CACHE_DB_NAME, AI_CACHE_DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(AI_CACHE_STORES.entries)) db.createObjectStore(AI_CACHE_STORES.entries, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(AI_CACHE_STORES.values)) db.createObjectStore(AI_CACHE_STORES.values);
+    }).then(db => {
+        db.onversionchange = () => {
+            db.close();
+            aiCacheDbPromise = null;
+        };
+        return db;
+    });
+    aiCacheDbPromise = dbPromise;
+    dbPromise.catch(() => { if (aiCacheDbPromise === dbPromise) aiCacheDbPromise = null; });
+    return dbPromise;
+};
+
+const readAll = async <T>(db: IDBDatabase, storeName: string): Promise<T[]> =>
+    requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+
+const readKv = async <T>(db: IDBDatabase, key: string): Promise<T | undefined> =>
+    requestToPromise(db.transaction(STORES.kv, 'readonly').objectStore(STORES.kv).get(key) as IDBRequest<T | undefined>);
+
+// Copies whatever the localStorage layer holds (after its own migrations) into IndexedDB in one transaction,
+// then clears the localStorage copies so they stop counting against its quota. Data a newer version of the app
+// saved is left where it is and opened read-only: that build is the only one that can read it correctly.
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<AppDataLoadResult> => {
+    const storage = getActiveStorage();
+    const { data, corruptKeys, isNewerVersion } = loadPersistedData(storage);
+    if (isNewerVersion) {
+        console.warn("localStorage data was saved by a newer version of the app; opening it read-only without migrating.");
+        activeBackend = 'localStorage';
+        isReadOnly = true;
+        return { data, corruptKeys, backend: 'localStorage', isReadOnly };
+    }
+    const transaction = db.transaction([STORES.words, STORES.wordStats, STORES.kv], 'readwrite');
+    const wordsStore = transaction.objectStore(STORES.words);
+    const statsStore = transaction.objectStore(STORES.wordStats);
+    const kvStore = transaction.objectStore(STORES.kv);
+
+    data.customWords?.forEach(word => wordsStore.put(word));
+    if (data.wordStats) Object.values(data.wordStats).forEach(stat => statsStore.put(stat));
+    if (data.userSettings) kvStore.put(data.userSettings, KV_KEYS.userSettings);
+    if (data.reviewLog) kvStore.put(data.reviewLog, KV_KEYS.reviewLog);
+    if (data.wordOverrides) kvStore.put(data.wordOverrides, KV_KEYS.wordOverrides);
+    if (data.datasetSnapshot) kvStore.put(data.datasetSnapshot, KV_KEYS.datasetSnapshot);
+    if (data.datasetChanges) kvStore.put(data.datasetChanges, KV_KEYS.datasetChanges);
+    kvStore.put(CURRENT_SCHEMA_VERSION, KV_KEYS.schemaVersion);
+    kvStore.put(true, KV_KEYS.localStorageMigrated);
+    await transactionDone(transaction);
+
+    clearPersistedData(storage);
+    return { data, corruptKeys, backend: 'indexedDB', isReadOnly: false };
+};
+
+// Databases created before schema v4 hold a copy of every built-in word; drop those so the bundled dataset is used.
+const removeStoredBuiltInWords = async (db: IDBDatabase) => {
+    const words = await readAll<Word>(db, STORES.words);
+    const transaction = db.transaction([STORES.words, STORES.kv], 'readwrite');
+    const wordsStore = transaction.objectStore(STORES.words);
+    words.filter(word => !word.isCustom).forEach(word => wordsStore.delete(word.id));
+    transaction.objectStore(STORES.kv).put(CURRENT_SCHEMA_VERSION, KV_KEYS.schemaVersion);
+    await transactionDone(transaction);
+};
+
+let lastLoad: { profileId: string; promise: Promise<AppDataLoadResult> } | null = null;
+
+// Makes `profileId` the profile every later save writes to, then loads its data. Memoized for the most recent
+// profile so a remount (e.g. React StrictMode) can't start a second localStorage migration mid-flight.
+export const loadAppData = (profileId: string = DEFAULT_PROFILE_ID): Promise<AppDataLoadResult> => {
+    activeProfileId = profileId;
+    if (lastLoad?.profileId !== profileId) {
+        isReadOnly = false;
+        lastLoad = { profileId, promise: loadAppDataFromBackend(profileId) };
+    }
+    return lastLoad.promise;
+};
+
+// Used when loading failed outright; still reads only the given profile's keys
+export const loadAppDataFromLocalStorage = (profileId: string): AppDataLoadResult => {
+    activeProfileId = profileId;
+    activeBackend = 'localStorage';
+    const { data, corruptKeys, isNewerVersion } = loadPersistedData(getProfileStorage(profileId));
+    isReadOnly = isNewerVersion;
+    return { data, corruptKeys, backend: 'localStorage', isReadOnly };
+};
+
+const loadAppDataFromBackend = async (profileId: string): Promise<AppDataLoadResult> => {
+    let db: IDBDatabase;
+    try {
+        db = await openDatabase(profileId);
+    } catch (error) {
+        console.warn("IndexedDB unavailable, falling back to localStorage:", error);
+        return loadAppDataFromLocalStorage(profileId);
+    }
+    activeBackend = 'indexedDB';
+
+    // Checked before migrating too, so localStorage data is never copied in over what a newer build saved
+    const storedVersion = (await readKv<number>(db, KV_KEYS.schemaVersion)) ?? 0;
+    if (storedVersion > CURRENT_SCHEMA_VERSION) {
+        console.warn(`Stored schema version ${storedVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}; opening read-only.`);
+        isReadOnly = true;
+    } else if (!(await readKv<boolean>(db, KV_KEYS.localStorageMigrated))) {
+        return migrateFromLocalStorage(db);
+    } else if (storedVersion < 4) {
+        await removeStoredBuiltInWords(db);
+    }
+
+    const [words, stats, userSettings, reviewLog, wordOverrides, datasetSnapshot, datasetChanges] = await Promise.all([
+        readAll<Word>(db, STORES.words),
+        readAll<WordStat>(db, STORES.wordStats),
+        readKv<UserSettings>(db, KV_KEYS.userSettings),
+        readKv<ReviewLogEntry[]>(db, KV_KEYS.reviewLog),
+        readKv<Record<string | number, WordOverride>>(db, KV_KEYS.wordOverrides),
+        readKv<DatasetSnapshot>(db, KV_KEYS.datasetSnapshot),
+        readKv<DatasetChanges>(db, KV_KEYS.datasetChanges),
+    ]);
+    const wordStats: Record<string | number, WordStat> = {};
+    stats.forEach(stat => { wordStats[stat.id] = stat; });
+
+    return {
+        data: {
+            userSettings: userSettings ?? null,
+            customWords: words,
+            wordStats: stats.length > 0 ? wordStats : null,
+            reviewLog: reviewLog ?? null,
+            wordOverrides: wordOverrides ?? null,
+            datasetSnapshot: datasetSnapshot ?? null,
+            datasetChanges: datasetChanges ?? null,
+        },
+        corruptKeys: [],
+        backend: 'indexedDB',
+        isReadOnly,
+    };
+};
+
+// Writes only records whose object identity changed since the last save and deletes removed ones.
+// State updates in App are immutable, so an untouched word keeps the same object reference.
+const writeRecordChanges = async <T extends { id: string | number }>(storeName: string, previous: T[], next: T[]) => {
+    const previousById = new Map(previous.map(record => [String(record.id), record]));
+    const changed = next.filter(record => previousById.get(String(record.id)) !== record);
+    const nextIds = new Set(next.map(record => String(record.id)));
+    const removed = previous.filter(record => !nextIds.has(String(record.id)));
+    if (changed.length === 0 && removed.length === 0) return;
+
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    changed.forEach(record => store.put(record));
+    removed.forEach(record => store.delete(record.id));
+    await transactionDone(transaction);
+};
+
+export const saveCustomWords = async (previous: Word[], next: Word[]) => {
+    if (isReadOnly) return;
+    if (activeBackend === 'localStorage') {
+        savePersistedValue('customWords', next, getActiveStorage());
+        return;
+    }
+    await writeRecordChanges(STORES.words, previous, next);
+};
+
+export const saveWordStats = async (previous: Record<string | number, WordStat>, next: Record<string | number, WordStat>) => {
+    if (isReadOnly) return;
+    if (activeBackend === 'localStorage') {
+        savePersistedValue('wordStats', next, getActiveStorage());
+        return;
+    }
+    await writeRecordChanges(STORES.wordStats, Object.values(previous), Object.values(next));
+};
+
+const saveKvValue = async (key: string, value: unknown) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.kv, 'readwrite');
+    if (value === null) {
+        transaction.objectStore(STORES.kv).delete(key);
+    } else {
+        transaction.objectStore(STORES.kv).put(value, key);
+    }
+    await transactionDone(transaction);
+};
+
+export const saveUserSettings = async (settings: UserSettings | null) => {
+    if (isReadOnly) return;
+    if (activeBackend === 'localStorage') {
+        savePersistedValue('userSettings', settings, getActiveStorage());
+        return;
+    }
+    await saveKvValue(KV_KEYS.userSettings, settings);
+};
+
+export const saveReviewLog = async (reviewLog: ReviewLogEntry[]) => {
+    if (isReadOnly) return;
+    if (activeBackend === 'localStorage') {
+        savePersistedValue('reviewLog', reviewLog, getActiveStorage());
+        return;
+    }
+    await saveKvValue(KV_KEYS.reviewLog, reviewLog);
+};
+
+export const saveWordOverrides = async (wordOverrides: Record<string | number, WordOverride>) => {
+    if (isReadOnly) return;
+    if (activeBackend === 'localStorage') {
+        savePersistedValue('wordOverrides', wordOverrides, getActiveStorage());
+        return;
+    }
+    await saveKvValue(KV_KEYS.wordOverrides, wordOverrides);
+};
+
+// Snapshot and change report are written together so a crash can't record the new dataset without its diff.
+export const saveDatasetUpdate = async (snapshot: DatasetSnapshot, changes: DatasetChanges | null) => {
+    if (isReadOnly) return;
+    if (activeBackend === 'localStorage') {
+        savePersistedValue('datasetSnapshot', snapshot, getActiveStorage());
+        if (changes) savePersistedValue('datasetChanges', changes, getActiveStorage());
+        return;
+    }
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.kv, 'readwrite');
+    transaction.objectStore(STORES.kv).put(snapshot, KV_KEYS.datasetSnapshot);
+    if (changes) transaction.objectStore(STORES.kv).put(changes, KV_KEYS.datasetChanges);
+    await transactionDone(transaction);
+};
+
+// Images are only kept in IndexedDB; with the localStorage fallback they would exhaust the quota almost immediately.
+export const saveWordImage = async (wordId: string | number, blob: Blob) => {
+    if (isReadOnly) return;
+    if (activeBackend === 'localStorage') return;
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.images, 'readwrite');
+    transaction.objectStore(STORES.images).put({ wordId, blob, createdAt: Date.now() } as StoredWordImage);
+    await transactionDone(transaction);
+};
+
+export const loadWordImage = async (wordId: string | number): Promise<Blob | null> => {
+    if (activeBackend === 'localStorage') return null;
+    const db = await openDatabase();
+    const record = await requestToPromise(
+        db.transaction(STORES.images, 'readonly').objectStore(STORES.images).get(wordId) as IDBRequest<StoredWordImage | undefined>
+    );
+    return record?.blob ?? null;
+};
+
+// Ids of the words with a stored image, so long lists only load the images that exist
+export const loadWordImageIds = async (): Promise<(string | number)[]> => {
+    if (activeBackend === 'localStorage') return [];
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(STORES.images, 'readonly').objectStore(STORES.images).getAllKeys() as IDBRequest<(string | number)[]>);
+};
+
+export const deleteWordImage = async (wordId: string | number) => {
+    if (isReadOnly) return;
+    if (activeBackend === 'localStorage') return;
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.images, 'readwrite');
+    transaction.objectStore(STORES.images).delete(wordId);
+    await transactionDone(transaction);
+};
+
+// Generated examples, like images, are only a saved copy of AI output and are only kept in IndexedDB
+export const loadExampleHistory = async (wordId: string | number): Promise<GeneratedExample[]> => {
+    if (activeBackend === 'localStorage') return [];
+    const db = await openDatabase();
+    const histories = await readKv<Record<string, GeneratedExample[]>>(db, KV_KEYS.exampleHistory);
+    return histories?.[String(wordId)] ?? [];
+};
+
+// Read and written in one transaction so saves for different words can't overwrite each other
+export const saveExampleHistory = async (wordId: string | number, examples: GeneratedExample[]) => {
+    if (isReadOnly) return;
+    if (activeBackend === 'localStorage') return;
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.kv, 'readwrite');
+    const store = transaction.objectStore(STORES.kv);
+    const request = store.get(KV_KEYS.exampleHistory) as IDBRequest<Record<string, GeneratedExample[]> | undefined>;
+    request.onsuccess = () => store.put({ ...request.result, [String(wordId)]: examples }, KV_KEYS.exampleHistory);
+    await transactionDone(transaction);
+};
+
+// Only kept in IndexedDB as well; with the localStorage fallback the job starts over after a reload
+export const loadExampleEnrichmentJob = async (): Promise<ExampleEnrichmentJob | null> => {
+    if (activeBackend === 'localStorage') return null;
+    const db = await openDatabase();
+    return (await readKv<ExampleEnrichmentJob>(db, KV_KEYS.exampleEnrichmentJob)) ?? null;
+};
+
+export const saveExampleEnrichmentJob = async (job: ExampleEnrichmentJob) => {
+    if (isReadOnly) return;
+    if (activeBackend === 'localStorage') return;
+    await saveKvValue(KV_KEYS.exampleEnrichmentJob, job);
+};
+
+// The AI cache is only kept in IndexedDB too; with the localStorage fallback every lookup misses. It isn't
+// profile data, so resetting or deleting a profile leaves it alone.
+export const loadAICacheValue = async (key: string): Promise<unknown | null> => {
+    if (activeBackend === 'localStorage') return null;
+    const db = await openAICacheDatabase();
+    const transaction = db.transaction([AI_CACHE_STORES.entries, AI_CACHE_STORES.values], 'readwrite');
+    const entriesStore = transaction.objectStore(AI_CACHE_STORES.entries);
+    const valuesStore = transaction.objectStore(AI_CACHE_STORES.values);
+    const [info, value] = await Promise.all([
+        requestToPromise(entriesStore.get(key) as IDBRequest<AICacheEntryInfo | undefined>),
+        requestToPromise(valuesStore.get(key) as IDBRequest<unknown>),
+    ]);
+    if (!info || value === undefined || isAICacheEntryExpired(info)) {
+        entriesStore.delete(key);
+        valuesStore.delete(key);
+        await transactionDone(transaction);
+        return null;
+    }
+    entriesStore.put({ ...info, lastUsedAt: Date.now() });
+    await transactionDone(transaction);
+    return value;
+};
+
+export const loadAICacheEntries = async (): Promise<AICacheEntryInfo[]> => {
+    if (activeBackend === 'localStorage') return [];
+    const db = await openAICacheDatabase();
+    return readAll<AICacheEntryInfo>(db, AI_CACHE_STORES.entries);
+};
+
+export const deleteAICacheEntries = async (keys: string[]) => {
+    if (activeBackend === 'localStorage' || keys.length === 0) return;
+    const db = await openAICacheDatabase();
+    const transaction = db.transaction([AI_CACHE_STORES.entries, AI_CACHE_STORES.values], 'readwrite');
+    keys.forEach(key => {
+        transaction.objectStore(AI_CACHE_STORES.entries).delete(key);
+        transaction.objectStore(AI_CACHE_STORES.values).delete(key);
+    });
+    await transactionDone(transaction);
+};
+
+// Saving also drops whatever has expired or no longer fits within the cache limits
+export const saveAICacheEntry = async ({ value, ...info }: AICacheEntry) => {
+    if (activeBackend === 'localStorage') return;
+    const db = await openAICacheDatabase();
+    const transaction = db.transaction([AI_CACHE_STORES.entries, AI_CACHE_STORES.values], 'readwrite');
+    transaction.objectStore(AI_CACHE_STORES.entries).put(info);
+    transaction.objectStore(AI_CACHE_STORES.values).put(value, info.key);
+    await transactionDone(transaction);
+    await deleteAICacheEntries(pickAICacheEvictions(await loadAICacheEntries()));
+};
+
+export const clearAICache = async () => {
+    if (activeBackend === 'localStorage') return;
+    const db = await openAICacheDatabase();
+    const transaction = db.transaction([AI_CACHE_STORES.entries, AI_CACHE_STORES.values], 'readwrite');
+    transaction.objectStore(AI_CACHE_STORES.entries).clear();
+    transaction.objectStore(AI_CACHE_STORES.values).clear();
+    await transactionDone(transaction);
+};
+
+// Empties every store of the active profile but keeps the migration flag, so old localStorage data isn't imported again.
+export const clearAppData = async () => {
+    if (isReadOnly) return;
+    clearPersistedData(getActiveStorage());
+    clearSessionSnapshots(getActiveStorage());
+    if (activeBackend === 'localStorage') return;
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.words, STORES.wordStats, STORES.images, STORES.kv], 'readwrite');
+    transaction.objectStore(STORES.words).clear();
+    transaction.objectStore(STORES.wordStats).clear();
+    transaction.objectStore(STORES.images).clear();
+    transaction.objectStore(STORES.kv).delete(KV_KEYS.userSettings);
+    transaction.objectStore(STORES.kv).delete(KV_KEYS.reviewLog);
+    transaction.objectStore(STORES.kv).delete(KV_KEYS.wordOverrides);
+    transaction.objectStore(STORES.kv).delete(KV_KEYS.exampleHistory);
+    transaction.objectStore(STORES.kv).delete(KV_KEYS.exampleEnrichmentJob);
+    await transactionDone(transaction);
+};
+
+// Removes everything a profile ever stored. The profile must not be the one currently loaded.
+export const deleteProfileData = async (profileId: string) => {
+    clearPersistedData(getProfileStorage(profileId));
+    clearSessionSnapshots(getProfileStorage(profileId));
+    if (typeof indexedDB === 'undefined') return;
+    const existing = dbPromises.get(profileId);
+    if (existing) {
+        dbPromises.delete(profileId);
+        await existing.then(db => db.close(), () => undefined);
+    }
+    await requestToPromise(indexedDB.deleteDatabase(getDatabaseName(profileId)));
+};
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+};